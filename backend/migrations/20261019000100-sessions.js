@@ -0,0 +1,35 @@
+'use strict';
+
+/**
+ * Login sessions: one row per logged-in device, holding the SHA-256 hash of
+ * its current refresh token. Every authenticated request looks its session
+ * up (utils/authTokens.ts verifyAccessToken).
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+    if (tables.includes('sessions')) return;
+
+    await queryInterface.createTable('sessions', {
+      session_id        : { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+      user_id           : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'CASCADE',
+      },
+      refresh_token_hash: { type: Sequelize.STRING(64), allowNull: false },
+      user_agent        : { type: Sequelize.STRING(255), allowNull: true },
+      expires_at        : { type: Sequelize.DATE, allowNull: false },
+      last_used_at      : { type: Sequelize.DATE, allowNull: true },
+      revoked_at        : { type: Sequelize.DATE, allowNull: true },
+      created_at        : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+      updated_at        : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+    });
+    await queryInterface.addIndex('sessions', ['user_id']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('sessions');
+  },
+};
@@ -0,0 +1,30 @@
+'use strict';
+
+/**
+ * One-time password reset links (POST /users/password/forgot and
+ * /users/password/reset). Only the SHA-256 hash of each token is stored.
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+    if (tables.includes('password_reset_tokens')) return;
+
+    await queryInterface.createTable('password_reset_tokens', {
+      token_id  : { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+      user_id   : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'CASCADE',
+      },
+      token_hash: { type: Sequelize.STRING(64), allowNull: false, unique: true },
+      expires_at: { type: Sequelize.DATE, allowNull: false },
+      used_at   : { type: Sequelize.DATE, allowNull: true },
+      created_at: { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('password_reset_tokens');
+  },
+};
@@ -0,0 +1,60 @@
+'use strict';
+
+/**
+ * Email verification (users.verified_at / users.pending_email and the
+ * email_verification_tokens table).
+ *
+ * Accounts that existed before the rollout never got a verification email,
+ * so they are grandfathered: every user without a registration token for
+ * their current address is marked verified. Run this BEFORE deploying the
+ * code that requires a verified email, otherwise every existing user gets
+ * 403 EMAIL_NOT_VERIFIED.
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+    const users = await queryInterface.describeTable('users');
+
+    if (!users.verified_at) {
+      await queryInterface.addColumn('users', 'verified_at', { type: Sequelize.DATE, allowNull: true });
+    }
+    if (!users.pending_email) {
+      await queryInterface.addColumn('users', 'pending_email', { type: Sequelize.STRING, allowNull: true });
+    }
+
+    if (!tables.includes('email_verification_tokens')) {
+      await queryInterface.createTable('email_verification_tokens', {
+        token_id  : { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+        user_id   : {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: false,
+          references: { model: 'users', key: 'user_id' },
+          onDelete: 'CASCADE',
+        },
+        email     : { type: Sequelize.STRING, allowNull: false },
+        token_hash: { type: Sequelize.STRING(64), allowNull: false, unique: true },
+        expires_at: { type: Sequelize.DATE, allowNull: false },
+        used_at   : { type: Sequelize.DATE, allowNull: true },
+        created_at: { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+      });
+    }
+
+    // Grandfather existing accounts. Users who registered after the rollout
+    // have a token for their own address and keep going through the link.
+    await queryInterface.sequelize.query(`
+      UPDATE users u
+         SET u.verified_at = NOW()
+       WHERE u.verified_at IS NULL
+         AND NOT EXISTS (
+               SELECT 1 FROM email_verification_tokens t
+                WHERE t.user_id = u.user_id AND t.email = u.email
+             )
+    `);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('email_verification_tokens');
+    await queryInterface.removeColumn('users', 'pending_email');
+    await queryInterface.removeColumn('users', 'verified_at');
+  },
+};
@@ -0,0 +1,18 @@
+'use strict';
+
+/**
+ * users.last_seen_at: when the user's last socket disconnected, shown while
+ * they are offline.
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const users = await queryInterface.describeTable('users');
+    if (!users.last_seen_at) {
+      await queryInterface.addColumn('users', 'last_seen_at', { type: Sequelize.DATE, allowNull: true });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('users', 'last_seen_at');
+  },
+};
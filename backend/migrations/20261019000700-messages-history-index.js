@@ -0,0 +1,21 @@
+'use strict';
+
+/**
+ * Index behind the cursor pagination of chat history
+ * (GET /chats/:chat_id/messages?before=...), which seeks on
+ * chat_id + message_id.
+ */
+const INDEX = 'messages_chat_id_message_id';
+
+module.exports = {
+  async up(queryInterface) {
+    const indexes = await queryInterface.showIndex('messages');
+    if (!indexes.some((i) => i.name === INDEX)) {
+      await queryInterface.addIndex('messages', ['chat_id', 'message_id'], { name: INDEX });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('messages', INDEX);
+  },
+};
@@ -0,0 +1,41 @@
+'use strict';
+
+/**
+ * Files and images attached to chat messages. The files themselves live in
+ * Cloudinary (public_id / resource_type); this table only references them.
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+    if (tables.includes('message_attachments')) return;
+
+    await queryInterface.createTable('message_attachments', {
+      attachment_id: { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+      message_id   : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'messages', key: 'message_id' },
+        onDelete: 'CASCADE',
+      },
+      uploader_id  : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'CASCADE',
+      },
+      file_name    : { type: Sequelize.STRING(255), allowNull: false },
+      mime_type    : { type: Sequelize.STRING(100), allowNull: false },
+      size_bytes   : { type: Sequelize.INTEGER.UNSIGNED, allowNull: false },
+      item_type    : { type: Sequelize.ENUM('image', 'pdf', 'video', 'other'), allowNull: false },
+      public_id    : { type: Sequelize.STRING(255), allowNull: false },
+      resource_type: { type: Sequelize.ENUM('image', 'video', 'raw'), allowNull: false },
+      format       : { type: Sequelize.STRING(20), allowNull: true },
+      created_at   : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+    });
+    await queryInterface.addIndex('message_attachments', ['message_id']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('message_attachments');
+  },
+};
@@ -0,0 +1,22 @@
+'use strict';
+
+/**
+ * messages.edited_at / messages.deleted_at for editing and unsending
+ * messages. Unsent messages stay as tombstones (text cleared, deleted_at set).
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('messages');
+    if (!columns.edited_at) {
+      await queryInterface.addColumn('messages', 'edited_at', { type: Sequelize.DATE, allowNull: true });
+    }
+    if (!columns.deleted_at) {
+      await queryInterface.addColumn('messages', 'deleted_at', { type: Sequelize.DATE, allowNull: true });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('messages', 'deleted_at');
+    await queryInterface.removeColumn('messages', 'edited_at');
+  },
+};
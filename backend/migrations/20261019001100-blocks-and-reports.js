@@ -0,0 +1,79 @@
+'use strict';
+
+/**
+ * user_blocks (who blocked whom; checked on every message sent) and
+ * user_reports (complaints filed when blocking, reviewed by admins).
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+
+    if (!tables.includes('user_blocks')) {
+      await queryInterface.createTable('user_blocks', {
+        block_id  : { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+        blocker_id: {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: false,
+          references: { model: 'users', key: 'user_id' },
+          onDelete: 'CASCADE',
+        },
+        blocked_id: {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: false,
+          references: { model: 'users', key: 'user_id' },
+          onDelete: 'CASCADE',
+        },
+        created_at: { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+      });
+      await queryInterface.addIndex('user_blocks', ['blocker_id', 'blocked_id'], { unique: true });
+      await queryInterface.addIndex('user_blocks', ['blocked_id']);
+    }
+
+    if (!tables.includes('user_reports')) {
+      await queryInterface.createTable('user_reports', {
+        report_id  : { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+        reporter_id: {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: false,
+          references: { model: 'users', key: 'user_id' },
+          onDelete: 'CASCADE',
+        },
+        reported_id: {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: false,
+          references: { model: 'users', key: 'user_id' },
+          onDelete: 'CASCADE',
+        },
+        reason     : {
+          type: Sequelize.ENUM('harassment', 'spam', 'scam', 'inappropriate_content', 'other'),
+          allowNull: false,
+        },
+        details    : { type: Sequelize.TEXT, allowNull: true },
+        chat_id    : {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: true,
+          references: { model: 'chats', key: 'chat_id' },
+          onDelete: 'SET NULL',
+        },
+        status     : { type: Sequelize.ENUM('open', 'reviewed', 'dismissed'), allowNull: false, defaultValue: 'open' },
+        admin_note : { type: Sequelize.TEXT, allowNull: true },
+        reviewed_by: {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: true,
+          references: { model: 'users', key: 'user_id' },
+          onDelete: 'SET NULL',
+        },
+        reviewed_at: { type: Sequelize.DATE, allowNull: true },
+        created_at : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+        updated_at : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+      });
+      await queryInterface.addIndex('user_reports', ['status']);
+      await queryInterface.addIndex('user_reports', ['reported_id']);
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('user_reports');
+    await queryInterface.dropTable('user_blocks');
+  },
+};
@@ -0,0 +1,20 @@
+'use strict';
+
+/**
+ * FULLTEXT index on messages.message. GET /chats/search uses
+ * MATCH ... AGAINST, which MySQL rejects without it.
+ */
+const INDEX = 'messages_message_fulltext';
+
+module.exports = {
+  async up(queryInterface) {
+    const indexes = await queryInterface.showIndex('messages');
+    if (!indexes.some((i) => i.name === INDEX)) {
+      await queryInterface.addIndex('messages', ['message'], { name: INDEX, type: 'FULLTEXT' });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('messages', INDEX);
+  },
+};
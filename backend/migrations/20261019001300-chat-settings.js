@@ -0,0 +1,40 @@
+'use strict';
+
+/**
+ * chat_settings: one user's archive / mute / pin state of a chat. A missing
+ * row means none of them is set.
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+    if (tables.includes('chat_settings')) return;
+
+    await queryInterface.createTable('chat_settings', {
+      setting_id: { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+      chat_id   : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'chats', key: 'chat_id' },
+        onDelete: 'CASCADE',
+      },
+      user_id   : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'CASCADE',
+      },
+      archived  : { type: Sequelize.BOOLEAN, allowNull: false, defaultValue: false },
+      muted     : { type: Sequelize.BOOLEAN, allowNull: false, defaultValue: false },
+      pinned    : { type: Sequelize.BOOLEAN, allowNull: false, defaultValue: false },
+      pinned_at : { type: Sequelize.DATE, allowNull: true },
+      created_at: { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+      updated_at: { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+    });
+    await queryInterface.addIndex('chat_settings', ['chat_id', 'user_id'], { unique: true });
+    await queryInterface.addIndex('chat_settings', ['user_id']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('chat_settings');
+  },
+};
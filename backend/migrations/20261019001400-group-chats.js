@@ -0,0 +1,93 @@
+'use strict';
+
+/**
+ * Group chats tied to job postings: chats.chat_type / title / owner_id /
+ * job_id (user1_id and user2_id become optional), the chat_participants
+ * table, and the unique index that allows one group chat per job posting.
+ * Group messages have no single receiver, so messages.receiver_id becomes
+ * optional too.
+ */
+const INDEX = 'chats_job_id_unique';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('chats');
+
+    if (!columns.chat_type) {
+      await queryInterface.addColumn('chats', 'chat_type', {
+        type: Sequelize.ENUM('direct', 'group'),
+        allowNull: false,
+        defaultValue: 'direct',
+      });
+    }
+    for (const column of ['user1_id', 'user2_id']) {
+      if (!columns[column].allowNull) {
+        await queryInterface.changeColumn('chats', column, { type: Sequelize.INTEGER.UNSIGNED, allowNull: true });
+      }
+    }
+    if (!columns.title) {
+      await queryInterface.addColumn('chats', 'title', { type: Sequelize.STRING(255), allowNull: true });
+    }
+    if (!columns.owner_id) {
+      await queryInterface.addColumn('chats', 'owner_id', {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: true,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'SET NULL',
+      });
+    }
+    if (!columns.job_id) {
+      await queryInterface.addColumn('chats', 'job_id', {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: true,
+        references: { model: 'job_postings', key: 'job_id' },
+        onDelete: 'SET NULL',
+      });
+    }
+
+    const messages = await queryInterface.describeTable('messages');
+    if (!messages.receiver_id.allowNull) {
+      await queryInterface.changeColumn('messages', 'receiver_id', { type: Sequelize.INTEGER.UNSIGNED, allowNull: true });
+    }
+
+    // Fails if a job posting already has two group chats; merge them first
+    const indexes = await queryInterface.showIndex('chats');
+    if (!indexes.some((i) => i.name === INDEX)) {
+      await queryInterface.addIndex('chats', ['job_id'], { name: INDEX, unique: true });
+    }
+
+    const tables = await queryInterface.showAllTables();
+    if (!tables.includes('chat_participants')) {
+      await queryInterface.createTable('chat_participants', {
+        participant_id: { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+        chat_id: {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: false,
+          references: { model: 'chats', key: 'chat_id' },
+          onDelete: 'CASCADE',
+        },
+        user_id: {
+          type: Sequelize.INTEGER.UNSIGNED,
+          allowNull: false,
+          references: { model: 'users', key: 'user_id' },
+          onDelete: 'CASCADE',
+        },
+        role: { type: Sequelize.ENUM('owner', 'member'), allowNull: false, defaultValue: 'member' },
+        last_read_message_id: { type: Sequelize.INTEGER.UNSIGNED, allowNull: true },
+        created_at: { type: Sequelize.DATE, allowNull: false },
+        updated_at: { type: Sequelize.DATE, allowNull: false },
+      });
+      await queryInterface.addIndex('chat_participants', ['chat_id', 'user_id'], { unique: true });
+      await queryInterface.addIndex('chat_participants', ['user_id']);
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('chat_participants');
+    await queryInterface.removeIndex('chats', INDEX);
+    await queryInterface.removeColumn('chats', 'job_id');
+    await queryInterface.removeColumn('chats', 'owner_id');
+    await queryInterface.removeColumn('chats', 'title');
+    await queryInterface.removeColumn('chats', 'chat_type');
+  },
+};
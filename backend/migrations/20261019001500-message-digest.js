@@ -0,0 +1,26 @@
+'use strict';
+
+/**
+ * Offline message digest: users.message_digest_opt_out and
+ * users.last_digest_sent_at (messages up to it are already covered).
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const users = await queryInterface.describeTable('users');
+    if (!users.message_digest_opt_out) {
+      await queryInterface.addColumn('users', 'message_digest_opt_out', {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      });
+    }
+    if (!users.last_digest_sent_at) {
+      await queryInterface.addColumn('users', 'last_digest_sent_at', { type: Sequelize.DATE, allowNull: true });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('users', 'last_digest_sent_at');
+    await queryInterface.removeColumn('users', 'message_digest_opt_out');
+  },
+};
@@ -0,0 +1,35 @@
+'use strict';
+
+/**
+ * Emoji reactions on chat messages, at most one per user and message.
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+    if (tables.includes('message_reactions')) return;
+
+    await queryInterface.createTable('message_reactions', {
+      reaction_id: { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+      message_id : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'messages', key: 'message_id' },
+        onDelete: 'CASCADE',
+      },
+      user_id    : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'CASCADE',
+      },
+      emoji      : { type: Sequelize.STRING(32), allowNull: false },
+      created_at : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+      updated_at : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+    });
+    await queryInterface.addIndex('message_reactions', ['message_id', 'user_id'], { unique: true });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('message_reactions');
+  },
+};
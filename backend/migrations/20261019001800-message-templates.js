@@ -0,0 +1,30 @@
+'use strict';
+
+/**
+ * Saved quick-reply templates, unique by name per user.
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+    if (tables.includes('message_templates')) return;
+
+    await queryInterface.createTable('message_templates', {
+      template_id: { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+      user_id    : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'CASCADE',
+      },
+      name       : { type: Sequelize.STRING(100), allowNull: false },
+      body       : { type: Sequelize.TEXT, allowNull: false },
+      created_at : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+      updated_at : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+    });
+    await queryInterface.addIndex('message_templates', ['user_id', 'name'], { unique: true });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('message_templates');
+  },
+};
@@ -0,0 +1,49 @@
+'use strict';
+
+/**
+ * Moderation of filtered chat messages: messages.moderation_status /
+ * moderation_reasons / moderated_by / moderated_at, and the index behind the
+ * admin review queue (GET /admin/messages/flagged).
+ */
+const INDEX = 'messages_moderation_status';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('messages');
+
+    if (!columns.moderation_status) {
+      await queryInterface.addColumn('messages', 'moderation_status', {
+        type: Sequelize.ENUM('clean', 'flagged', 'hidden', 'approved', 'removed'),
+        allowNull: false,
+        defaultValue: 'clean',
+      });
+    }
+    if (!columns.moderation_reasons) {
+      await queryInterface.addColumn('messages', 'moderation_reasons', { type: Sequelize.JSON, allowNull: true });
+    }
+    if (!columns.moderated_by) {
+      await queryInterface.addColumn('messages', 'moderated_by', {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: true,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'SET NULL',
+      });
+    }
+    if (!columns.moderated_at) {
+      await queryInterface.addColumn('messages', 'moderated_at', { type: Sequelize.DATE, allowNull: true });
+    }
+
+    const indexes = await queryInterface.showIndex('messages');
+    if (!indexes.some((i) => i.name === INDEX)) {
+      await queryInterface.addIndex('messages', ['moderation_status'], { name: INDEX });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('messages', INDEX);
+    await queryInterface.removeColumn('messages', 'moderated_at');
+    await queryInterface.removeColumn('messages', 'moderated_by');
+    await queryInterface.removeColumn('messages', 'moderation_reasons');
+    await queryInterface.removeColumn('messages', 'moderation_status');
+  },
+};
@@ -0,0 +1,50 @@
+'use strict';
+
+/**
+ * Scheduled chat messages. The delivery job in server.ts polls this table
+ * by (status, deliver_at).
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tables = await queryInterface.showAllTables();
+    if (tables.includes('scheduled_messages')) return;
+
+    await queryInterface.createTable('scheduled_messages', {
+      scheduled_id  : { type: Sequelize.INTEGER.UNSIGNED, autoIncrement: true, primaryKey: true },
+      chat_id       : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'chats', key: 'chat_id' },
+        onDelete: 'CASCADE',
+      },
+      sender_id     : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        references: { model: 'users', key: 'user_id' },
+        onDelete: 'CASCADE',
+      },
+      message       : { type: Sequelize.TEXT, allowNull: false },
+      deliver_at    : { type: Sequelize.DATE, allowNull: false },
+      status        : {
+        type: Sequelize.ENUM('pending', 'sent', 'cancelled', 'failed'),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      message_id    : {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: true,
+        references: { model: 'messages', key: 'message_id' },
+        onDelete: 'SET NULL',
+      },
+      failure_reason: { type: Sequelize.STRING(255), allowNull: true },
+      created_at    : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+      updated_at    : { type: Sequelize.DATE, allowNull: false, defaultValue: Sequelize.literal('CURRENT_TIMESTAMP') },
+    });
+    await queryInterface.addIndex('scheduled_messages', ['status', 'deliver_at']);
+    await queryInterface.addIndex('scheduled_messages', ['chat_id', 'sender_id']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('scheduled_messages');
+  },
+};
@@ -0,0 +1,28 @@
+'use strict';
+
+/**
+ * The optional part of a job application: cover letter, proposed rate,
+ * availability, attached portfolio items and an uploaded CV.
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('job_applications');
+    const add = async (name, definition) => {
+      if (!columns[name]) await queryInterface.addColumn('job_applications', name, definition);
+    };
+
+    await add('cover_letter', { type: Sequelize.TEXT, allowNull: true });
+    await add('proposed_rate', { type: Sequelize.DECIMAL(10, 2), allowNull: true });
+    await add('available_from', { type: Sequelize.DATEONLY, allowNull: true });
+    await add('available_to', { type: Sequelize.DATEONLY, allowNull: true });
+    await add('portfolio_item_ids', { type: Sequelize.JSON, allowNull: true });
+    await add('cv_url', { type: Sequelize.STRING, allowNull: true });
+    await add('cv_public_id', { type: Sequelize.STRING, allowNull: true });
+  },
+
+  async down(queryInterface) {
+    for (const name of ['cv_public_id', 'cv_url', 'portfolio_item_ids', 'available_to', 'available_from', 'proposed_rate', 'cover_letter']) {
+      await queryInterface.removeColumn('job_applications', name);
+    }
+  },
+};
@@ -0,0 +1,24 @@
+'use strict';
+
+/**
+ * Screening questions: job_postings.screening_questions and the answers on
+ * job_applications.screening_answers (stored with each question's label).
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const postings = await queryInterface.describeTable('job_postings');
+    if (!postings.screening_questions) {
+      await queryInterface.addColumn('job_postings', 'screening_questions', { type: Sequelize.JSON, allowNull: true });
+    }
+
+    const applications = await queryInterface.describeTable('job_applications');
+    if (!applications.screening_answers) {
+      await queryInterface.addColumn('job_applications', 'screening_answers', { type: Sequelize.JSON, allowNull: true });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('job_applications', 'screening_answers');
+    await queryInterface.removeColumn('job_postings', 'screening_questions');
+  },
+};
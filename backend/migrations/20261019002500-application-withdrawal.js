@@ -0,0 +1,42 @@
+'use strict';
+
+/**
+ * Application withdrawal: the 'withdrawn' status, job_applications.withdrawn_at
+ * and the unique (job_id, artist_user_id) index – re-applying after a
+ * withdrawal reuses the row.
+ */
+const STATUSES = ['pending', 'viewed', 'shortlisted', 'rejected', 'hired'];
+const INDEX = 'job_applications_job_id_artist_user_id';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.changeColumn('job_applications', 'status', {
+      type: Sequelize.ENUM(...STATUSES, 'withdrawn'),
+      allowNull: false,
+      defaultValue: 'pending',
+    });
+
+    const columns = await queryInterface.describeTable('job_applications');
+    if (!columns.withdrawn_at) {
+      await queryInterface.addColumn('job_applications', 'withdrawn_at', { type: Sequelize.DATE, allowNull: true });
+    }
+
+    // Fails if an artist already has two applications for the same job
+    const indexes = await queryInterface.showIndex('job_applications');
+    const covered = indexes.some((i) =>
+      i.unique && i.fields.map((f) => f.attribute).join(',') === 'job_id,artist_user_id');
+    if (!covered) {
+      await queryInterface.addIndex('job_applications', ['job_id', 'artist_user_id'], { name: INDEX, unique: true });
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('job_applications', 'withdrawn_at');
+    await queryInterface.sequelize.query("UPDATE job_applications SET status = 'pending' WHERE status = 'withdrawn'");
+    await queryInterface.changeColumn('job_applications', 'status', {
+      type: Sequelize.ENUM(...STATUSES),
+      allowNull: false,
+      defaultValue: 'pending',
+    });
+  },
+};
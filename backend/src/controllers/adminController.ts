@@ -8,7 +8,16 @@ import JobPosting from '../models/JobPosting';
 import Review from '../models/Review';
 import ArtistComment from '../models/ArtistComment';
 import Portfolio from '../models/Portfolio';
+import UserReport, { REPORT_STATUSES, ReportStatus } from '../models/UserReport';
+import Chat from '../models/Chat';
+import Message from '../models/Message';
+import MessageAttachment from '../models/MessageAttachment';
 import { CustomRequest } from '../middleware/authMiddleware';
+import { Server } from 'socket.io';
+import { chatRoom } from '../utils/chatAccess';
+import { pushChatEvent, pushUserEvent, disconnectUserSockets } from '../utils/socketHelpers';
+import { revokeAllSessions } from '../utils/authTokens';
+import { serializeMessage, getMessageRecipientIds, deliverNewMessage, tombstoneMessage } from '../utils/messageDelivery';
 
 /*
 |--------------------------------------------------------------------------
@@ -114,6 +123,8 @@ export const deleteUserByAdmin = async (req: Request, res: Response): Promise<vo
             return;
         }
 
+        await revokeAllSessions(user.user_id);
+        disconnectUserSockets((req as CustomRequest).io!, user.user_id);
         await user.destroy();
         res.status(200).json({ message: `User '${user.fullname}' (ID: ${userIdToDelete}) has been deleted.` });
 
@@ -211,6 +222,100 @@ export const getAllArtistComments = async (req: Request, res: Response): Promise
 };
 
 
+/**
+ * @description Admin: Chat messages caught by the spam filters, oldest first.
+ * `hidden` ones are waiting to be released; `flagged` ones were delivered.
+ * Filter with `?status=flagged|hidden` (default: both).
+ * @route GET /api/admin/messages/flagged
+ */
+export const getFlaggedMessages = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const status = req.query.status as string | undefined;
+        if (status && !['flagged', 'hidden'].includes(status)) {
+            res.status(400).json({ message: 'status must be one of: flagged, hidden.' });
+            return;
+        }
+
+        const messages = await Message.findAll({
+            where: { moderation_status: status ? status : ['flagged', 'hidden'], deleted_at: null },
+            include: [
+                { model: User, as: 'messageSender', attributes: ['user_id', 'fullname', 'email', 'user_type'] },
+                { model: User, as: 'messageReceiver', attributes: ['user_id', 'fullname', 'email', 'user_type'] },
+                { model: MessageAttachment, as: 'attachments', attributes: ['attachment_id', 'file_name', 'mime_type', 'size_bytes'] }
+            ],
+            order: [['createdAt', 'ASC']]
+        });
+        res.status(200).json(messages);
+    } catch (error: any) {
+        console.error("Admin Error: Failed to fetch flagged messages.", error);
+        res.status(500).json({ message: "Failed to fetch flagged messages." });
+    }
+};
+
+/**
+ * @description Admin: Resolves a filtered message. `approve` releases a hidden
+ * message to its recipients (or clears a flag); `remove` tombstones the
+ * message for everyone.
+ * @route PUT /api/admin/messages/:messageId/moderation
+ * @body { action: 'approve'|'remove' }
+ */
+export const moderateMessage = async (req: CustomRequest, res: Response): Promise<void> => {
+    try {
+        const messageId = parseInt(req.params.messageId, 10);
+        const { action } = req.body;
+        if (!['approve', 'remove'].includes(action)) {
+            res.status(400).json({ message: "action must be one of: approve, remove." });
+            return;
+        }
+
+        const message = await Message.findByPk(messageId, { include: [{ model: MessageAttachment, as: 'attachments' }] });
+        if (!message) {
+            res.status(404).json({ message: "Message not found." });
+            return;
+        }
+        if (message.deleted_at) {
+            res.status(410).json({ message: "This message has already been deleted." });
+            return;
+        }
+
+        const wasHidden = message.moderation_status === 'hidden';
+        const review = { moderated_by: req.user!.id, moderated_at: new Date() };
+        const recipientIds = await getMessageRecipientIds(message);
+
+        if (action === 'approve') {
+            if (!['flagged', 'hidden'].includes(message.moderation_status)) {
+                res.status(409).json({ message: "This message is not waiting for review." });
+                return;
+            }
+            await message.update({ ...review, moderation_status: 'approved' });
+            const payload = serializeMessage(message);
+            res.status(200).json(payload);
+
+            // Recipients get it now, as if it had just been sent
+            if (wasHidden) {
+                await Chat.update({ updatedAt: new Date() }, { where: { chat_id: message.chat_id } });
+                deliverNewMessage(req.io as Server, req.onlineUsers!, message.chat_id, message.sender_id, recipientIds, payload);
+            }
+            return;
+        }
+
+        await tombstoneMessage(message, { ...review, moderation_status: 'removed' });
+        const payload = serializeMessage(message);
+        res.status(200).json(payload);
+
+        // The sender always learns about it; the rest of the chat only if they had it
+        if (wasHidden) {
+            pushUserEvent(req.io as Server, req.onlineUsers!, message.sender_id, 'message_deleted', payload);
+        } else {
+            pushChatEvent(req.io as Server, req.onlineUsers!, chatRoom(message.chat_id), [message.sender_id, ...recipientIds], 'message_deleted', payload);
+        }
+    } catch (error: any) {
+        console.error(`Admin Error: Failed to moderate message ${req.params.messageId}.`, error);
+        if (!res.headersSent) res.status(500).json({ message: "Failed to moderate message." });
+    }
+};
+
+
 /**
  * @description Admin: Fetches ALL portfolio items.
  * @route GET /api/admin/portfolios
@@ -311,3 +416,70 @@ export const deleteJobPostingByAdmin = async (req: Request, res: Response): Prom
         res.status(500).json({ message: "Failed to delete job posting." });
     }
 };
+
+
+/*
+|--------------------------------------------------------------------------
+| User Reports
+|--------------------------------------------------------------------------
+*/
+
+/**
+ * @description Admin: Fetches user reports, newest first. Filter with `?status=open|reviewed|dismissed`.
+ * @route GET /api/admin/reports
+ */
+export const getAllReports = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const status = req.query.status as ReportStatus | undefined;
+        if (status && !REPORT_STATUSES.includes(status)) {
+            res.status(400).json({ message: `status must be one of: ${REPORT_STATUSES.join(', ')}.` });
+            return;
+        }
+
+        const reports = await UserReport.findAll({
+            where: status ? { status } : {},
+            include: [
+                { model: User, as: 'reporter', attributes: ['user_id', 'fullname', 'email', 'user_type'] },
+                { model: User, as: 'reportedUser', attributes: ['user_id', 'fullname', 'email', 'user_type'] }
+            ],
+            order: [['createdAt', 'DESC']]
+        });
+        res.status(200).json(reports);
+    } catch (error: any) {
+        console.error("Admin Error: Failed to fetch user reports.", error);
+        res.status(500).json({ message: "Failed to fetch reports." });
+    }
+};
+
+/**
+ * @description Admin: Marks a report as reviewed or dismissed, with an optional note.
+ * @route PUT /api/admin/reports/:reportId
+ * @body { status: 'open'|'reviewed'|'dismissed', admin_note?: string }
+ */
+export const updateReportStatus = async (req: CustomRequest, res: Response): Promise<void> => {
+    try {
+        const reportId = parseInt(req.params.reportId, 10);
+        const { status, admin_note } = req.body;
+        if (!REPORT_STATUSES.includes(status)) {
+            res.status(400).json({ message: `status must be one of: ${REPORT_STATUSES.join(', ')}.` });
+            return;
+        }
+
+        const report = await UserReport.findByPk(reportId);
+        if (!report) {
+            res.status(404).json({ message: "Report not found." });
+            return;
+        }
+
+        await report.update({
+            status,
+            admin_note: admin_note !== undefined ? admin_note : report.admin_note,
+            reviewed_by: status === 'open' ? null : req.user!.id,
+            reviewed_at: status === 'open' ? null : new Date(),
+        });
+        res.status(200).json(report);
+    } catch (error: any) {
+        console.error(`Admin Error: Failed to update report ${req.params.reportId}.`, error);
+        res.status(500).json({ message: "Failed to update report." });
+    }
+};
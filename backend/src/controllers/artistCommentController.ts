@@ -6,6 +6,7 @@ import User from '../models/User';
 import Artist from '../models/Artist';
 import { UniqueConstraintError, Sequelize } from 'sequelize';
 import  Employer from '../models/Employer';
+import { isBlockedBetween } from '../utils/blocks';
 
 /**
  * --- UPDATED ---
@@ -39,6 +40,11 @@ export const createArtistComment = async (req: CustomRequest, res: Response): Pr
             return;
         }
 
+        if (await isBlockedBetween(loggedInUserId, profileUserId)) {
+            res.status(403).json({ message: "You cannot comment on this artist's profile." });
+            return;
+        }
+
         const existingComment = await ArtistComment.findOne({
             where: { commenter_user_id: loggedInUserId, profile_user_id: profileUserId }
         });
@@ -9,6 +9,7 @@ import { CustomRequest } from '../middleware/authMiddleware'; // Keep your custo
 import User from '../models/User'; // Keep User import if needed elsewhere
 import { Sequelize } from 'sequelize'; // Keep Sequelize if needed elsewhere
 import JobApplication from '../models/JobApplication';
+import { excludeHiddenUsers } from '../utils/blocks';
 
 // --- REMOVED OLD MULTER CONFIGURATION ---
 // const uploadFolder = process.env.UPLOAD_FOLDER || 'uploads';
@@ -254,10 +255,10 @@ export const deleteArtist = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
-export const getArtistsWithLocation = async (req: Request, res: Response, next: NextFunction) => {
+export const getArtistsWithLocation = async (req: CustomRequest, res: Response, next: NextFunction) => {
   try {
     const artists = await User.findAll({
-      where: { user_type: 'Artist' },
+      where: { user_type: 'Artist', ...(await excludeHiddenUsers(req.user?.id)) }, // blocked users stay off the map
       attributes: [
         'user_id',
         'fullname',
@@ -451,12 +452,15 @@ export const getMyArtistApplications = async (req: CustomRequest, res: Response)
       // The JobApplication model's 'artist_user_id' field stores the User.user_id of the applicant
       const applications = await JobApplication.findAll({
           where: { artist_user_id: artistUserId },
-          attributes: ['job_id'] // We only need the job_ids they applied to
+          attributes: ['job_id', 'status', 'application_date', 'withdrawn_at'],
+          order: [['application_date', 'DESC']]
       });
 
-      const appliedJobIds = applications.map(app => app.job_id);
+      // Withdrawn applications stay in the history, but the artist can apply to those jobs again
+      const appliedJobIds = applications.filter(app => app.status !== 'withdrawn').map(app => app.job_id);
+      const withdrawnJobIds = applications.filter(app => app.status === 'withdrawn').map(app => app.job_id);
 
-      res.status(200).json({ appliedJobIds });
+      res.status(200).json({ appliedJobIds, withdrawnJobIds, applications });
 
   } catch (error: any) {
       console.error("Error fetching artist's job applications:", error);
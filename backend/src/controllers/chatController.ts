@@ -3,12 +3,143 @@ import { Request, Response } from 'express';
 import { Op } from 'sequelize';
 import Chat from '../models/Chat'; // Your NEW Chat model
 import Message from '../models/Message';
+import MessageAttachment from '../models/MessageAttachment';
+import ChatSetting from '../models/ChatSetting';
+import ChatParticipant from '../models/ChatParticipant';
+import MessageReaction from '../models/MessageReaction';
+import MessageTemplate from '../models/MessageTemplate';
+import ScheduledMessage from '../models/ScheduledMessage';
 import User from '../models/User';
 import Artist from '../models/Artist';
 import Employer from '../models/Employer';
 import { CustomRequest } from '../middleware/authMiddleware';
 import { Server } from 'socket.io';             // ⭐  ΝΕΟ import
 import sequelize from '../config/db';   // ← ADD THIS LINE
+import { pushChatEvent, pushUserEvent } from '../utils/socketHelpers';
+import { serializeAttachment, serializeMessage, getMessageRecipientIds, resolveMessageAudience,
+  storeChatMessage, deliverNewMessage, tombstoneMessage } from '../utils/messageDelivery';
+import { runMessageFilters, moderationStatusFor, describeHits, rejectionResponse, visibleMessagesWhere } from '../utils/messageFilter';
+import { chatRoom, canAccessChat, getOtherParticipantIds, userChatsWhere } from '../utils/chatAccess';
+import { isBlockedBetween } from '../utils/blocks';
+import { buildTemplateValues, renderTemplate } from '../utils/messageTemplates';
+import { normalizeEmoji, getReactionSummaries, ReactionSummary } from '../utils/reactions';
+import { extractSearchTerms, toBooleanModeQuery, buildSnippet } from '../utils/search';
+import { parseLimit, parsePositiveInt, encodeCursor, decodeCursor } from '../utils/pagination';
+import { getFileTypeDetails, uploadBuffer, deleteStoredFile, getSignedFileUrl } from '../utils/storage';
+import { buildTranscript, renderTranscriptText, renderTranscriptPdf, TRANSCRIPT_FORMATS, TranscriptFormat } from '../utils/chatTranscript';
+import { UploadApiResponse } from 'cloudinary';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+const ATTACHMENT_URL_TTL_SECONDS = Number(process.env.ATTACHMENT_URL_TTL_SECONDS) || 300;
+
+// Attachment fields that are safe to hand to clients (no storage ids).
+// The file itself is fetched through GET /chats/attachments/:attachment_id.
+const ATTACHMENT_PUBLIC_ATTRIBUTES = ['attachment_id', 'message_id', 'file_name', 'mime_type', 'size_bytes', 'item_type'];
+
+// Senders may correct a message for this long after sending it
+const MESSAGE_EDIT_WINDOW_MINUTES = Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES) || 15;
+
+const MAX_PINNED_CHATS = 5;
+
+// Both participants with their profile picture, for the chat list
+const CHAT_LIST_INCLUDE = [
+  {
+    model: User,
+    as: 'user1',
+    attributes: ['user_id', 'fullname', 'user_type'],
+    include: [
+      { model: Artist, as: 'artistProfile', attributes: ['profile_picture'], required: false },
+      { model: Employer, as: 'employerProfile', attributes: ['profile_picture'], required: false },
+    ],
+  },
+  {
+    model: User,
+    as: 'user2',
+    attributes: ['user_id', 'fullname', 'user_type'],
+    include: [
+      { model: Artist, as: 'artistProfile', attributes: ['profile_picture'], required: false },
+      { model: Employer, as: 'employerProfile', attributes: ['profile_picture'], required: false },
+    ],
+  },
+];
+
+// Position of the last chat of a page in the (updatedAt DESC, chat_id DESC) order
+interface ChatListCursor {
+  updatedAt: string;
+  chat_id: number;
+}
+
+interface ChatSummary {
+  unreadCount: number;
+  lastMessage: { message_id: number; text: string | null; sender_id: number; createdAt: Date; deleted: boolean } | null;
+}
+
+/**
+ * `where` on Message: what `userId` has not read yet. Direct messages carry
+ * their own read_status; group messages (receiver_id NULL) are unread when
+ * they come after the user's last_read_message_id in that group.
+ */
+const unreadForUserWhere = (userId: number) => {
+  const me = sequelize.escape(userId);
+  return {
+    deleted_at: null,
+    moderation_status: { [Op.ne]: 'hidden' },
+    [Op.or]: [
+      { receiver_id: userId, read_status: false },
+      {
+        receiver_id: null,
+        sender_id: { [Op.ne]: userId },
+        [Op.and]: [sequelize.literal(
+          `EXISTS (SELECT 1 FROM chat_participants cp WHERE cp.chat_id = \`Message\`.\`chat_id\`` +
+          ` AND cp.user_id = ${me} AND \`Message\`.\`message_id\` > COALESCE(cp.last_read_message_id, 0))`
+        )],
+      },
+    ],
+  };
+};
+
+// Unread counter + latest message for each chat, in two grouped queries
+// instead of one query per chat.
+const getChatSummaries = async (chatIds: number[], userId: number): Promise<Map<number, ChatSummary>> => {
+  const summaries = new Map<number, ChatSummary>();
+  chatIds.forEach((id) => summaries.set(id, { unreadCount: 0, lastMessage: null }));
+  if (chatIds.length === 0) return summaries;
+
+  const [unreadRows, lastIdRows] = await Promise.all([
+    Message.findAll({
+      attributes: ['chat_id', [sequelize.fn('COUNT', sequelize.col('message_id')), 'unreadCount']],
+      where: { chat_id: chatIds, ...unreadForUserWhere(userId) },
+      group: ['chat_id'],
+      raw: true,
+    }) as unknown as Promise<{ chat_id: number; unreadCount: string | number }[]>,
+    Message.findAll({
+      attributes: ['chat_id', [sequelize.fn('MAX', sequelize.col('message_id')), 'lastMessageId']],
+      where: { chat_id: chatIds, [Op.and]: [visibleMessagesWhere(userId)] },
+      group: ['chat_id'],
+      raw: true,
+    }) as unknown as Promise<{ chat_id: number; lastMessageId: number }[]>,
+  ]);
+
+  unreadRows.forEach((row) => {
+    summaries.get(row.chat_id)!.unreadCount = Number(row.unreadCount);
+  });
+
+  const lastMessages = await Message.findAll({
+    where: { message_id: lastIdRows.map((row) => row.lastMessageId) },
+    attributes: ['message_id', 'chat_id', 'sender_id', 'message', 'deleted_at', 'createdAt'],
+  });
+  lastMessages.forEach((m) => {
+    summaries.get(m.chat_id)!.lastMessage = {
+      message_id: m.message_id,
+      text: m.deleted_at ? null : m.message,
+      sender_id: m.sender_id,
+      createdAt: m.createdAt,
+      deleted: !!m.deleted_at,
+    };
+  });
+
+  return summaries;
+};
 
 /**
  * @description Creates a chat between the logged-in user and a specified receiver.
@@ -26,6 +157,11 @@ export const createChat = async (req: CustomRequest, res: Response): Promise<voi
     }
   
     try {
+      if (await isBlockedBetween(senderId, receiverId)) {
+        res.status(403).json({ message: 'You cannot start a chat with this user.' });
+        return;
+      }
+
       // ✓ id μικρότερο = user1, μεγαλύτερο = user2 (μοναδικό key)
       const [chat] = await Chat.findOrCreate({
         where: {
@@ -49,79 +185,628 @@ export const createChat = async (req: CustomRequest, res: Response): Promise<voi
 
 /**
  * @description Sends a message from the logged-in user to a specific chat.
+ * Instead of `message`, a saved template can be sent: its placeholders are
+ * filled in from the chat's participants and the optional `job_id`.
  * @route POST /api/chats/send
- * @body { chat_id: number, message: string }
+ * @body { chat_id: number, message?: string, template_id?: number, job_id?: number }
  */
 export const sendMessage = async (req: CustomRequest, res: Response) => {
   const senderId                = req.user!.id;                 // we’re in a protected route
-  const { chat_id, message }    = req.body;
+  const { chat_id, message, template_id, job_id } = req.body;
 
   /* ---------- guardrails ---------- */
-  if (!chat_id || !message?.trim()) {
-    return void res.status(400).json({ message: 'chat_id and message required.' });
+  if (!chat_id || (!message?.trim() && !template_id)) {
+    return void res.status(400).json({ message: 'chat_id and message (or template_id) required.' });
+  }
+  const jobId = job_id === undefined || job_id === null ? undefined : Number(job_id);
+  if (jobId !== undefined && (!jobId || isNaN(jobId))) {
+    return void res.status(400).json({ message: 'Invalid job_id.' });
   }
 
-  const trx = await sequelize.transaction();
   try {
-    /* ---------- verify chat & authorship (single SELECT … FOR UPDATE) ---------- */
+    /* ---------- saved quick reply: only the sender's own templates ---------- */
+    const template = template_id
+      ? await MessageTemplate.findOne({ where: { template_id, user_id: senderId }, attributes: ['body'] })
+      : null;
+    if (template_id && !template) {
+      return void res.status(404).json({ message: 'Template not found.' });
+    }
+
+    /* ---------- verify chat & authorship ---------- */
+    // All checks run before the transaction: none of them may wait for a
+    // second pool connection while the chat row is locked.
     const chat = await Chat.findOne({
       where: { chat_id },
-      attributes: ['chat_id', 'user1_id', 'user2_id'],
-      lock: trx.LOCK.UPDATE,              // prevents race conditions with updatedAt
-      transaction: trx,
+      attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id', 'job_id'],
     });
     if (!chat)       return void res.status(404).json({ message: 'Chat not found.' });
-    if (chat.user1_id !== senderId && chat.user2_id !== senderId) {
+    if (!(await canAccessChat(chat, senderId))) {
       return void res.status(403).json({ message: 'Not a participant.' });
     }
 
-    const receiverId = chat.user1_id === senderId ? chat.user2_id : chat.user1_id;
+    const { receiverId, recipientIds, blocked } = await resolveMessageAudience(chat, senderId);
+    if (blocked) {
+      return void res.status(403).json({ message: 'You cannot message this user.' });
+    }
 
-    /* ---------- insert message & touch chat.updatedAt (same connection) ---------- */
-    const newMessage = await Message.create(
-      { chat_id, sender_id: senderId, receiver_id: receiverId, message: message.trim() },
-      { transaction: trx }
-    );
-    await chat.update({ updatedAt: new Date() }, { transaction: trx });
+    /* ---------- render the template with this chat's names ---------- */
+    let text = template ? '' : message.trim();
+    if (template) {
+      const values = await buildTemplateValues(chat, senderId, jobId);
+      if (!values) {
+        return void res.status(404).json({ message: 'Job posting not found.' });
+      }
+      const rendered = renderTemplate(template.body, values);
+      if (rendered.missing.length > 0) {
+        return void res.status(400).json({
+          message: `The template needs values for: ${rendered.missing.join(', ')}.`,
+          missing: rendered.missing,
+        });
+      }
+      text = rendered.text;
+    }
+
+    /* ---------- spam / scam filters ---------- */
+    const filterResult = await runMessageFilters({ senderId, chatId: chat.chat_id, text, skipRateLimit: false });
+    if (filterResult.action === 'reject') {
+      const { status, message: reason } = rejectionResponse(filterResult);
+      return void res.status(status).json({ message: reason });
+    }
 
-    await trx.commit();                       // ✅ done – DB is consistent
+    /* ---------- insert message & touch chat.updatedAt (single SELECT … FOR UPDATE) ---------- */
+    const newMessage = await sequelize.transaction(async (trx) => {
+      const locked = await Chat.findOne({
+        where: { chat_id: chat.chat_id },
+        attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id', 'job_id'],
+        lock: trx.LOCK.UPDATE,            // prevents race conditions with updatedAt
+        transaction: trx,
+      });
+      if (!locked) return null;           // deleted in the meantime
+      return storeChatMessage(locked, senderId, receiverId, text, filterResult, trx);
+    });
+    if (!newMessage) return void res.status(404).json({ message: 'Chat not found.' });
 
     /* ---------- reply to HTTP *immediately* ---------- */
-    res.status(201).json({ data: newMessage });
+    const payload = serializeMessage(newMessage);
+    res.status(201).json({ data: payload });
 
     /* ---------- fire-and-forget realtime broadcast ---------- */
-    process.nextTick(async () => {
-      const io            = req.io as Server;
-      const onlineUsers   = req.onlineUsers;
-      const room          = String(chat.chat_id);
-      const payload       = newMessage.toJSON();
-
-      io.to(room).volatile.emit('new_message', payload);        // .volatile ⇒ no ack wait
-
-      const receiverSocket = onlineUsers?.get(receiverId);
-      if (receiverSocket) {
-        const socketsInRoom = await io.in(room).allSockets();
-        if (!socketsInRoom.has(receiverSocket)) {
-          io.to(receiverSocket).volatile.emit('new_message', payload);
-        }
-      }
-    });
+    if (newMessage.moderation_status !== 'hidden') {
+      deliverNewMessage(req.io as Server, req.onlineUsers!, chat.chat_id, senderId, recipientIds, payload);
+    }
 
   } catch (err) {
-    await trx.rollback();
     console.error('❌  sendMessage failed:', err);
     res.status(500).json({ message: 'Internal server error.' });
   }
 };
 
 
+/**
+ * @description Sends a message carrying one or more files (multipart field
+ * `files`, optional caption in `message`). Files are stored as private
+ * Cloudinary assets; clients receive metadata only.
+ * @route POST /api/chats/:chat_id/attachments
+ */
+export const sendAttachmentMessage = async (req: CustomRequest, res: Response): Promise<void> => {
+  const senderId = req.user?.id;
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  const caption = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+  if (!senderId) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+  if (files.length === 0) {
+    res.status(400).json({ message: 'At least one file of a supported type (image, PDF, video) is required.' });
+    return;
+  }
+
+  const uploaded: { file: Express.Multer.File; result: UploadApiResponse }[] = [];
+  try {
+    const chat = await Chat.findByPk(req.params.chat_id, { attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'] });
+    if (!chat) {
+      res.status(404).json({ message: 'Chat not found.' });
+      return;
+    }
+    if (!(await canAccessChat(chat, senderId))) {
+      res.status(403).json({ message: 'Forbidden: You do not have access to this chat.' });
+      return;
+    }
+    const { receiverId, recipientIds, blocked } = await resolveMessageAudience(chat, senderId);
+    if (blocked) {
+      res.status(403).json({ message: 'You cannot message this user.' });
+      return;
+    }
+
+    const filterResult = await runMessageFilters({ senderId, chatId: chat.chat_id, text: caption, skipRateLimit: false });
+    if (filterResult.action === 'reject') {
+      const { status, message } = rejectionResponse(filterResult);
+      res.status(status).json({ message });
+      return;
+    }
+    const moderationStatus = moderationStatusFor(filterResult);
+
+    // Upload first, outside the transaction – no DB locks held during network I/O
+    for (const file of files) {
+      const { resourceType } = getFileTypeDetails(file.mimetype);
+      const result = await uploadBuffer(file.buffer, {
+        folder: `chat_attachments/${chat.chat_id}`,
+        resource_type: resourceType,
+        type: 'authenticated',
+      });
+      uploaded.push({ file, result });
+    }
+
+    const { newMessage, attachments } = await sequelize.transaction(async (trx) => {
+      const newMessage = await Message.create(
+        {
+          chat_id: chat.chat_id, sender_id: senderId, receiver_id: receiverId, message: caption,
+          moderation_status: moderationStatus, moderation_reasons: describeHits(filterResult.hits),
+        },
+        { transaction: trx }
+      );
+      const attachments = await MessageAttachment.bulkCreate(
+        uploaded.map(({ file, result }) => ({
+          message_id: newMessage.message_id,
+          uploader_id: senderId,
+          file_name: file.originalname,
+          mime_type: file.mimetype,
+          size_bytes: file.size,
+          item_type: getFileTypeDetails(file.mimetype).itemType,
+          public_id: result.public_id,
+          resource_type: result.resource_type as 'image' | 'video' | 'raw',
+          format: result.format ?? null,
+        })),
+        { transaction: trx }
+      );
+      if (moderationStatus !== 'hidden') {
+        await Chat.update({ updatedAt: new Date() }, { where: { chat_id: chat.chat_id }, transaction: trx });
+      }
+      return { newMessage, attachments };
+    });
+
+    const payload = { ...serializeMessage(newMessage), attachments: attachments.map(serializeAttachment) };
+    res.status(201).json({ data: payload });
+
+    if (moderationStatus !== 'hidden') {
+      deliverNewMessage(req.io as Server, req.onlineUsers!, chat.chat_id, senderId, recipientIds, payload);
+    }
+  } catch (error: any) {
+    console.error('❌ Error sending attachment message:', error);
+    // Don't leave orphaned private files behind
+    await Promise.all(uploaded.map(({ result }) =>
+      deleteStoredFile(result.public_id, result.resource_type as 'image' | 'video' | 'raw', 'authenticated')
+        .catch((e) => console.error(`[WARN] Failed to delete orphaned attachment ${result.public_id}:`, e))
+    ));
+    if (error && error.http_code) {
+      res.status(error.http_code).json({ message: error.message || 'Storage error while uploading attachment.' });
+    } else {
+      res.status(500).json({ message: 'Failed to send attachment.' });
+    }
+  }
+};
+
+
+/**
+ * @description Returns a short-lived signed URL for an attachment.
+ * Only the two participants of the attachment's chat may request it.
+ * @route GET /api/chats/attachments/:attachment_id
+ */
+export const getAttachmentUrl = async (req: CustomRequest, res: Response): Promise<void> => {
+  const loggedInUserId = req.user?.id;
+  if (!loggedInUserId) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+
+  try {
+    const attachment = await MessageAttachment.findByPk(req.params.attachment_id, {
+      include: [{
+        model: Message,
+        as: 'message',
+        attributes: ['message_id', 'chat_id', 'sender_id', 'deleted_at', 'moderation_status'],
+        include: [{ model: Chat, as: 'chat', attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'] }],
+      }],
+    });
+    const chat = attachment?.message?.chat;
+    const hiddenFromUser = attachment?.message?.moderation_status === 'hidden' && attachment.message.sender_id !== loggedInUserId;
+    // 404 for outsiders too, so attachment ids can't be probed
+    if (!attachment || !chat || attachment.message.deleted_at || hiddenFromUser || !(await canAccessChat(chat, loggedInUserId))) {
+      res.status(404).json({ message: 'Attachment not found.' });
+      return;
+    }
+
+    const { url, expiresAt } = getSignedFileUrl(
+      attachment.public_id,
+      attachment.resource_type,
+      attachment.format,
+      ATTACHMENT_URL_TTL_SECONDS
+    );
+    res.status(200).json({ ...serializeAttachment(attachment), url, expiresAt });
+  } catch (error) {
+    console.error('❌ Error creating attachment URL:', error);
+    res.status(500).json({ message: 'Failed to get attachment.' });
+  }
+};
+
+
+// Loads a message for its sender, answering 404/403/410 itself when not allowed.
+const findOwnMessage = async (req: CustomRequest, res: Response): Promise<Message | null> => {
+  const message = await Message.findByPk(req.params.message_id, {
+    include: [{ model: MessageAttachment, as: 'attachments' }],
+  });
+  if (!message) {
+    res.status(404).json({ message: 'Message not found.' });
+    return null;
+  }
+  if (message.sender_id !== req.user!.id) {
+    res.status(403).json({ message: 'Forbidden: You can only change your own messages.' });
+    return null;
+  }
+  if (message.deleted_at) {
+    res.status(410).json({ message: 'This message has been deleted.' });
+    return null;
+  }
+  return message;
+};
+
+
+/**
+ * @description Edits the text of one of the sender's messages, within
+ * MESSAGE_EDIT_WINDOW_MINUTES of sending it. Broadcasts `message_updated`.
+ * @route PUT /api/chats/messages/:message_id
+ * @body { message: string }
+ */
+export const editMessage = async (req: CustomRequest, res: Response): Promise<void> => {
+  const text = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+  if (!req.user?.id) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+  if (!text) {
+    res.status(400).json({ message: 'message is required.' });
+    return;
+  }
+
+  try {
+    const message = await findOwnMessage(req, res);
+    if (!message) return;
+
+    const editableUntil = message.createdAt.getTime() + MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+    if (Date.now() > editableUntil) {
+      res.status(403).json({ message: `Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending.` });
+      return;
+    }
+
+    if (message.message !== text) {
+      const filterResult = await runMessageFilters({ senderId: message.sender_id, chatId: message.chat_id, text, skipRateLimit: true });
+      // Others may already have read it, so it can't be hidden any more – refuse instead
+      if (filterResult.action === 'reject' || (filterResult.action === 'hide' && message.moderation_status !== 'hidden')) {
+        res.status(422).json({ message: rejectionResponse(filterResult).message });
+        return;
+      }
+      const flagged = filterResult.action === 'flag' && !['hidden', 'flagged'].includes(message.moderation_status);
+      await message.update({
+        message: text,
+        edited_at: new Date(),
+        ...(flagged ? { moderation_status: 'flagged' as const, moderation_reasons: describeHits(filterResult.hits) } : {}),
+      });
+    }
+
+    const payload = serializeMessage(message);
+    res.status(200).json({ data: payload });
+
+    if (message.moderation_status === 'hidden') return;
+    pushChatEvent(req.io as Server, req.onlineUsers!, chatRoom(message.chat_id), await getMessageRecipientIds(message), 'message_updated', payload);
+  } catch (error) {
+    console.error('❌ Error editing message:', error);
+    res.status(500).json({ message: 'Failed to edit message.' });
+  }
+};
+
+
+/**
+ * @description Unsends one of the sender's messages. The row stays as a
+ * tombstone (deleted_at set, text cleared) and its files are removed.
+ * Broadcasts `message_deleted`.
+ * @route DELETE /api/chats/messages/:message_id
+ */
+export const deleteMessage = async (req: CustomRequest, res: Response): Promise<void> => {
+  if (!req.user?.id) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+
+  try {
+    const message = await findOwnMessage(req, res);
+    if (!message) return;
+
+    await tombstoneMessage(message);
+
+    const payload = serializeMessage(message);
+    res.status(200).json({ data: payload });
+
+    // recipients never saw a hidden message
+    if (message.moderation_status !== 'hidden') {
+      pushChatEvent(req.io as Server, req.onlineUsers!, chatRoom(message.chat_id), await getMessageRecipientIds(message), 'message_deleted', payload);
+    }
+  } catch (error) {
+    console.error('❌ Error deleting message:', error);
+    res.status(500).json({ message: 'Failed to delete message.' });
+  }
+};
+
+
   
 
 
 
+// Loads a message for anyone in its chat, answering 404/410 itself when not allowed.
+const findAccessibleMessage = async (req: CustomRequest, res: Response): Promise<Message | null> => {
+  const message = await Message.findByPk(req.params.message_id, {
+    attributes: ['message_id', 'chat_id', 'sender_id', 'receiver_id', 'deleted_at', 'moderation_status'],
+    include: [{ model: Chat, as: 'chat', attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'] }],
+  });
+  const hiddenFromUser = message?.moderation_status === 'hidden' && message.sender_id !== req.user!.id;
+  // 404 for outsiders too, like attachments
+  if (!message || !message.chat || hiddenFromUser || !(await canAccessChat(message.chat, req.user!.id))) {
+    res.status(404).json({ message: 'Message not found.' });
+    return null;
+  }
+  if (message.deleted_at) {
+    res.status(410).json({ message: 'This message has been deleted.' });
+    return null;
+  }
+  return message;
+};
+
+// Sends the message's new reaction summary to everyone else in the chat.
+const broadcastReactions = async (req: CustomRequest, message: Message, emoji: string | null): Promise<ReactionSummary[]> => {
+  const reactions = (await getReactionSummaries([message.message_id])).get(message.message_id)!;
+  const userId = req.user!.id;
+  pushChatEvent(req.io as Server, req.onlineUsers!, chatRoom(message.chat_id), await getOtherParticipantIds(message.chat!, userId), 'message_reaction', {
+    chat_id: message.chat_id,
+    message_id: message.message_id,
+    user_id: userId,
+    emoji,                       // null when the reaction was removed
+    reactions,
+  });
+  return reactions;
+};
+
+
 /**
- * @description Fetches all chats for the logged-in user.
- * @route GET /api/chats/my-chats
+ * @description Reacts to a message with an emoji, replacing the user's
+ * previous reaction to it. Broadcasts `message_reaction`.
+ * @route POST /api/chats/messages/:message_id/reactions
+ * @body { emoji: string }
+ */
+export const addReaction = async (req: CustomRequest, res: Response): Promise<void> => {
+  const userId = req.user?.id;
+  const emoji = normalizeEmoji(req.body?.emoji);
+  if (!userId) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+  if (!emoji) {
+    res.status(400).json({ message: 'A valid emoji is required.' });
+    return;
+  }
+
+  try {
+    const message = await findAccessibleMessage(req, res);
+    if (!message) return;
+
+    const { blocked } = await resolveMessageAudience(message.chat!, userId);
+    if (blocked) {
+      res.status(403).json({ message: 'You cannot react to messages in this chat.' });
+      return;
+    }
+
+    const [reaction, created] = await MessageReaction.findOrCreate({
+      where: { message_id: message.message_id, user_id: userId },
+      defaults: { message_id: message.message_id, user_id: userId, emoji },
+    });
+    if (!created && reaction.emoji !== emoji) {
+      await reaction.update({ emoji });
+    }
+
+    const reactions = await broadcastReactions(req, message, emoji);
+    res.status(created ? 201 : 200).json({ message_id: message.message_id, reactions });
+  } catch (error) {
+    console.error('❌ Error adding reaction:', error);
+    if (!res.headersSent) res.status(500).json({ message: 'Failed to add reaction.' });
+  }
+};
+
+
+/**
+ * @description Removes the user's reaction from a message.
+ * Broadcasts `message_reaction` with `emoji: null`.
+ * @route DELETE /api/chats/messages/:message_id/reactions
+ */
+export const removeReaction = async (req: CustomRequest, res: Response): Promise<void> => {
+  const userId = req.user?.id;
+  if (!userId) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+
+  try {
+    const message = await findAccessibleMessage(req, res);
+    if (!message) return;
+
+    const removed = await MessageReaction.destroy({ where: { message_id: message.message_id, user_id: userId } });
+    if (!removed) {
+      res.status(404).json({ message: 'You have not reacted to this message.' });
+      return;
+    }
+
+    const reactions = await broadcastReactions(req, message, null);
+    res.status(200).json({ message_id: message.message_id, reactions });
+  } catch (error) {
+    console.error('❌ Error removing reaction:', error);
+    if (!res.headersSent) res.status(500).json({ message: 'Failed to remove reaction.' });
+  }
+};
+
+
+const MAX_SCHEDULE_AHEAD_DAYS = Number(process.env.MAX_SCHEDULE_AHEAD_DAYS) || 30;
+const MAX_PENDING_SCHEDULED_PER_CHAT = 20;
+
+const serializeScheduled = (m: ScheduledMessage) => ({
+  scheduled_id: m.scheduled_id,
+  chat_id: m.chat_id,
+  message: m.message,
+  deliver_at: m.deliver_at,
+  status: m.status,
+  createdAt: m.createdAt,
+});
+
+/**
+ * @description Schedules a text message to be sent to the chat at
+ * `deliver_at` (ISO date, at least a minute ahead and at most
+ * MAX_SCHEDULE_AHEAD_DAYS). It is sent like POST /chats/send at that time.
+ * @route POST /api/chats/:chat_id/scheduled-messages
+ * @body { message: string, deliver_at: string }
+ */
+export const scheduleMessage = async (req: CustomRequest, res: Response): Promise<void> => {
+  const senderId = req.user?.id;
+  const text = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+  const deliverAt = new Date(req.body.deliver_at);
+  if (!senderId) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+  if (!text) {
+    res.status(400).json({ message: 'message is required.' });
+    return;
+  }
+  if (!req.body.deliver_at || isNaN(deliverAt.getTime())) {
+    res.status(400).json({ message: 'deliver_at must be a valid date.' });
+    return;
+  }
+  const now = Date.now();
+  if (deliverAt.getTime() < now + 60 * 1000 || deliverAt.getTime() > now + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    res.status(400).json({ message: `deliver_at must be between one minute and ${MAX_SCHEDULE_AHEAD_DAYS} days from now.` });
+    return;
+  }
+
+  try {
+    const chat = await Chat.findByPk(req.params.chat_id, { attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'] });
+    if (!chat) {
+      res.status(404).json({ message: 'Chat not found.' });
+      return;
+    }
+    if (!(await canAccessChat(chat, senderId))) {
+      res.status(403).json({ message: 'Forbidden: You do not have access to this chat.' });
+      return;
+    }
+    const { blocked } = await resolveMessageAudience(chat, senderId);
+    if (blocked) {
+      res.status(403).json({ message: 'You cannot message this user.' });
+      return;
+    }
+
+    // Content is checked again when it is sent; catch the obvious cases now
+    const filterResult = await runMessageFilters({ senderId, chatId: chat.chat_id, text, skipRateLimit: true });
+    if (filterResult.action === 'reject') {
+      res.status(422).json({ message: rejectionResponse(filterResult).message });
+      return;
+    }
+
+    const pending = await ScheduledMessage.count({ where: { chat_id: chat.chat_id, sender_id: senderId, status: 'pending' } });
+    if (pending >= MAX_PENDING_SCHEDULED_PER_CHAT) {
+      res.status(400).json({ message: `You can have up to ${MAX_PENDING_SCHEDULED_PER_CHAT} scheduled messages per chat.` });
+      return;
+    }
+
+    const scheduled = await ScheduledMessage.create({ chat_id: chat.chat_id, sender_id: senderId, message: text, deliver_at: deliverAt });
+    res.status(201).json({ data: serializeScheduled(scheduled) });
+  } catch (error) {
+    console.error('❌ Error scheduling message:', error);
+    res.status(500).json({ message: 'Failed to schedule message.' });
+  }
+};
+
+
+/**
+ * @description Lists the logged-in user's pending scheduled messages in a
+ * chat, soonest first. Nobody else sees them.
+ * @route GET /api/chats/:chat_id/scheduled-messages
+ */
+export const getScheduledMessages = async (req: CustomRequest, res: Response): Promise<void> => {
+  const userId = req.user?.id;
+  if (!userId) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+
+  try {
+    const chat = await Chat.findByPk(req.params.chat_id, { attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'] });
+    if (!chat) {
+      res.status(404).json({ message: 'Chat not found.' });
+      return;
+    }
+    if (!(await canAccessChat(chat, userId))) {
+      res.status(403).json({ message: 'Forbidden: You do not have access to this chat.' });
+      return;
+    }
+
+    const scheduled = await ScheduledMessage.findAll({
+      where: { chat_id: chat.chat_id, sender_id: userId, status: 'pending' },
+      order: [['deliver_at', 'ASC'], ['scheduled_id', 'ASC']],
+    });
+    res.status(200).json({ scheduled: scheduled.map(serializeScheduled) });
+  } catch (error) {
+    console.error('❌ Error fetching scheduled messages:', error);
+    res.status(500).json({ message: 'Failed to fetch scheduled messages.' });
+  }
+};
+
+
+/**
+ * @description Cancels one of the user's scheduled messages that hasn't been sent yet.
+ * @route DELETE /api/chats/scheduled-messages/:scheduled_id
+ */
+export const cancelScheduledMessage = async (req: CustomRequest, res: Response): Promise<void> => {
+  const userId = req.user?.id;
+  if (!userId) {
+    res.status(401).json({ message: 'Unauthorized.' });
+    return;
+  }
+
+  try {
+    const scheduled = await ScheduledMessage.findOne({ where: { scheduled_id: req.params.scheduled_id, sender_id: userId } });
+    if (!scheduled) {
+      res.status(404).json({ message: 'Scheduled message not found.' });
+      return;
+    }
+
+    // Conditional update: the delivery job may be sending it right now
+    const [cancelled] = await ScheduledMessage.update(
+      { status: 'cancelled' },
+      { where: { scheduled_id: scheduled.scheduled_id, status: 'pending' } }
+    );
+    if (!cancelled) {
+      res.status(409).json({ message: `This message can no longer be cancelled (${scheduled.status === 'pending' ? 'sending' : scheduled.status}).` });
+      return;
+    }
+    res.status(200).json({ message: 'Scheduled message cancelled.', scheduled_id: scheduled.scheduled_id });
+  } catch (error) {
+    console.error('❌ Error cancelling scheduled message:', error);
+    res.status(500).json({ message: 'Failed to cancel scheduled message.' });
+  }
+};
+
+
+/**
+ * @description Fetches the logged-in user's chats, most recently active first.
+ * Paginated with an opaque cursor: pass the `nextCursor` of a page as `cursor`.
+ * Archived chats are left out unless `archived=true`, which lists only them.
+ * In the normal list, pinned chats come first on the first page (on top of
+ * `limit`); the cursor pages through the remaining chats.
+ * @route GET /api/chats/my-chats?cursor=<nextCursor>&limit=50&archived=true
  */
 export const fetchUserChats = async (req: CustomRequest, res: Response): Promise<void> => {
     const loggedInUserId = req.user?.id;
@@ -129,34 +814,80 @@ export const fetchUserChats = async (req: CustomRequest, res: Response): Promise
       res.status(401).json({ message: 'Unauthorized: User not logged in.' });
       return;
     }
+
+    const limit = parseLimit(req.query.limit);
+    if (limit === null) {
+      res.status(400).json({ message: 'limit must be a positive integer.' });
+      return;
+    }
+    let cursor: ChatListCursor | null = null;
+    if (req.query.cursor) {
+      cursor = decodeCursor<ChatListCursor>(String(req.query.cursor));
+      if (!cursor || !cursor.chat_id || isNaN(Date.parse(cursor.updatedAt))) {
+        res.status(400).json({ message: 'Invalid cursor.' });
+        return;
+      }
+    }
+    const showArchived = req.query.archived === 'true';
   
     try {
-      const chats = await Chat.findAll({
+      const settings = await ChatSetting.findAll({
+        where: { user_id: loggedInUserId, [Op.or]: [{ archived: true }, { muted: true }, { pinned: true }] },
+      });
+      const settingsByChat = new Map(settings.map((s) => [s.chat_id, s]));
+      const archivedIds = settings.filter((s) => s.archived).map((s) => s.chat_id);
+      const pinned = settings
+        .filter((s) => s.pinned && !s.archived)
+        .sort((a, b) => (b.pinned_at?.getTime() ?? 0) - (a.pinned_at?.getTime() ?? 0));
+      const pinnedIds = pinned.map((s) => s.chat_id);
+
+      // Which chats the paginated part of the list may contain
+      const listFilter = showArchived
+        ? { chat_id: { [Op.in]: archivedIds } }
+        : { chat_id: { [Op.notIn]: [...archivedIds, ...pinnedIds] } };
+
+      const participantFilter = userChatsWhere(loggedInUserId);
+      const cursorDate = cursor ? new Date(cursor.updatedAt) : null;
+
+      const rows = showArchived && archivedIds.length === 0 ? [] : await Chat.findAll({
         where: {
-          [Op.or]: [{ user1_id: loggedInUserId }, { user2_id: loggedInUserId }],
+          [Op.and]: [
+            participantFilter,
+            listFilter,
+            ...(cursor
+              ? [{
+                  [Op.or]: [
+                    { updatedAt: { [Op.lt]: cursorDate } },
+                    { updatedAt: cursorDate, chat_id: { [Op.lt]: cursor.chat_id } },
+                  ],
+                }]
+              : []),
+          ],
         },
-        include: [
-          {
-            model: User,
-            as: 'user1',
-            attributes: ['user_id', 'fullname', 'user_type'],
-            include: [
-              { model: Artist, as: 'artistProfile', attributes: ['profile_picture'], required: false },
-              { model: Employer, as: 'employerProfile', attributes: ['profile_picture'], required: false },
-            ],
-          },
-          {
-            model: User,
-            as: 'user2',
-            attributes: ['user_id', 'fullname', 'user_type'],
-            include: [
-              { model: Artist, as: 'artistProfile', attributes: ['profile_picture'], required: false },
-              { model: Employer, as: 'employerProfile', attributes: ['profile_picture'], required: false },
-            ],
-          },
-        ],
-        order: [['updatedAt', 'DESC']],
+        include: CHAT_LIST_INCLUDE,
+        order: [['updatedAt', 'DESC'], ['chat_id', 'DESC']],
+        limit: limit + 1,                       // one extra row tells us if there is a next page
       });
+
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      const nextCursor = rows.length > limit && last
+        ? encodeCursor({ updatedAt: last.updatedAt.toISOString(), chat_id: last.chat_id })
+        : null;
+
+      let pinnedChats: Chat[] = [];
+      if (!showArchived && !cursor && pinnedIds.length > 0) {
+        const found = await Chat.findAll({
+          where: { [Op.and]: [participantFilter, { chat_id: { [Op.in]: pinnedIds } }] },
+          include: CHAT_LIST_INCLUDE,
+        });
+        pinnedChats = pinnedIds
+          .map((id) => found.find((c) => c.chat_id === id))
+          .filter((c): c is Chat => !!c);
+      }
+
+      const chats = [...pinnedChats, ...page];
+      const summaries = await getChatSummaries(chats.map((c) => c.chat_id), loggedInUserId);
   
       const formatted = chats.map((c) => {
         const other = c.user1_id === loggedInUserId ? c.user2 : c.user1;
@@ -164,27 +895,114 @@ export const fetchUserChats = async (req: CustomRequest, res: Response): Promise
           other?.user_type === 'Artist'
             ? other.artistProfile?.profile_picture
             : other?.employerProfile?.profile_picture;
+        const setting = settingsByChat.get(c.chat_id);
   
         return {
           chat_id: c.chat_id,
+          chat_type: c.chat_type,
+          title: c.title,                 // group chats
+          job_id: c.job_id,               // group chats
           updatedAt: c.updatedAt,
-          otherUser: other
+          otherUser: c.chat_type === 'direct' && other     // null for group chats
             ? { user_id: other.user_id, fullname: other.fullname, profile_picture: pic ?? null }
             : null,
+          unreadCount: summaries.get(c.chat_id)!.unreadCount,
+          lastMessage: summaries.get(c.chat_id)!.lastMessage,
+          settings: {
+            archived: !!setting?.archived,
+            muted: !!setting?.muted,
+            pinned: !!setting?.pinned,
+          },
         };
       });
   
-      res.status(200).json({ chats: formatted });
+      res.status(200).json({ chats: formatted, nextCursor });
     } catch (error) {
       console.error(`❌ Error fetching chats for user ${loggedInUserId}:`, error);
       res.status(500).json({ message: 'Failed to fetch chats.' });
     }
   };
+
+
+/**
+ * @description Archives / mutes / pins a chat for the logged-in user only.
+ * Send any subset of the flags; the others keep their value.
+ * @route PUT /api/chats/:chat_id/settings
+ * @body { archived?: boolean, muted?: boolean, pinned?: boolean }
+ */
+export const updateChatSettings = async (req: CustomRequest, res: Response): Promise<void> => {
+    const loggedInUserId = req.user?.id;
+    if (!loggedInUserId) {
+      res.status(401).json({ message: 'Unauthorized.' });
+      return;
+    }
+
+    const changes: Partial<Pick<ChatSetting, 'archived' | 'muted' | 'pinned'>> = {};
+    for (const flag of ['archived', 'muted', 'pinned'] as const) {
+      const value = req.body?.[flag];
+      if (value === undefined) continue;
+      if (typeof value !== 'boolean') {
+        res.status(400).json({ message: `${flag} must be a boolean.` });
+        return;
+      }
+      changes[flag] = value;
+    }
+    if (Object.keys(changes).length === 0) {
+      res.status(400).json({ message: 'Send at least one of archived, muted, pinned.' });
+      return;
+    }
+
+    try {
+      const chat = await Chat.findByPk(req.params.chat_id, { attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'] });
+      if (!chat) {
+        res.status(404).json({ message: 'Chat not found.' });
+        return;
+      }
+      if (!(await canAccessChat(chat, loggedInUserId))) {
+        res.status(403).json({ message: 'Forbidden: You do not have access to this chat.' });
+        return;
+      }
+
+      const [setting] = await ChatSetting.findOrCreate({
+        where: { chat_id: chat.chat_id, user_id: loggedInUserId },
+        defaults: { chat_id: chat.chat_id, user_id: loggedInUserId },
+      });
+
+      // Archived chats aren't shown as pinned, so only the others count –
+      // also when a pinned chat is unarchived
+      const showsPinned = (s: { pinned: boolean; archived: boolean }) => s.pinned && !s.archived;
+      const next = { pinned: changes.pinned ?? setting.pinned, archived: changes.archived ?? setting.archived };
+      if (showsPinned(next) && !showsPinned(setting)) {
+        const pinnedCount = await ChatSetting.count({ where: { user_id: loggedInUserId, pinned: true, archived: false } });
+        if (pinnedCount >= MAX_PINNED_CHATS) {
+          res.status(409).json({ message: `You can pin at most ${MAX_PINNED_CHATS} chats.` });
+          return;
+        }
+      }
+
+      await setting.update({
+        ...changes,
+        ...(changes.pinned !== undefined && changes.pinned !== setting.pinned
+          ? { pinned_at: changes.pinned ? new Date() : null }
+          : {}),
+      });
+
+      res.status(200).json({
+        chat_id: chat.chat_id,
+        settings: { archived: setting.archived, muted: setting.muted, pinned: setting.pinned },
+      });
+    } catch (error) {
+      console.error('❌ Error updating chat settings:', error);
+      res.status(500).json({ message: 'Failed to update chat settings.' });
+    }
+  };
   
   
 /**
- * @description Fetches the message history for a specific chat.
- * @route GET /api/chats/:chat_id/messages
+ * @description Fetches one page of a chat's message history, newest page first.
+ * Messages inside a page are in chronological order; pass `nextCursor` as
+ * `before` to load the older page.
+ * @route GET /api/chats/:chat_id/messages?before=<message_id>&limit=50
  */
 export const getChatHistory = async (req: CustomRequest, res: Response): Promise<void> => {
     const { chat_id } = req.params;
@@ -193,6 +1011,13 @@ export const getChatHistory = async (req: CustomRequest, res: Response): Promise
       res.status(401).json({ message: 'Unauthorized.' });
       return;
     }
+
+    const limit = parseLimit(req.query.limit);
+    const before = parsePositiveInt(req.query.before);
+    if (limit === null || before === null) {
+      res.status(400).json({ message: 'before and limit must be positive integers.' });
+      return;
+    }
   
     try {
       const chat = await Chat.findByPk(chat_id);
@@ -200,20 +1025,257 @@ export const getChatHistory = async (req: CustomRequest, res: Response): Promise
         res.status(404).json({ message: 'Chat not found.' });
         return;
       }
-      if (chat.user1_id !== loggedInUserId && chat.user2_id !== loggedInUserId) {
+      if (!(await canAccessChat(chat, loggedInUserId))) {
         res.status(403).json({ message: 'Forbidden: You do not have access to this chat.' });
         return;
       }
   
-      const messages = await Message.findAll({
-        where: { chat_id: chat.chat_id },
-        order: [['createdAt', 'ASC']],
+      // Served by the (chat_id, message_id) index
+      const rows = await Message.findAll({
+        where: {
+          chat_id: chat.chat_id,
+          ...(before ? { message_id: { [Op.lt]: before } } : {}),
+          [Op.and]: [visibleMessagesWhere(loggedInUserId)],
+        },
+        include: [{ model: MessageAttachment, as: 'attachments', attributes: ATTACHMENT_PUBLIC_ATTRIBUTES }],
+        order: [['message_id', 'DESC']],
+        limit: limit + 1,
       });
+
+      const page = rows.slice(0, limit);
+      const nextCursor = rows.length > limit ? page[page.length - 1].message_id : null;
+      const reactions = await getReactionSummaries(page.map((m) => m.message_id));
+      const messages = page.reverse().map((m) => ({ ...serializeMessage(m), reactions: reactions.get(m.message_id) }));
   
-      res.status(200).json({ messages });
+      res.status(200).json({ messages, nextCursor });
     } catch (error) {
       console.error('❌ Error fetching chat history:', error);
       res.status(500).json({ message: 'Failed to fetch chat history.' });
     }
   };
-  
\ No newline at end of file
+  
+
+
+/**
+ * @description Marks the messages the logged-in user received in a chat as read,
+ * up to and including `message_id`, and notifies the other participant.
+ * @route POST /api/chats/:chat_id/read
+ * @body { message_id: number }
+ */
+export const markChatAsRead = async (req: CustomRequest, res: Response): Promise<void> => {
+    const loggedInUserId = req.user?.id;
+    const upToMessageId = Number(req.body.message_id);
+    if (!loggedInUserId) {
+      res.status(401).json({ message: 'Unauthorized.' });
+      return;
+    }
+    if (!upToMessageId || isNaN(upToMessageId)) {
+      res.status(400).json({ message: 'A valid message_id is required.' });
+      return;
+    }
+
+    try {
+      const chat = await Chat.findByPk(req.params.chat_id, { attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'] });
+      if (!chat) {
+        res.status(404).json({ message: 'Chat not found.' });
+        return;
+      }
+      if (!(await canAccessChat(chat, loggedInUserId))) {
+        res.status(403).json({ message: 'Forbidden: You do not have access to this chat.' });
+        return;
+      }
+
+      let updated: number;
+      if (chat.chat_type === 'group') {
+        // Group receipts are a per-member high-water mark; it never moves back
+        [updated] = await ChatParticipant.update(
+          { last_read_message_id: upToMessageId },
+          {
+            where: {
+              chat_id: chat.chat_id,
+              user_id: loggedInUserId,
+              [Op.or]: [{ last_read_message_id: null }, { last_read_message_id: { [Op.lt]: upToMessageId } }],
+            },
+          }
+        );
+      } else {
+        [updated] = await Message.update(
+          { read_status: true },
+          {
+            where: {
+              chat_id: chat.chat_id,
+              receiver_id: loggedInUserId,
+              read_status: false,
+              moderation_status: { [Op.ne]: 'hidden' },
+              message_id: { [Op.lte]: upToMessageId },
+            },
+          }
+        );
+      }
+
+      res.status(200).json({ chat_id: chat.chat_id, up_to_message_id: upToMessageId, updated });
+
+      if (updated > 0) {
+        const otherIds = await getOtherParticipantIds(chat, loggedInUserId);
+        const receipt = {
+          chat_id: chat.chat_id,
+          reader_id: loggedInUserId,
+          up_to_message_id: upToMessageId,
+          read_at: new Date(),
+        };
+        otherIds.forEach((id) => pushUserEvent(req.io as Server, req.onlineUsers!, id, 'messages_read', receipt));
+      }
+    } catch (error) {
+      console.error('❌ Error marking chat as read:', error);
+      res.status(500).json({ message: 'Failed to mark messages as read.' });
+    }
+  };
+
+
+/**
+ * @description Total number of unread messages of the logged-in user (nav badge).
+ * @route GET /api/chats/unread-count
+ */
+export const getUnreadCount = async (req: CustomRequest, res: Response): Promise<void> => {
+    const loggedInUserId = req.user?.id;
+    if (!loggedInUserId) {
+      res.status(401).json({ message: 'Unauthorized.' });
+      return;
+    }
+
+    try {
+      const unreadCount = await Message.count({
+        where: unreadForUserWhere(loggedInUserId),
+      });
+      res.status(200).json({ unreadCount });
+    } catch (error) {
+      console.error('❌ Error counting unread messages:', error);
+      res.status(500).json({ message: 'Failed to count unread messages.' });
+    }
+  };
+
+
+/**
+ * @description Full-text search over the messages of the caller's own chats
+ * (MySQL FULLTEXT, every word must match, words act as prefixes).
+ * Results are ordered by relevance, newest first on ties.
+ * @route GET /api/chats/search?q=<text>&page=1&limit=20
+ */
+export const searchMessages = async (req: CustomRequest, res: Response): Promise<void> => {
+    const loggedInUserId = req.user?.id;
+    if (!loggedInUserId) {
+      res.status(401).json({ message: 'Unauthorized.' });
+      return;
+    }
+
+    const terms = extractSearchTerms(typeof req.query.q === 'string' ? req.query.q : '');
+    const limit = parseLimit(req.query.limit, 20, 50);
+    const pageParam = parsePositiveInt(req.query.page);
+    const page = pageParam === undefined ? 1 : pageParam;
+    if (terms.length === 0) {
+      res.status(400).json({ message: 'A search query (q) is required.' });
+      return;
+    }
+    if (limit === null || page === null) {
+      res.status(400).json({ message: 'page and limit must be positive integers.' });
+      return;
+    }
+
+    try {
+      const match = `MATCH(\`Message\`.\`message\`) AGAINST(${sequelize.escape(toBooleanModeQuery(terms))} IN BOOLEAN MODE)`;
+
+      const rows = await Message.findAll({
+        attributes: ['message_id', 'chat_id', 'sender_id', 'message', 'createdAt', [sequelize.literal(match), 'relevance']],
+        where: {
+          deleted_at: null,
+          [Op.and]: [sequelize.literal(match), visibleMessagesWhere(loggedInUserId)],
+        },
+        include: [{
+          model: Chat,
+          as: 'chat',
+          required: true,
+          attributes: ['chat_id', 'chat_type', 'title', 'user1_id', 'user2_id'],
+          // only chats the caller takes part in
+          where: userChatsWhere(loggedInUserId),
+          include: [
+            { model: User, as: 'user1', attributes: ['user_id', 'fullname', 'user_type'] },
+            { model: User, as: 'user2', attributes: ['user_id', 'fullname', 'user_type'] },
+          ],
+        }],
+        order: [[sequelize.literal('relevance'), 'DESC'], ['message_id', 'DESC']],
+        limit: limit + 1,
+        offset: (page - 1) * limit,
+      });
+
+      const results = rows.slice(0, limit).map((m) => {
+        const chat = m.chat!;
+        const other = chat.user1_id === loggedInUserId ? chat.user2 : chat.user1;
+        return {
+          chat_id: m.chat_id,
+          message_id: m.message_id,
+          sender_id: m.sender_id,
+          createdAt: m.createdAt,
+          snippet: buildSnippet(m.message, terms),
+          chat_type: chat.chat_type,
+          title: chat.title,
+          otherUser: chat.chat_type === 'direct' && other
+            ? { user_id: other.user_id, fullname: other.fullname, user_type: other.user_type }
+            : null,
+        };
+      });
+
+      res.status(200).json({ results, page, limit, hasMore: rows.length > limit });
+    } catch (error) {
+      console.error('❌ Error searching messages:', error);
+      res.status(500).json({ message: 'Failed to search messages.' });
+    }
+  };
+
+
+
+/**
+ * @description Downloads the full transcript of a chat: participants, every
+ * message with its timestamp, edit/unsend markers and attachment references
+ * (names only – the files stay behind GET /chats/attachments/:attachment_id).
+ * Participants and admins only.
+ * @route GET /api/chats/:chat_id/export?format=pdf|txt|json
+ */
+export const exportChat = async (req: CustomRequest, res: Response): Promise<void> => {
+    const loggedInUserId = req.user?.id;
+    if (!loggedInUserId) {
+      res.status(401).json({ message: 'Unauthorized.' });
+      return;
+    }
+
+    const format = (typeof req.query.format === 'string' ? req.query.format : 'json').toLowerCase() as TranscriptFormat;
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      res.status(400).json({ message: `format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}.` });
+      return;
+    }
+
+    try {
+      const chat = await Chat.findByPk(req.params.chat_id);
+      if (!chat) {
+        res.status(404).json({ message: 'Chat not found.' });
+        return;
+      }
+      if (req.user!.user_type !== 'Admin' && !(await canAccessChat(chat, loggedInUserId))) {
+        res.status(403).json({ message: 'Forbidden: You do not have access to this chat.' });
+        return;
+      }
+
+      const transcript = await buildTranscript(chat, loggedInUserId, req.user!.user_type === 'Admin');
+      res.setHeader('Content-Disposition', `attachment; filename="chat-${chat.chat_id}-transcript.${format}"`);
+
+      if (format === 'pdf') {
+        res.type('application/pdf').send(await renderTranscriptPdf(transcript));
+      } else if (format === 'txt') {
+        res.type('text/plain; charset=utf-8').send(renderTranscriptText(transcript));
+      } else {
+        res.status(200).json(transcript);
+      }
+    } catch (error) {
+      console.error('❌ Error exporting chat transcript:', error);
+      if (!res.headersSent) res.status(500).json({ message: 'Failed to export chat.' });
+    }
+  };
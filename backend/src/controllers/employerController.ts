@@ -6,6 +6,7 @@ import Employer from '../models/Employer';
 import { CustomRequest } from '../middleware/authMiddleware';
 import User from '../models/User';
 import { Sequelize } from 'sequelize';
+import { excludeHiddenUsers } from '../utils/blocks';
 import multer from 'multer';                         // <<< Kept old import
 import path from 'path';                           // <<< Kept old import
 
@@ -252,11 +253,11 @@ export const deleteEmployer = async (req: Request, res: Response, next: NextFunc
 };
 
 // Get all employers with their location
-export const getEmployersWithLocation = async (req: Request, res: Response, next: NextFunction) => {
+export const getEmployersWithLocation = async (req: CustomRequest, res: Response, next: NextFunction) => {
   // This function remains the same, will include Cloudinary URL via the JOIN
   try {
     const employers = await User.findAll({
-      where: { user_type: 'Employer' },
+      where: { user_type: 'Employer', ...(await excludeHiddenUsers(req.user?.id)) }, // blocked users stay off the map
        attributes: [ 'user_id', 'fullname',
         [Sequelize.fn('ST_X', Sequelize.col('location')), 'longitude'],
         [Sequelize.fn('ST_Y', Sequelize.col('location')), 'latitude'], ],
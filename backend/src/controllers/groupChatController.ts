@@ -0,0 +1,313 @@
+// src/controllers/groupChatController.ts
+import { Response } from 'express';
+import { Server } from 'socket.io';
+import { UniqueConstraintError } from 'sequelize';
+import { CustomRequest } from '../middleware/authMiddleware';
+import sequelize from '../config/db';
+import Chat from '../models/Chat';
+import ChatParticipant from '../models/ChatParticipant';
+import User from '../models/User';
+import Employer from '../models/Employer';
+import JobPosting from '../models/JobPosting';
+import JobApplication from '../models/JobApplication';
+import { chatRoom, getOtherParticipantIds } from '../utils/chatAccess';
+import { pushChatEvent, pushUserEvent } from '../utils/socketHelpers';
+import { isBlockedBetween } from '../utils/blocks';
+
+/*
+|--------------------------------------------------------------------------
+| Helpers
+|--------------------------------------------------------------------------
+*/
+
+// Loads a group chat, answering 404 itself when it doesn't exist.
+const findGroupChat = async (chatId: string, res: Response): Promise<Chat | null> => {
+    const chat = await Chat.findByPk(chatId);
+    if (!chat || chat.chat_type !== 'group') {
+        res.status(404).json({ message: 'Group chat not found.' });
+        return null;
+    }
+    return chat;
+};
+
+// User ids of the artists hired for a job.
+const getHiredArtistIds = async (jobId: number): Promise<number[]> => {
+    const hired = await JobApplication.findAll({
+        where: { job_id: jobId, status: 'hired' },
+        attributes: ['artist_user_id'],
+    });
+    return hired.map((a) => a.artist_user_id);
+};
+
+// Tells the group (room + every member's sockets) that its membership changed.
+const broadcastMembershipChange = async (
+    req: CustomRequest,
+    chat: Chat,
+    event: 'chat_participant_joined' | 'chat_participant_left',
+    userId: number
+): Promise<void> => {
+    const memberIds = await getOtherParticipantIds(chat, userId);
+    pushChatEvent(req.io as Server, req.onlineUsers!, chatRoom(chat.chat_id), memberIds, event, {
+        chat_id: chat.chat_id,
+        user_id: userId,
+    });
+};
+
+/*
+|--------------------------------------------------------------------------
+| Endpoints
+|--------------------------------------------------------------------------
+*/
+
+/**
+ * @description Employer: creates the group chat of one of their job postings,
+ * with themselves as owner and every applicant whose status is `hired` as a
+ * member. One group chat per job posting.
+ * @route POST /api/job-postings/:jobId/group-chat
+ * @body { title?: string }
+ */
+export const createJobGroupChat = async (req: CustomRequest, res: Response): Promise<void> => {
+    const ownerId = req.user?.id;
+    const jobId = Number(req.params.jobId);
+    if (!ownerId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+    if (!jobId || isNaN(jobId)) {
+        res.status(400).json({ message: 'Invalid job ID.' });
+        return;
+    }
+
+    try {
+        const [jobPosting, employer] = await Promise.all([
+            JobPosting.findByPk(jobId, { attributes: ['job_id', 'employer_id', 'title'] }),
+            Employer.findOne({ where: { user_id: ownerId }, attributes: ['employer_id'] }),
+        ]);
+        if (!jobPosting) {
+            res.status(404).json({ message: 'Job posting not found.' });
+            return;
+        }
+        if (!employer || jobPosting.employer_id !== employer.employer_id) {
+            res.status(403).json({ message: 'Forbidden: You can only create group chats for your own job postings.' });
+            return;
+        }
+
+        const existing = await Chat.findOne({ where: { job_id: jobId, chat_type: 'group' }, attributes: ['chat_id'] });
+        if (existing) {
+            res.status(409).json({ message: 'This job posting already has a group chat.', chat_id: existing.chat_id });
+            return;
+        }
+
+        const memberIds = await getHiredArtistIds(jobId);
+        if (memberIds.length === 0) {
+            res.status(400).json({ message: 'No applicant has been hired for this job posting yet.' });
+            return;
+        }
+
+        const title = typeof req.body?.title === 'string' && req.body.title.trim()
+            ? req.body.title.trim().slice(0, 255)
+            : jobPosting.title;
+
+        const chat = await sequelize.transaction(async (trx) => {
+            const chat = await Chat.create(
+                { chat_type: 'group', title, owner_id: ownerId, job_id: jobId },
+                { transaction: trx }
+            );
+            await ChatParticipant.bulkCreate(
+                [
+                    { chat_id: chat.chat_id, user_id: ownerId, role: 'owner' as const },
+                    ...memberIds.map((id) => ({ chat_id: chat.chat_id, user_id: id, role: 'member' as const })),
+                ],
+                { transaction: trx }
+            );
+            return chat;
+        });
+
+        res.status(201).json({ message: 'Group chat created.', chat, participant_ids: [ownerId, ...memberIds] });
+
+        memberIds.forEach((id) =>
+            pushUserEvent(req.io as Server, req.onlineUsers!, id, 'group_chat_added', { chat_id: chat.chat_id, title })
+        );
+    } catch (error) {
+        if (error instanceof UniqueConstraintError) {
+            // Created by a concurrent request since the check above
+            const existing = await Chat.findOne({ where: { job_id: jobId, chat_type: 'group' }, attributes: ['chat_id'] })
+                .catch(() => null);
+            if (existing) {
+                res.status(409).json({ message: 'This job posting already has a group chat.', chat_id: existing.chat_id });
+                return;
+            }
+        }
+        console.error('❌ Error creating job group chat:', error);
+        res.status(500).json({ message: 'Failed to create group chat.' });
+    }
+};
+
+/**
+ * @description Lists the members of a group chat (members only).
+ * @route GET /api/chats/:chat_id/participants
+ */
+export const getGroupParticipants = async (req: CustomRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        const chat = await findGroupChat(req.params.chat_id, res);
+        if (!chat) return;
+
+        const participants = await ChatParticipant.findAll({
+            where: { chat_id: chat.chat_id },
+            include: [{ model: User, as: 'user', attributes: ['user_id', 'fullname', 'user_type'] }],
+            order: [['role', 'DESC'], ['createdAt', 'ASC']],   // owner first
+        });
+        if (!participants.some((p) => p.user_id === userId)) {
+            res.status(403).json({ message: 'Forbidden: You are not a member of this chat.' });
+            return;
+        }
+
+        res.status(200).json({
+            chat_id: chat.chat_id,
+            participants: participants.map((p) => ({
+                user_id: p.user_id,
+                role: p.role,
+                joined_at: p.createdAt,
+                user: p.user ?? null,
+            })),
+        });
+    } catch (error) {
+        console.error('❌ Error fetching group participants:', error);
+        res.status(500).json({ message: 'Failed to fetch participants.' });
+    }
+};
+
+/**
+ * @description Owner: adds a user to the group chat.
+ * @route POST /api/chats/:chat_id/participants
+ * @body { user_id: number }
+ */
+export const addGroupParticipant = async (req: CustomRequest, res: Response): Promise<void> => {
+    const ownerId = req.user?.id;
+    const newUserId = Number(req.body?.user_id);
+    if (!ownerId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+    if (!newUserId || isNaN(newUserId)) {
+        res.status(400).json({ message: 'A valid user_id is required.' });
+        return;
+    }
+
+    try {
+        const chat = await findGroupChat(req.params.chat_id, res);
+        if (!chat) return;
+        if (chat.owner_id !== ownerId) {
+            res.status(403).json({ message: 'Forbidden: Only the owner can add members.' });
+            return;
+        }
+
+        const user = await User.findByPk(newUserId, { attributes: ['user_id'] });
+        if (!user) {
+            res.status(404).json({ message: 'User not found.' });
+            return;
+        }
+        if (await isBlockedBetween(ownerId, newUserId)) {
+            res.status(403).json({ message: 'You cannot add this user.' });
+            return;
+        }
+
+        const [, created] = await ChatParticipant.findOrCreate({
+            where: { chat_id: chat.chat_id, user_id: newUserId },
+            defaults: { chat_id: chat.chat_id, user_id: newUserId, role: 'member' },
+        });
+        if (!created) {
+            res.status(409).json({ message: 'User is already a member of this chat.' });
+            return;
+        }
+
+        res.status(201).json({ message: 'Member added.', chat_id: chat.chat_id, user_id: newUserId });
+
+        pushUserEvent(req.io as Server, req.onlineUsers!, newUserId, 'group_chat_added', { chat_id: chat.chat_id, title: chat.title });
+        await broadcastMembershipChange(req, chat, 'chat_participant_joined', newUserId);
+    } catch (error) {
+        console.error('❌ Error adding group participant:', error);
+        if (!res.headersSent) res.status(500).json({ message: 'Failed to add member.' });
+    }
+};
+
+/**
+ * @description Joins (or re-joins) the group chat of a job posting. Open to the
+ * artists hired for that job; everyone else has to be added by the owner.
+ * @route POST /api/chats/:chat_id/join
+ */
+export const joinGroupChat = async (req: CustomRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        const chat = await findGroupChat(req.params.chat_id, res);
+        if (!chat) return;
+
+        const hiredIds = chat.job_id ? await getHiredArtistIds(chat.job_id) : [];
+        if (!hiredIds.includes(userId)) {
+            res.status(403).json({ message: 'Forbidden: Only artists hired for this job can join.' });
+            return;
+        }
+
+        const [, created] = await ChatParticipant.findOrCreate({
+            where: { chat_id: chat.chat_id, user_id: userId },
+            defaults: { chat_id: chat.chat_id, user_id: userId, role: 'member' },
+        });
+
+        res.status(created ? 201 : 200).json({
+            message: created ? 'Joined the chat.' : 'You are already a member of this chat.',
+            chat_id: chat.chat_id,
+        });
+
+        if (created) await broadcastMembershipChange(req, chat, 'chat_participant_joined', userId);
+    } catch (error) {
+        console.error('❌ Error joining group chat:', error);
+        if (!res.headersSent) res.status(500).json({ message: 'Failed to join chat.' });
+    }
+};
+
+/**
+ * @description Leaves a group chat. The owner cannot leave their own group.
+ * @route POST /api/chats/:chat_id/leave
+ */
+export const leaveGroupChat = async (req: CustomRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        const chat = await findGroupChat(req.params.chat_id, res);
+        if (!chat) return;
+        if (chat.owner_id === userId) {
+            res.status(400).json({ message: 'The owner cannot leave the group chat.' });
+            return;
+        }
+
+        const removed = await ChatParticipant.destroy({ where: { chat_id: chat.chat_id, user_id: userId } });
+        if (!removed) {
+            res.status(404).json({ message: 'You are not a member of this chat.' });
+            return;
+        }
+
+        res.status(200).json({ message: 'Left the chat.', chat_id: chat.chat_id });
+
+        // Their open sockets stop receiving the room's events
+        (req.io as Server).in(`user-${userId}`).socketsLeave(chatRoom(chat.chat_id));
+        await broadcastMembershipChange(req, chat, 'chat_participant_left', userId);
+    } catch (error) {
+        console.error('❌ Error leaving group chat:', error);
+        if (!res.headersSent) res.status(500).json({ message: 'Failed to leave chat.' });
+    }
+};
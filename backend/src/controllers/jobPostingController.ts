@@ -1,17 +1,47 @@
 // src/controllers/jobPosting.controller.ts
 import { Response, NextFunction } from 'express';
 import { CustomRequest } from '../middleware/authMiddleware';
-import JobPosting from '../models/JobPosting';
+import JobPosting, { JobPostingAttributes } from '../models/JobPosting';
 import User from '../models/User';
 import Employer from '../models/Employer';
 import Notification from '../models/Notification';
 import JobApplication from '../models/JobApplication';
-import { UniqueConstraintError, Sequelize } from 'sequelize'; // The main Sequelize object
+import { UniqueConstraintError, Sequelize, Op } from 'sequelize'; // The main Sequelize object
 import Category from '../models/Category'; // <-- 1. IMPORT THE NEW CATEGORY MODEL
 import { pushNotification } from '../utils/socketHelpers';          // ⭐
+import { parseJobSearchQuery, buildJobSearchWhere, buildJobSearchOrder } from '../utils/jobSearch';
+import Artist from '../models/Artist';
+import Portfolio from '../models/Portfolio';
+import { APPLICATION_STATUSES, ApplicationStatus, JobApplicationAttributes } from '../models/JobApplication';
+import {
+  APPLICATION_TRANSITIONS,
+  MANUAL_APPLICATION_STATUSES,
+  WITHDRAWABLE_APPLICATION_STATUSES,
+  canTransition,
+  isAcceptingApplications,
+  notifyApplicationStatusChange,
+} from '../utils/applicationWorkflow';
+import { parseApplicationForm } from '../utils/applicationForm';
+import { uploadBuffer, deleteStoredFile } from '../utils/storage';
+import { parseScreeningQuestions, publicScreeningQuestions, evaluateScreeningAnswers } from '../utils/screeningQuestions';
 
 
 
+// Plain job posting JSON, with its employer when that was included
+type JobPostingJSON = JobPostingAttributes & { employer?: Partial<Employer> | null };
+
+// Plain application JSON with the included posting and applicant
+type JobApplicationJSON = JobApplicationAttributes & Pick<JobApplication, 'jobPostingDetails' | 'applyingArtistDetails'>;
+
+/**
+ * Job posting JSON for `userId`: the screening questions keep their knock-out
+ * answers only for the employer who owns the posting.
+ */
+const withPublicScreening = <T extends JobPostingJSON>(job: T | null | undefined, userId: number | undefined) => {
+  if (!job || job.employer?.user_id === userId) return job;
+  return { ...job, screening_questions: publicScreeningQuestions(job.screening_questions) };
+};
+
 /**
  * @description Fetches all job applications submitted by the currently logged-in artist.
  * @route GET /api/my-applications
@@ -61,6 +91,7 @@ export const getMyApplications = async (req: CustomRequest, res: Response, next:
           return;
       }
       
+      const portfolioItems = await getApplicationPortfolioItems(applications);
       const reshapedApplications = applications.map(app => {
         const appJSON = app.toJSON();
 
@@ -69,8 +100,9 @@ export const getMyApplications = async (req: CustomRequest, res: Response, next:
         // on this object at runtime, even if it's not in the base model interface.
         return {
           ...appJSON,
-          jobPosting: (appJSON as any).jobPostingDetails, // <-- Corrected Line
+          jobPosting: withPublicScreening((appJSON as any).jobPostingDetails, loggedInUserId), // <-- Corrected Line
           jobPostingDetails: undefined, 
+          portfolio_items: portfolioItems.get(app.application_id) ?? [],
         };
         // --- END OF FIX ---
       });
@@ -144,6 +176,12 @@ export const createJobPosting = async (req: CustomRequest, res: Response, next:
           return;
       }
 
+      const screening = parseScreeningQuestions(req.body.screening_questions);
+      if ('error' in screening) {
+          res.status(400).json({ message: screening.error });
+          return;
+      }
+
       const [categoryRecord] = await Category.findOrCreate({
           where: { name: category.trim() },
           defaults: { name: category.trim() },
@@ -179,6 +217,7 @@ export const createJobPosting = async (req: CustomRequest, res: Response, next:
           insurance: insurance !== undefined ? insurance : null,
           desired_keywords,
           requirements,
+          screening_questions: screening.value,
       });
 
       res.status(201).json({ message: "Job posting created successfully!", jobPosting: newJobPosting });
@@ -190,9 +229,23 @@ export const createJobPosting = async (req: CustomRequest, res: Response, next:
 };
 
 
+/**
+ * @description Searches job postings: filters, keyword search, sorting and
+ * pagination (parameters documented in utils/jobSearch.ts). The applied
+ * filters and sort are echoed back next to the pagination totals.
+ * @route GET /api/job-postings?category&presence&pay_basis&min_pay&max_pay&insurance&start_from&start_to&deadline_from&deadline_to&q&sort&page&limit
+ */
 export const getAllJobPostings = async (req: CustomRequest, res: Response, next: NextFunction) => {
+  const parsed = parseJobSearchQuery(req.query);
+  if ('error' in parsed) {
+      res.status(400).json({ message: parsed.error });
+      return;
+  }
+  const { filters, sort, page, limit } = parsed.value;
+
   try {
-      const jobPostings = await JobPosting.findAll({
+      const { rows: jobPostings, count: total } = await JobPosting.findAndCountAll({
+          where: buildJobSearchWhere(filters),
           include: [
               {
                   model: Employer,
@@ -205,12 +258,24 @@ export const getAllJobPostings = async (req: CustomRequest, res: Response, next:
                   }],
               },
           ],
-          // --- THIS IS THE CORRECTED ORDER CLAUSE ---
-          // Use the actual database column name (snake_case)
-          order: [[Sequelize.col('JobPosting.created_at'), 'DESC']]
+          order: buildJobSearchOrder(sort, filters.pay_basis),
+          limit,
+          offset: (page - 1) * limit,
+          distinct: true,
+      });
+
+      res.status(200).json({
+          jobPostings: jobPostings.map((job) => withPublicScreening(job.toJSON(), req.user?.id)),
+          pagination: {
+              page,
+              limit,
+              total,
+              totalPages: Math.ceil(total / limit),
+              hasMore: page * limit < total,
+          },
+          filters,
+          sort,
       });
-      
-      res.status(200).json(jobPostings);
   } catch (error) {
       console.error('Error fetching job postings:', error);
       next(error);
@@ -261,7 +326,7 @@ export const getJobPostingById = async (
 
     // --- STEP 2: Reshape the data to match the frontend's expectation ---
     // Convert the Sequelize instance to a plain JavaScript object
-    const jobData = jobPosting.toJSON();
+    const jobData = withPublicScreening(jobPosting.toJSON<JobPostingJSON>(), req.user?.id);
 
     // If the employer and user exist, manually move the profile picture
     // so the final object has the shape: job.employer.user.profile_picture
@@ -308,9 +373,21 @@ export const updateJobPosting = async (req: CustomRequest, res: Response, next:
           payment_is_monthly, 
           payment_monthly_amount, 
           number_of_months,
+          screening_questions,
           ...restOfBody
       } = req.body;
 
+      // Only replaced when sent; null or [] removes them
+      let screeningUpdate = {};
+      if (screening_questions !== undefined) {
+          const screening = parseScreeningQuestions(screening_questions);
+          if ('error' in screening) {
+              res.status(400).json({ message: screening.error });
+              return;
+          }
+          screeningUpdate = { screening_questions: screening.value };
+      }
+
       let finalTotalPayment = 0;
       if (payment_is_monthly) {
           if (!payment_monthly_amount || !number_of_months || payment_monthly_amount <= 0 || number_of_months <= 0) {
@@ -328,6 +405,7 @@ export const updateJobPosting = async (req: CustomRequest, res: Response, next:
       
       const updatedData = {
           ...restOfBody,
+          ...screeningUpdate,
           payment_total: finalTotalPayment,
           payment_is_monthly: !!payment_is_monthly,
           payment_monthly_amount: payment_is_monthly ? payment_monthly_amount : null,
@@ -404,7 +482,7 @@ export const getJobPostingsByEmployerId = async (
       ],
     });
 
-    res.json(jobPostings);
+    res.json(jobPostings.map((job) => withPublicScreening(job.toJSON(), req.user?.id)));
   } catch (error) {
     console.error('Error fetching job postings by employer ID:', error);
     next(error);
@@ -435,10 +513,22 @@ export const applyToJob = async (
       return;
     }
 
+    /* ---------- cover letter, rate, availability, portfolio, CV ---------- */
+    const form = parseApplicationForm(req.body ?? {});
+    if ('error' in form) {
+      res.status(400).json({ message: form.error });
+      return;
+    }
+    if (req.file && req.file.mimetype !== 'application/pdf') {
+      res.status(400).json({ message: 'The CV must be a PDF file.' });
+      return;
+    }
+
     /* ---------- fetch base records ---------- */
-    const [artistUser, jobPosting] = await Promise.all([
+    const [artistUser, jobPosting, artist] = await Promise.all([
       User.findByPk(loggedInUserId, { attributes: ['fullname'] }),
       JobPosting.findByPk(jobId),
+      Artist.findOne({ where: { user_id: loggedInUserId }, attributes: ['artist_id'] }),
     ]);
     if (!artistUser) {
       res.status(404).json({ message: 'Artist not found.' });
@@ -449,21 +539,73 @@ export const applyToJob = async (
       return;
     }
 
-    /* ---------- duplicate application? ---------- */
+    /* ---------- screening questions ---------- */
+    const screening = evaluateScreeningAnswers(jobPosting.screening_questions, req.body?.screening_answers);
+    if ('error' in screening) {
+      res.status(400).json({ message: screening.error });
+      return;
+    }
+    const { answers: screeningAnswers, knockedOut } = screening.value;
+
+    /* ---------- duplicate application? (a withdrawn one is reused) ---------- */
     const dup = await JobApplication.findOne({
       where: { job_id: jobId, artist_user_id: loggedInUserId }
     });
-    if (dup) {
+    if (dup && dup.status !== 'withdrawn') {
       res.status(409).json({ message: 'Already applied.' });
       return;
     }
+    if (dup && !isAcceptingApplications(jobPosting)) {
+      res.status(409).json({ message: 'This job is no longer accepting applications.' });
+      return;
+    }
+
+    /* ---------- only the artist's own portfolio items ---------- */
+    const itemIds = form.value.portfolio_item_ids ?? [];
+    if (itemIds.length > 0) {
+      const owned = artist
+        ? await Portfolio.count({ where: { portfolio_id: itemIds, artist_id: artist.artist_id } })
+        : 0;
+      if (owned !== itemIds.length) {
+        res.status(400).json({ message: 'You can only attach items from your own portfolio.' });
+        return;
+      }
+    }
+
+    /* ---------- CV just for this application ---------- */
+    let cv: { url: string; publicId: string } | null = null;
+    if (req.file) {
+      const uploaded = await uploadBuffer(req.file.buffer, { folder: 'application_cvs', resource_type: 'raw', type: 'upload' });
+      cv = { url: uploaded.secure_url, publicId: uploaded.public_id };
+    }
 
     /* ---------- create application ---------- */
-    const newApplication = await JobApplication.create({
-      job_id         : jobId,
-      artist_user_id : loggedInUserId,
+    const applicationFields = {
       application_date: new Date(),
-    });
+      ...form.value,
+      cv_url         : cv?.url ?? null,
+      cv_public_id   : cv?.publicId ?? null,
+      screening_answers: screeningAnswers,
+      status         : knockedOut ? 'rejected' as const : 'pending' as const,   // a knock-out answer rejects right away
+      withdrawn_at   : null,
+    };
+    const previousCvId = dup?.cv_public_id ?? null;
+    let newApplication: JobApplication;
+    try {
+      newApplication = dup
+        ? await dup.update(applicationFields)               // re-applying replaces the withdrawn application
+        : await JobApplication.create({ job_id: jobId, artist_user_id: loggedInUserId, ...applicationFields });
+    } catch (createError) {
+      if (cv) {
+        deleteStoredFile(cv.publicId, 'raw')
+          .catch((e) => console.error(`[WARN] Failed to delete application CV ${cv!.publicId}:`, e));
+      }
+      throw createError;
+    }
+    if (previousCvId) {
+      deleteStoredFile(previousCvId, 'raw')
+        .catch((e) => console.error(`[WARN] Failed to delete application CV ${previousCvId}:`, e));
+    }
 
     /* ---------- notification to employer ---------- */
     const employer = await Employer.findByPk(jobPosting.employer_id, {
@@ -491,9 +633,15 @@ export const applyToJob = async (
     /* ---------- live push στον εργοδότη ---------- */
     pushNotification(req.io!, req.onlineUsers!, employer.user.user_id, notif.toJSON());
 
+    if (knockedOut) {
+      await notifyApplicationStatusChange(req.io!, req.onlineUsers!, newApplication, employer.user.user_id, jobPosting.title);
+    }
+
     /* ---------- response ---------- */
     res.status(201).json({
-      message     : 'Application successful! Employer notified.',
+      message     : knockedOut
+        ? 'Application submitted, but it does not meet the requirements of this job.'
+        : 'Application successful! Employer notified.',
       application : newApplication,
     });
   } catch (err) {
@@ -507,3 +655,387 @@ export const applyToJob = async (
   }
 };
 
+/* -------------------------------------------------------------------------- */
+/*  Employer side of the applications                                         */
+/* -------------------------------------------------------------------------- */
+
+const PORTFOLIO_PREVIEW_SIZE = 3;
+
+const applicantInclude = {
+  model: User,
+  as: 'applyingArtistDetails',
+  attributes: ['user_id', 'fullname', 'username'],
+  include: [{
+    model: Artist,
+    as: 'artistProfile',
+    attributes: ['artist_id', 'bio', 'profile_picture', 'is_student', 'cv_url'],
+  }],
+};
+
+/**
+ * Latest portfolio items of each artist, keyed by artist_id. The items are
+ * ranked per artist in SQL (a window function, MySQL 8+), so large portfolios
+ * aren't loaded in full.
+ */
+const getPortfolioPreviews = async (artistIds: number[]): Promise<Map<number, Portfolio[]>> => {
+  const previews = new Map<number, Portfolio[]>();
+  if (artistIds.length === 0) return previews;
+
+  const latest = Sequelize.literal(`(
+    SELECT ranked.portfolio_id FROM (
+      SELECT portfolio_id,
+             ROW_NUMBER() OVER (PARTITION BY artist_id ORDER BY created_at DESC, portfolio_id DESC) AS row_num
+      FROM artist_portfolios
+      WHERE artist_id IN (${artistIds.map(Number).join(', ')})
+    ) AS ranked
+    WHERE ranked.row_num <= ${PORTFOLIO_PREVIEW_SIZE}
+  )`);
+
+  const items = await Portfolio.findAll({
+    where: { portfolio_id: { [Op.in]: latest } },
+    attributes: ['portfolio_id', 'artist_id', 'image_url', 'description', 'item_type'],
+    order: [['created_at', 'DESC'], ['portfolio_id', 'DESC']],
+  });
+  items.forEach((item) => {
+    previews.set(item.artist_id, [...(previews.get(item.artist_id) ?? []), item]);
+  });
+  return previews;
+};
+
+/**
+ * The portfolio items attached to each application, keyed by application_id,
+ * in the order the artist picked them. Items deleted since are left out.
+ */
+const getApplicationPortfolioItems = async (applications: JobApplication[]): Promise<Map<number, Portfolio[]>> => {
+  const byApplication = new Map<number, Portfolio[]>();
+  const ids = Array.from(new Set(applications.flatMap((a) => a.portfolio_item_ids ?? [])));
+  if (ids.length === 0) return byApplication;
+
+  const items = await Portfolio.findAll({
+    where: { portfolio_id: ids },
+    attributes: ['portfolio_id', 'artist_id', 'image_url', 'description', 'item_type'],
+  });
+  const byId = new Map(items.map((item) => [item.portfolio_id, item]));
+  applications.forEach((a) => {
+    byApplication.set(a.application_id, (a.portfolio_item_ids ?? []).map((id) => byId.get(id)).filter(Boolean));
+  });
+  return byApplication;
+};
+
+/**
+ * Flattens the applicant into `artist` (profile, CV link, portfolio preview).
+ * `cv_url` is the CV sent with the application, else the one on the profile.
+ */
+const shapeApplication = (
+  application: JobApplication,
+  previews: Map<number, Portfolio[]>,
+  portfolioItems: Map<number, Portfolio[]>
+) => {
+  const { applyingArtistDetails, jobPostingDetails, cv_public_id, ...appJSON } = application.toJSON<JobApplicationJSON>();
+  const profile = applyingArtistDetails?.artistProfile;
+  return {
+    ...appJSON,
+    cv_url         : appJSON.cv_url ?? profile?.cv_url ?? null,
+    custom_cv      : Boolean(appJSON.cv_url),
+    portfolio_items: portfolioItems.get(application.application_id) ?? [],
+    artist: applyingArtistDetails && {
+      user_id        : applyingArtistDetails.user_id,
+      fullname       : applyingArtistDetails.fullname,
+      username       : applyingArtistDetails.username,
+      artist_id      : profile?.artist_id ?? null,
+      bio            : profile?.bio ?? null,
+      profile_picture: profile?.profile_picture ?? null,
+      is_student     : profile?.is_student ?? false,
+      cv_url         : profile?.cv_url ?? null,
+      portfolio_preview: profile ? (previews.get(profile.artist_id) ?? []) : [],
+    },
+  };
+};
+
+/**
+ * Loads an application for the employer who owns its job posting. Answers
+ * the request itself (404 / 403) and returns null when it can't be used.
+ */
+const findOwnedApplication = async (req: CustomRequest, res: Response): Promise<JobApplication | null> => {
+  const applicationId = Number(req.params.application_id);
+  if (!Number.isInteger(applicationId) || applicationId < 1) {
+    res.status(400).json({ message: 'Invalid application id.' });
+    return null;
+  }
+  if (req.user?.user_type !== 'Employer') {
+    res.status(403).json({ message: 'Only employers can manage applications.' });
+    return null;
+  }
+
+  const [application, employer] = await Promise.all([
+    JobApplication.findByPk(applicationId, {
+      include: [
+        { model: JobPosting, as: 'jobPostingDetails', attributes: ['job_id', 'employer_id', 'title'] },
+        applicantInclude,
+      ],
+    }),
+    Employer.findOne({ where: { user_id: req.user.id } }),
+  ]);
+  if (!application) {
+    res.status(404).json({ message: 'Application not found.' });
+    return null;
+  }
+  if (!employer || application.jobPostingDetails?.employer_id !== employer.employer_id) {
+    res.status(403).json({ message: 'Forbidden: You can only manage applications to your own job postings.' });
+    return null;
+  }
+  return application;
+};
+
+/**
+ * Moves the application from `from` to `to` unless someone else moved it in
+ * the meantime, then notifies the artist. Returns false on a lost race.
+ */
+const moveApplication = async (
+  req: CustomRequest,
+  application: JobApplication,
+  from: ApplicationStatus,
+  to: ApplicationStatus
+): Promise<boolean> => {
+  const [updated] = await JobApplication.update(
+    { status: to },
+    { where: { application_id: application.application_id, status: from } }
+  );
+  if (updated === 0) return false;
+
+  application.set('status', to);          // keep the loaded includes, no reload
+  try {
+    await notifyApplicationStatusChange(req.io!, req.onlineUsers!, application, req.user!.id);
+  } catch (e) {
+    // the status change itself went through
+    console.error('❌ application status notification failed', e);
+  }
+  return true;
+};
+
+/**
+ * @description Lists the applications to one of the employer's job postings,
+ *              with each artist's profile, CV link and a portfolio preview.
+ *              Withdrawn applications are left out unless `status=withdrawn`.
+ * @route GET /api/job-postings/:job_id/applications?status=
+ */
+export const getJobApplications = async (
+  req : CustomRequest,
+  res : Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const jobId  = Number(req.params.job_id);
+    const status = req.query.status as string | undefined;
+
+    if (!Number.isInteger(jobId) || jobId < 1) {
+      res.status(400).json({ message: 'Invalid job id.' });
+      return;
+    }
+    if (status !== undefined && !(APPLICATION_STATUSES as readonly string[]).includes(status)) {
+      res.status(400).json({ message: `status must be one of: ${APPLICATION_STATUSES.join(', ')}.` });
+      return;
+    }
+    if (req.user?.user_type !== 'Employer') {
+      res.status(403).json({ message: 'Only employers can view applications.' });
+      return;
+    }
+
+    const [jobPosting, employer] = await Promise.all([
+      JobPosting.findByPk(jobId, { attributes: ['job_id', 'employer_id'] }),
+      Employer.findOne({ where: { user_id: req.user.id } }),
+    ]);
+    if (!jobPosting) {
+      res.status(404).json({ message: 'Job not found.' });
+      return;
+    }
+    if (!employer || jobPosting.employer_id !== employer.employer_id) {
+      res.status(403).json({ message: 'Forbidden: You can only view applications to your own job postings.' });
+      return;
+    }
+
+    const applications = await JobApplication.findAll({
+      // withdrawn applications only show up when asked for explicitly
+      where: { job_id: jobId, status: status ?? { [Op.ne]: 'withdrawn' } },
+      include: [applicantInclude],
+      order: [['application_date', 'DESC'], ['application_id', 'DESC']],
+    });
+
+    const artistIds = applications
+      .map((a) => a.applyingArtistDetails?.artistProfile?.artist_id)
+      .filter((id): id is number => typeof id === 'number');
+    const [previews, portfolioItems] = await Promise.all([
+      getPortfolioPreviews(artistIds),
+      getApplicationPortfolioItems(applications),
+    ]);
+
+    res.status(200).json(applications.map((a) => shapeApplication(a, previews, portfolioItems)));
+  } catch (err) {
+    console.error('❌ getJobApplications error', err);
+    next(err);
+  }
+};
+
+/**
+ * @description One application, for the employer who owns the job posting.
+ *              Opening a `pending` application marks it `viewed`.
+ * @route GET /api/applications/:application_id
+ */
+export const getApplicationById = async (
+  req : CustomRequest,
+  res : Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const application = await findOwnedApplication(req, res);
+    if (!application) return;
+
+    if (application.status === 'pending') {
+      await moveApplication(req, application, 'pending', 'viewed');
+    }
+
+    const artistId = application.applyingArtistDetails?.artistProfile?.artist_id;
+    const [previews, portfolioItems] = await Promise.all([
+      getPortfolioPreviews(artistId ? [artistId] : []),
+      getApplicationPortfolioItems([application]),
+    ]);
+    res.status(200).json({
+      ...shapeApplication(application, previews, portfolioItems),
+      allowed_statuses: APPLICATION_TRANSITIONS[application.status].filter((s) => MANUAL_APPLICATION_STATUSES.includes(s)),
+    });
+  } catch (err) {
+    console.error('❌ getApplicationById error', err);
+    next(err);
+  }
+};
+
+/**
+ * @description Moves an application to shortlisted / rejected / hired; the
+ *              artist is notified. Illegal transitions answer 409.
+ * @route PATCH /api/applications/:application_id/status
+ * @body { status: 'shortlisted' | 'rejected' | 'hired' }
+ */
+export const updateApplicationStatus = async (
+  req : CustomRequest,
+  res : Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const status = req.body?.status as ApplicationStatus;
+    if (!MANUAL_APPLICATION_STATUSES.includes(status)) {
+      res.status(400).json({ message: `status must be one of: ${MANUAL_APPLICATION_STATUSES.join(', ')}.` });
+      return;
+    }
+
+    const application = await findOwnedApplication(req, res);
+    if (!application) return;
+
+    const from = application.status;
+    if (!canTransition(from, status)) {
+      res.status(409).json({
+        message: `An application that is ${from} cannot be marked as ${status}.`,
+        status : from,
+      });
+      return;
+    }
+    if (!(await moveApplication(req, application, from, status))) {
+      res.status(409).json({ message: 'The application was updated in the meantime. Please reload it.' });
+      return;
+    }
+
+    res.status(200).json({
+      message    : 'Application status updated.',
+      application: {
+        application_id: application.application_id,
+        job_id        : application.job_id,
+        artist_user_id: application.artist_user_id,
+        status        : application.status,
+      },
+    });
+  } catch (err) {
+    console.error('❌ updateApplicationStatus error', err);
+    next(err);
+  }
+};
+
+/**
+ * @description Withdraws the artist's application to a job. The employer is
+ *              notified; the artist keeps it in their history and can apply
+ *              again while the job is accepting applications.
+ * @route DELETE /api/job-postings/:jobId/apply
+ */
+export const withdrawApplication = async (
+  req : CustomRequest,
+  res : Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const jobId          = Number(req.params.jobId);
+    const loggedInUserId = req.user?.id;
+
+    if (Number.isNaN(jobId)) {
+      res.status(400).json({ message: 'Invalid job id.' });
+      return;
+    }
+    if (!loggedInUserId) {
+      res.status(401).json({ message: 'Unauthorized.' });
+      return;
+    }
+    if (req.user?.user_type !== 'Artist') {
+      res.status(403).json({ message: 'Only artists can withdraw applications.' });
+      return;
+    }
+
+    const application = await JobApplication.findOne({
+      where: { job_id: jobId, artist_user_id: loggedInUserId },
+      include: [{
+        model: JobPosting,
+        as: 'jobPostingDetails',
+        attributes: ['job_id', 'title'],
+        include: [{ model: Employer, as: 'employer', attributes: ['employer_id', 'user_id'] }],
+      }],
+    });
+    if (!application || application.status === 'withdrawn') {
+      res.status(404).json({ message: 'You have not applied to this job.' });
+      return;
+    }
+    if (!WITHDRAWABLE_APPLICATION_STATUSES.includes(application.status)) {
+      res.status(409).json({ message: `An application that is ${application.status} can no longer be withdrawn.` });
+      return;
+    }
+
+    // only if nobody moved it in the meantime (e.g. the employer hiring)
+    const [updated] = await JobApplication.update(
+      { status: 'withdrawn', withdrawn_at: new Date() },
+      { where: { application_id: application.application_id, status: application.status } }
+    );
+    if (updated === 0) {
+      res.status(409).json({ message: 'The application was updated in the meantime. Please reload it.' });
+      return;
+    }
+
+    /* ---------- notification to employer ---------- */
+    const employerUserId = application.jobPostingDetails?.employer?.user_id;
+    if (employerUserId) {
+      const artistUser = await User.findByPk(loggedInUserId, { attributes: ['fullname'] });
+      const frontBase  = process.env.FRONTEND_URL || 'https://artepovera2.vercel.app';
+
+      const notif = await Notification.create({
+        user_id       : employerUserId,
+        sender_id     : loggedInUserId,
+        message_key   : 'notifications.applicationWithdrawn',
+        message_params: {
+          artistName       : artistUser?.fullname ?? '',
+          jobTitle         : application.jobPostingDetails!.title,
+          artistProfileLink: `${frontBase}/user-profile/${loggedInUserId}`,
+        },
+      });
+      pushNotification(req.io!, req.onlineUsers!, employerUserId, notif.toJSON());
+    }
+
+    res.status(200).json({ message: 'Application withdrawn.', job_id: jobId });
+  } catch (err) {
+    console.error('❌ withdrawApplication error', err);
+    next(err);
+  }
+};
@@ -2,8 +2,10 @@
 import { Request, Response } from 'express';
 import User from '../models/User';
 import { Sequelize, Op, WhereOptions } from 'sequelize'; // Import Op
+import { CustomRequest } from '../middleware/authMiddleware';
+import { excludeHiddenUsers } from '../utils/blocks';
 
-export const getLocations = async (req: Request, res: Response): Promise<void> => {
+export const getLocations = async (req: CustomRequest, res: Response): Promise<void> => {
     try {
         const userType = req.query.userType as 'Artist' | 'Employer' | undefined;
 
@@ -22,6 +24,9 @@ export const getLocations = async (req: Request, res: Response): Promise<void> =
             };
         }
 
+        // Logged-in callers don't see users they blocked / who blocked them
+        Object.assign(whereClause, await excludeHiddenUsers(req.user?.id));
+
         const users = await User.findAll({
             where: whereClause,
             attributes: [
@@ -0,0 +1,166 @@
+// src/controllers/messageTemplateController.ts
+import { Response } from 'express';
+import { Op } from 'sequelize';
+import { CustomRequest } from '../middleware/authMiddleware';
+import MessageTemplate from '../models/MessageTemplate';
+import { TEMPLATE_PLACEHOLDERS, findUnknownPlaceholders } from '../utils/messageTemplates';
+
+const MAX_TEMPLATES_PER_USER = 50;
+const MAX_TEMPLATE_NAME_LENGTH = 100;
+const MAX_TEMPLATE_BODY_LENGTH = 2000;
+
+// Validates `name` / `body` of a create or update request. With `partial`,
+// missing fields are fine (update); present ones must still be valid.
+const parseTemplateInput = (
+    body: any,
+    partial: boolean
+): { name?: string; body?: string; error?: string } => {
+    const name = typeof body?.name === 'string' ? body.name.trim() : undefined;
+    const text = typeof body?.body === 'string' ? body.body.trim() : undefined;
+
+    if (!partial && (!name || !text)) return { error: 'name and body are required.' };
+    if (partial && name === undefined && text === undefined) return { error: 'Nothing to update.' };
+    if (name !== undefined && (!name || name.length > MAX_TEMPLATE_NAME_LENGTH)) {
+        return { error: `name must be 1-${MAX_TEMPLATE_NAME_LENGTH} characters.` };
+    }
+    if (text !== undefined) {
+        if (!text || text.length > MAX_TEMPLATE_BODY_LENGTH) {
+            return { error: `body must be 1-${MAX_TEMPLATE_BODY_LENGTH} characters.` };
+        }
+        const unknown = findUnknownPlaceholders(text);
+        if (unknown.length > 0) {
+            return { error: `Unknown placeholder(s): ${unknown.join(', ')}. Available: ${TEMPLATE_PLACEHOLDERS.join(', ')}.` };
+        }
+    }
+    return { name, body: text };
+};
+
+/**
+ * @description Lists the logged-in user's message templates, plus the
+ * placeholders a template body may use.
+ * @route GET /api/users/me/message-templates
+ */
+export const getMyTemplates = async (req: CustomRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        const templates = await MessageTemplate.findAll({
+            where: { user_id: userId },
+            order: [['name', 'ASC']],
+        });
+        res.status(200).json({ templates, placeholders: TEMPLATE_PLACEHOLDERS });
+    } catch (error) {
+        console.error('❌ Error fetching message templates:', error);
+        res.status(500).json({ message: 'Failed to fetch message templates.' });
+    }
+};
+
+/**
+ * @description Saves a new message template. Names are unique per user.
+ * @route POST /api/users/me/message-templates
+ * @body { name: string, body: string } – body may use {{artist_name}}, {{job_title}}, …
+ */
+export const createTemplate = async (req: CustomRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+    const input = parseTemplateInput(req.body, false);
+    if (input.error) {
+        res.status(400).json({ message: input.error });
+        return;
+    }
+
+    try {
+        const count = await MessageTemplate.count({ where: { user_id: userId } });
+        if (count >= MAX_TEMPLATES_PER_USER) {
+            res.status(400).json({ message: `You can save up to ${MAX_TEMPLATES_PER_USER} templates.` });
+            return;
+        }
+        const duplicate = await MessageTemplate.findOne({ where: { user_id: userId, name: input.name }, attributes: ['template_id'] });
+        if (duplicate) {
+            res.status(409).json({ message: 'You already have a template with this name.' });
+            return;
+        }
+
+        const template = await MessageTemplate.create({ user_id: userId, name: input.name, body: input.body });
+        res.status(201).json({ message: 'Template saved.', template });
+    } catch (error) {
+        console.error('❌ Error creating message template:', error);
+        res.status(500).json({ message: 'Failed to save template.' });
+    }
+};
+
+/**
+ * @description Renames and/or rewrites one of the user's templates.
+ * @route PUT /api/users/me/message-templates/:templateId
+ * @body { name?: string, body?: string }
+ */
+export const updateTemplate = async (req: CustomRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+    const input = parseTemplateInput(req.body, true);
+    if (input.error) {
+        res.status(400).json({ message: input.error });
+        return;
+    }
+
+    try {
+        const template = await MessageTemplate.findOne({ where: { template_id: req.params.templateId, user_id: userId } });
+        if (!template) {
+            res.status(404).json({ message: 'Template not found.' });
+            return;
+        }
+        if (input.name !== undefined) {
+            const duplicate = await MessageTemplate.findOne({
+                where: { user_id: userId, name: input.name, template_id: { [Op.ne]: template.template_id } },
+                attributes: ['template_id'],
+            });
+            if (duplicate) {
+                res.status(409).json({ message: 'You already have a template with this name.' });
+                return;
+            }
+        }
+
+        await template.update({
+            ...(input.name !== undefined ? { name: input.name } : {}),
+            ...(input.body !== undefined ? { body: input.body } : {}),
+        });
+        res.status(200).json({ message: 'Template updated.', template });
+    } catch (error) {
+        console.error('❌ Error updating message template:', error);
+        res.status(500).json({ message: 'Failed to update template.' });
+    }
+};
+
+/**
+ * @description Deletes one of the user's templates.
+ * @route DELETE /api/users/me/message-templates/:templateId
+ */
+export const deleteTemplate = async (req: CustomRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        const removed = await MessageTemplate.destroy({ where: { template_id: req.params.templateId, user_id: userId } });
+        if (!removed) {
+            res.status(404).json({ message: 'Template not found.' });
+            return;
+        }
+        res.status(200).json({ message: 'Template deleted.' });
+    } catch (error) {
+        console.error('❌ Error deleting message template:', error);
+        res.status(500).json({ message: 'Failed to delete template.' });
+    }
+};
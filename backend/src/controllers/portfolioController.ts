@@ -3,19 +3,8 @@ import { Request, Response } from 'express';
 import Portfolio from '../models/Portfolio'; // Assume Portfolio model now has 'item_type' and 'public_id'
 import Artist from '../models/Artist';
 import { v2 as cloudinary } from 'cloudinary';
-import { UploadApiResponse, ResourceType } from 'cloudinary'; // ENSURE ResourceType IS IMPORTED
 import { CustomRequest } from '../middleware/authMiddleware';
-
-// --- ADDED: Helper to determine item_type and Cloudinary resource_type ---
-type PortfolioItemType = 'image' | 'pdf' | 'video' | 'other';
-
-const getFileTypeDetails = (mimetype: string): { itemType: PortfolioItemType, resourceType: ResourceType } => {
-  if (mimetype.startsWith('image/')) return { itemType: 'image', resourceType: 'image' };
-  if (mimetype === 'application/pdf') return { itemType: 'pdf', resourceType: 'raw' }; // <<< ENSURE THIS IS 'raw'
-  if (mimetype.startsWith('video/')) return { itemType: 'video', resourceType: 'video' };
-  return { itemType: 'other', resourceType: 'raw' };
-};
-// --- END ADDED HELPER ---
+import { getFileTypeDetails, uploadBuffer, StoredItemType } from '../utils/storage';
 
 // --- Helper to attempt extracting public_id (Keep your existing version) ---
 function extractPublicIdFromUrl(imageUrl: string | null | undefined): string | null {
@@ -61,21 +50,7 @@ export const createPortfolioItem = async (req: CustomRequest, res: Response): Pr
 
     console.log(`[UPLOAD] Received portfolio file for artist: ${artist.artist_id}, mimetype: ${file.mimetype}, resourceType: ${resourceType}`);
 
-    const uploadOptions: any = { folder: "portfolio_items", resource_type: resourceType };
-    if (resourceType === 'video') {
-      uploadOptions.chunk_size = 6000000; // Example: 6MB chunks for large videos
-      // Add other video-specific upload options if needed
-    }
-
-    const uploadPromise = new Promise<UploadApiResponse | undefined>((resolve, reject) => {
-      const stream = cloudinary.uploader.upload_stream( uploadOptions, (error, result) => {
-          if (result) { resolve(result); } else { reject(error || new Error('Cloudinary upload failed.')); }
-        }
-      );
-      stream.end(file.buffer);
-    });
-
-    const result = await uploadPromise;
+    const result = await uploadBuffer(file.buffer, { folder: "portfolio_items", resource_type: resourceType });
     if (!result) { throw new Error("Cloudinary upload returned undefined result."); }
 
     const itemUrl = result.secure_url;
@@ -155,7 +130,7 @@ export const updatePortfolioItem = async (req: CustomRequest, res: Response): Pr
 
     let newImageUrl: string | null = null;
     let newPublicId: string | null = null;
-    let newItemType: PortfolioItemType | null = null;
+    let newItemType: StoredItemType | null = null;
     const oldPublicId = portfolioItem.public_id; // Get from existing DB item
     const oldItemType = portfolioItem.item_type; // Get from existing DB item
 
@@ -163,17 +138,8 @@ export const updatePortfolioItem = async (req: CustomRequest, res: Response): Pr
       console.log(`[UPDATE] New file for portfolio item: ${portfolioItemId}, type: ${file.mimetype}`);
       const { itemType, resourceType } = getFileTypeDetails(file.mimetype);
       newItemType = itemType;
-      const uploadOptions: any = { folder: "portfolio_items", resource_type: resourceType };
-      if (resourceType === 'video') uploadOptions.chunk_size = 6000000;
-
-      const uploadPromise = new Promise<UploadApiResponse | undefined>((resolve, reject) => {
-        const stream = cloudinary.uploader.upload_stream(uploadOptions, (error, result) => {
-            if (result) { resolve(result); } else { reject(error || new Error('Cloudinary upload failed.')); }
-        });
-        stream.end(file.buffer);
-      });
        try {
-            const result = await uploadPromise;
+            const result = await uploadBuffer(file.buffer, { folder: "portfolio_items", resource_type: resourceType });
             if (!result) throw new Error("Cloudinary upload returned undefined result.");
             newImageUrl = result.secure_url;
             newPublicId = result.public_id;
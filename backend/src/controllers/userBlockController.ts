@@ -0,0 +1,137 @@
+// src/controllers/userBlockController.ts
+import { Response } from 'express';
+import { CustomRequest } from '../middleware/authMiddleware';
+import User from '../models/User';
+import UserBlock from '../models/UserBlock';
+import UserReport, { REPORT_REASONS, ReportReason } from '../models/UserReport';
+import { findChatForParticipant } from '../utils/chatAccess';
+
+/**
+ * @description Blocks a user. Optionally files a report about them for the
+ * admins at the same time (send `reason`, plus optional `details` / `chat_id`).
+ * Blocking twice is a no-op; a report is still filed if one is sent.
+ * @route POST /api/users/:userId/block
+ * @body { reason?: 'harassment'|'spam'|'scam'|'inappropriate_content'|'other', details?: string, chat_id?: number }
+ */
+export const blockUser = async (req: CustomRequest, res: Response): Promise<void> => {
+    const blockerId = req.user?.id;
+    const blockedId = Number(req.params.userId);
+    const { reason, details, chat_id } = req.body ?? {};
+
+    if (!blockerId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+    if (!blockedId || isNaN(blockedId) || blockedId === blockerId) {
+        res.status(400).json({ message: 'Invalid user ID.' });
+        return;
+    }
+    if (reason !== undefined && !REPORT_REASONS.includes(reason)) {
+        res.status(400).json({ message: `reason must be one of: ${REPORT_REASONS.join(', ')}.` });
+        return;
+    }
+
+    try {
+        const target = await User.findByPk(blockedId, { attributes: ['user_id'] });
+        if (!target) {
+            res.status(404).json({ message: 'User not found.' });
+            return;
+        }
+
+        // Only attach a conversation the reporter actually took part in
+        let reportChatId: number | null = null;
+        if (reason && chat_id) {
+            const chat = await findChatForParticipant(chat_id, blockerId);
+            if (!chat) {
+                res.status(400).json({ message: 'chat_id does not refer to one of your chats.' });
+                return;
+            }
+            reportChatId = chat.chat_id;
+        }
+
+        const [block, created] = await UserBlock.findOrCreate({
+            where: { blocker_id: blockerId, blocked_id: blockedId },
+            defaults: { blocker_id: blockerId, blocked_id: blockedId },
+        });
+
+        let report: UserReport | null = null;
+        if (reason) {
+            report = await UserReport.create({
+                reporter_id: blockerId,
+                reported_id: blockedId,
+                reason: reason as ReportReason,
+                details: typeof details === 'string' && details.trim() ? details.trim() : null,
+                chat_id: reportChatId,
+            });
+        }
+
+        res.status(created ? 201 : 200).json({
+            message: created ? 'User blocked.' : 'User was already blocked.',
+            block,
+            report_id: report?.report_id ?? null,
+        });
+    } catch (error) {
+        console.error('❌ Error blocking user:', error);
+        res.status(500).json({ message: 'Failed to block user.' });
+    }
+};
+
+/**
+ * @description Removes a block made by the logged-in user.
+ * @route DELETE /api/users/:userId/block
+ */
+export const unblockUser = async (req: CustomRequest, res: Response): Promise<void> => {
+    const blockerId = req.user?.id;
+    const blockedId = Number(req.params.userId);
+    if (!blockerId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+    if (!blockedId || isNaN(blockedId)) {
+        res.status(400).json({ message: 'Invalid user ID.' });
+        return;
+    }
+
+    try {
+        const removed = await UserBlock.destroy({ where: { blocker_id: blockerId, blocked_id: blockedId } });
+        if (!removed) {
+            res.status(404).json({ message: 'You have not blocked this user.' });
+            return;
+        }
+        res.status(200).json({ message: 'User unblocked.' });
+    } catch (error) {
+        console.error('❌ Error unblocking user:', error);
+        res.status(500).json({ message: 'Failed to unblock user.' });
+    }
+};
+
+/**
+ * @description Lists the users the logged-in user has blocked.
+ * @route GET /api/users/me/blocks
+ */
+export const getMyBlocks = async (req: CustomRequest, res: Response): Promise<void> => {
+    const blockerId = req.user?.id;
+    if (!blockerId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        const blocks = await UserBlock.findAll({
+            where: { blocker_id: blockerId },
+            include: [{ model: User, as: 'blockedUser', attributes: ['user_id', 'fullname', 'user_type'] }],
+            order: [['createdAt', 'DESC']],
+        });
+
+        res.status(200).json({
+            blocks: blocks.map((b) => ({
+                block_id: b.block_id,
+                blocked_at: b.createdAt,
+                user: b.blockedUser ?? null,
+            })),
+        });
+    } catch (error) {
+        console.error('❌ Error fetching blocked users:', error);
+        res.status(500).json({ message: 'Failed to fetch blocked users.' });
+    }
+};
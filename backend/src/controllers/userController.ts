@@ -3,13 +3,21 @@ import User from '../models/User';
 import Artist from '../models/Artist';
 import Employer from '../models/Employer';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { Op } from 'sequelize';
 import Like from '../models/Like';
 import Notification from '../models/Notification';
 import Chat from '../models/Chat';
+import PasswordResetToken from '../models/PasswordResetToken';
+import EmailVerificationToken from '../models/EmailVerificationToken';
 import sequelize from '../config/db';
 import { pushNotification } from '../utils/socketHelpers';          // ⭐
+import { getPresence } from '../utils/presence';
+import { isBlockedBetween } from '../utils/blocks';
 import { CustomRequest } from '../middleware/authMiddleware'; // κρατάμε ΜΟΝΟ το import
+import { createSession, rotateRefreshToken, revokeSession, revokeAllSessions, hashToken } from '../utils/authTokens';
+import { disconnectSessionSockets, disconnectUserSockets } from '../utils/socketHelpers';
+import { sendPasswordResetEmail, sendEmailVerificationEmail } from '../utils/mailer';
 
   // --- NEW HELPER FUNCTION ---
 // This function creates the standard user object we send to the frontend.
@@ -41,8 +49,33 @@ const buildUserResponse = async (userInstance: User) => {
       profile_picture: profile_picture,
       artist_id: artist_id,
       employer_id: employer_id,
+      email_verified: !!userInstance.verified_at,
     };
   };
+
+const EMAIL_VERIFICATION_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24;
+
+// Creates a verification token for `email` (current or pending address of the user)
+// and emails the confirmation link to that address.
+const issueEmailVerification = async (userId: number, email: string, isEmailChange: boolean) => {
+    // Only the most recent link stays valid
+    await EmailVerificationToken.update(
+        { used_at: new Date() },
+        { where: { user_id: userId, used_at: null } }
+    );
+
+    const rawToken = crypto.randomBytes(32).toString('hex');
+    await EmailVerificationToken.create({
+        user_id: userId,
+        email,
+        token_hash: hashToken(rawToken),
+        expires_at: new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+    });
+
+    const backendURL = process.env.BASE_URL || 'https://artepovera-backend.onrender.com';
+    const verifyLink = `${backendURL}/api/users/verify-email?token=${rawToken}`;
+    return sendEmailVerificationEmail(email, verifyLink, isEmailChange);
+};
   
 // ─────────────────────────────────────────────────────────────
 // Like/Unlike a user and create notifications
@@ -86,6 +119,12 @@ export const toggleLike = async (req: CustomRequest, res: Response): Promise<voi
       /* ---------------------------------------------------------------- */
       /* 3. Create the like  –––> RESPOND EARLY                           */
       /* ---------------------------------------------------------------- */
+      // unliking is always allowed, liking is not across a block
+      if (await isBlockedBetween(uid, other)) {
+        res.status(403).json({ error: 'You cannot interact with this user.' });
+        return;
+      }
+
       await Like.create({ user_id: uid, liked_user_id: other });
   
       // optimistic UI: client gets success in ~80 ms
@@ -192,6 +231,78 @@ export const checkLike = async (req: CustomRequest, res: Response): Promise<void
 };
 
 
+// ─────────────────────────────────────────────────────────────
+// EMAIL PREFERENCES (unread-messages digest opt-out)
+// ─────────────────────────────────────────────────────────────
+/**
+ * @route PUT /api/users/me/email-preferences
+ * @body { message_digest: boolean }
+ */
+export const updateEmailPreferences = async (req: CustomRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    const { message_digest } = req.body;
+
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized' });
+        return;
+    }
+    if (typeof message_digest !== 'boolean') {
+        res.status(400).json({ message: 'message_digest must be a boolean.' });
+        return;
+    }
+
+    try {
+        const [updated] = await User.update(
+            { message_digest_opt_out: !message_digest },
+            { where: { user_id: userId } }
+        );
+        if (!updated) {
+            // MySQL reports 0 when the value didn't change, so double-check the user exists
+            const exists = await User.findByPk(userId, { attributes: ['user_id'] });
+            if (!exists) {
+                res.status(404).json({ message: 'User not found' });
+                return;
+            }
+        }
+        res.status(200).json({ message_digest });
+    } catch (error) {
+        console.error('Error updating email preferences:', error);
+        res.status(500).json({ message: 'Failed to update email preferences' });
+    }
+};
+
+
+// ─────────────────────────────────────────────────────────────
+// ONLINE / LAST-SEEN STATUS OF A USER
+// ─────────────────────────────────────────────────────────────
+/**
+ * @route GET /api/users/:userId/presence
+ */
+export const getUserPresence = async (req: CustomRequest, res: Response): Promise<void> => {
+    const targetUserId = Number(req.params.userId);
+
+    if (!targetUserId || isNaN(targetUserId)) {
+        res.status(400).json({ error: 'Valid target user ID is required.' });
+        return;
+    }
+
+    try {
+        // Blocked users look like they don't exist
+        const presence = req.user && await isBlockedBetween(req.user.id, targetUserId)
+            ? null
+            : await getPresence(req.onlineUsers, targetUserId);
+        if (!presence) {
+            res.status(404).json({ error: 'User not found.' });
+            return;
+        }
+        res.status(200).json(presence);
+    } catch (err) {
+        console.error('Error fetching presence:', err);
+        res.status(500).json({ error: 'Failed to fetch presence' });
+    }
+};
+
+
 // ─────────────────────────────────────────────────────────────
 // GET THE CURRENTLY LOGGED‐IN USER’S DATA
 // ─────────────────────────────────────────────────────────────
@@ -204,7 +315,7 @@ export const getCurrentUser = async (req: CustomRequest, res: Response) => {
       }
   
       const user = await User.findByPk(userId, {
-        attributes: ['user_id', 'username', 'email', 'fullname', 'phone_number', 'user_type', 'location'],
+        attributes: ['user_id', 'username', 'email', 'fullname', 'phone_number', 'user_type', 'location', 'verified_at', 'pending_email', 'message_digest_opt_out'],
         include: [
           {
             model: Artist,
@@ -233,6 +344,9 @@ export const getCurrentUser = async (req: CustomRequest, res: Response) => {
           user_type: user.user_type,
           email: user.email,
           phone_number: user.phone_number,
+          email_verified: !!user.verified_at,
+          pending_email: user.pending_email,
+          message_digest: !user.message_digest_opt_out,
       };
   
       if (user.artistProfile) {
@@ -338,17 +452,14 @@ export const loginUser = async (req: CustomRequest, res: Response, next: NextFun
             res.status(401).json({ message: 'Invalid credentials.' }); return;
         }
 
-        const token = jwt.sign(
-            { id: user.user_id, username: user.username, user_type: user.user_type },
-            process.env.JWT_SECRET || 'default_secret',
-            { expiresIn: '1h' } // Consider a longer expiry
-        );
+        // Short-lived access token + rotating refresh token bound to a new session
+        const { token, refreshToken } = await createSession(user, req.headers['user-agent']);
 
         // Use the new helper function to build a consistent response
         const userResponse = await buildUserResponse(user);
         console.log("!!!!!!!! BACKEND is sending this user object after LOGIN:", userResponse);
 
-        res.json({ token, user: userResponse });
+        res.json({ token, refreshToken, user: userResponse });
 
     } catch (error) {
         console.error('Error in loginUser:', error);
@@ -390,19 +501,19 @@ export const createUser = async (req: Request, res: Response): Promise<void> =>
            return user;
        });
 
-       // After the transaction is successful, generate the token and response
-       const token = jwt.sign(
-           { id: newUser.user_id, username: newUser.username, user_type: newUser.user_type },
-           process.env.JWT_SECRET || 'default_secret',
-           { expiresIn: '1h' }
-       );
+       // After the transaction is successful, open a session and build the response
+       const { token, refreshToken } = await createSession(newUser, req.headers['user-agent']);
 
        // Use the new helper function to build a consistent response
        const userResponse = await buildUserResponse(newUser);
        console.log("!!!!!!!! BACKEND is sending this user object after REGISTER:", userResponse);
 
+       // Confirmation mail goes out in the background; the account works (unverified) meanwhile
+       issueEmailVerification(newUser.user_id, newUser.email, false)
+           .catch((error) => console.error('❌ Error sending verification email:', error));
+
        
-       res.status(201).json({ token, user: userResponse });
+       res.status(201).json({ token, refreshToken, user: userResponse });
 
      } catch (error: any) {
        console.error('Error creating user:', error);
@@ -454,20 +565,27 @@ export const updateUser = async (req: CustomRequest, res: Response): Promise<voi
             if (existing) return void res.status(409).json({ message: 'Username already taken.'});
             user.username = username;
         }
+        // Email changes go through the same confirm-first flow as updateUserEmail
+        let emailChangeRequested = false;
          if (email && email !== user.email) {
              const existing = await User.findOne({ where: { email: email } });
              if (existing) return void res.status(409).json({ message: 'Email already taken.'});
-            user.email = email;
+            user.pending_email = email;
+            emailChangeRequested = true;
         }
 
         user.fullname = fullname || user.fullname;
         user.phone_number = phone_number || user.phone_number;
 
         await user.save();
+        if (emailChangeRequested) {
+            await issueEmailVerification(user.user_id, email, true);
+        }
         res.status(200).json({
              user_id: user.user_id,
              username: user.username,
              email: user.email,
+             pending_email: user.pending_email,
              fullname: user.fullname,
              phone_number: user.phone_number,
              user_type: user.user_type
@@ -494,6 +612,8 @@ export const deleteUser = async (req: CustomRequest, res: Response): Promise<voi
             return;
         }
 
+        await revokeAllSessions(user.user_id);
+        disconnectUserSockets(req.io!, user.user_id);
         await user.destroy();
         res.status(204).send();
     } catch (error) {
@@ -509,7 +629,9 @@ export const deleteUser = async (req: CustomRequest, res: Response): Promise<voi
 // ─────────────────────────────────────────────────────────────
 
 /**
- * Updates the logged-in user's email after verifying their current password.
+ * Requests an email change after verifying the current password.
+ * The new address is stored as `pending_email` and only replaces the current
+ * one once it is confirmed through the link sent to it.
  */
 export const updateUserEmail = async (req: CustomRequest, res: Response): Promise<void> => {
     const loggedInUserId = req.user?.id;
@@ -549,11 +671,15 @@ export const updateUserEmail = async (req: CustomRequest, res: Response): Promis
             return;
         }
 
-        // 3. Update the email
-        user.email = newEmail;
+        // 3. Park the new address until it is confirmed; the old one stays active
+        user.pending_email = newEmail;
         await user.save();
+        await issueEmailVerification(user.user_id, newEmail, true);
 
-        res.status(200).json({ message: 'Email updated successfully.' });
+        res.status(200).json({
+            message: 'A confirmation link has been sent to the new email address. Your current email stays active until it is confirmed.',
+            pending_email: newEmail,
+        });
 
     } catch (error) {
         console.error('Error updating email:', error);
@@ -572,7 +698,7 @@ export const updateUserPassword = async (req: CustomRequest, res: Response): Pro
         res.status(401).json({ message: 'Unauthorized.' });
         return;
     }
-    if (!currentPassword || !newPassword) {
+    if (!currentPassword || !newPassword || typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
         res.status(400).json({ message: 'Current password and new password are required.' });
         return;
     }
@@ -602,7 +728,12 @@ export const updateUserPassword = async (req: CustomRequest, res: Response): Pro
         user.password = hashedNewPassword;
         await user.save();
 
-        res.status(200).json({ message: 'Password updated successfully.' });
+        // 4. Invalidate every outstanding token, then keep *this* device logged in
+        await revokeAllSessions(user.user_id);
+        disconnectUserSockets(req.io!, user.user_id);
+        const { token, refreshToken } = await createSession(user, req.headers['user-agent']);
+
+        res.status(200).json({ message: 'Password updated successfully.', token, refreshToken });
 
     } catch (error) {
         console.error('Error updating password:', error);
@@ -640,7 +771,11 @@ export const deleteOwnAccount = async (req: CustomRequest, res: Response): Promi
             return;
         }
 
-        // 2. Delete the user
+        // 2. Revoke all sessions so no outstanding token outlives the account
+        await revokeAllSessions(user.user_id);
+        disconnectUserSockets(req.io!, user.user_id);
+
+        // 3. Delete the user
         // Sequelize's `destroy` with hooks/cascades (if set up) will handle related data.
         await user.destroy();
 
@@ -651,3 +786,295 @@ export const deleteOwnAccount = async (req: CustomRequest, res: Response): Promi
         res.status(500).json({ message: 'An internal error occurred while deleting the account.' });
     }
 };
+
+
+// ─────────────────────────────────────────────────────────────
+//                SESSION MANAGEMENT FUNCTIONS
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Exchanges a refresh token for a new access token + rotated refresh token.
+ * @route POST /api/users/token/refresh
+ * @body { refreshToken: string }
+ */
+export const refreshAccessToken = async (req: Request, res: Response): Promise<void> => {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+        res.status(400).json({ message: 'Refresh token is required.' });
+        return;
+    }
+
+    try {
+        const tokens = await rotateRefreshToken(refreshToken);
+        if (!tokens) {
+            res.status(401).json({ message: 'Invalid or expired refresh token. Please log in again.' });
+            return;
+        }
+
+        res.status(200).json(tokens);
+    } catch (error) {
+        console.error('Error refreshing access token:', error);
+        res.status(500).json({ message: 'An internal error occurred while refreshing the session.' });
+    }
+};
+
+/**
+ * Logs the current device out by revoking the session of the access token used.
+ * @route POST /api/users/logout
+ */
+export const logoutUser = async (req: CustomRequest, res: Response): Promise<void> => {
+    const loggedInUserId = req.user?.id;
+    const sessionId = req.user?.sid;
+
+    if (!loggedInUserId || !sessionId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        await revokeSession(sessionId, loggedInUserId);
+        disconnectSessionSockets(req.io!, sessionId);
+        res.status(200).json({ message: 'Logged out successfully.' });
+    } catch (error) {
+        console.error('Error logging out:', error);
+        res.status(500).json({ message: 'An internal error occurred while logging out.' });
+    }
+};
+
+/**
+ * Logs the user out of every device by revoking all of their sessions.
+ * @route POST /api/users/logout-all
+ */
+export const logoutAllDevices = async (req: CustomRequest, res: Response): Promise<void> => {
+    const loggedInUserId = req.user?.id;
+
+    if (!loggedInUserId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        await revokeAllSessions(loggedInUserId);
+        disconnectUserSockets(req.io!, loggedInUserId);
+        res.status(200).json({ message: 'Logged out from all devices.' });
+    } catch (error) {
+        console.error('Error logging out from all devices:', error);
+        res.status(500).json({ message: 'An internal error occurred while logging out.' });
+    }
+};
+
+
+// ─────────────────────────────────────────────────────────────
+//                PASSWORD RESET FUNCTIONS
+// ─────────────────────────────────────────────────────────────
+
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+
+/**
+ * Emails a single-use password reset link.
+ * Always answers the same way so it cannot be used to probe which emails exist.
+ * @route POST /api/users/password/forgot
+ * @body { email: string }
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+        res.status(400).json({ message: 'Email is required.' });
+        return;
+    }
+
+    // Respond before touching the DB/mailer so timing does not reveal anything either
+    res.status(200).json({ message: 'If an account exists for this email, a reset link has been sent.' });
+
+    (async () => {
+        const user = await User.findOne({ where: { email: email.trim() }, attributes: ['user_id', 'email'] });
+        if (!user) return;
+
+        // Only the most recent link stays valid
+        await PasswordResetToken.update(
+            { used_at: new Date() },
+            { where: { user_id: user.user_id, used_at: null } }
+        );
+
+        const rawToken = crypto.randomBytes(32).toString('hex');
+        await PasswordResetToken.create({
+            user_id: user.user_id,
+            token_hash: hashToken(rawToken),
+            expires_at: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+        });
+
+        const frontendURL = process.env.FRONTEND_URL || 'https://artepovera2.vercel.app';
+        const resetLink = `${frontendURL}/reset-password?token=${rawToken}`;
+        await sendPasswordResetEmail(user.email, resetLink, PASSWORD_RESET_TTL_MINUTES);
+    })().catch((error) => console.error('❌ Error issuing password reset token:', error));
+};
+
+/**
+ * Sets a new password using a token from the reset email.
+ * The token is consumed and every existing session/JWT of the user is revoked.
+ * @route POST /api/users/password/reset
+ * @body { token: string, newPassword: string }
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+    const { token, newPassword } = req.body;
+
+    if (!token || typeof token !== 'string' || !newPassword || typeof newPassword !== 'string') {
+        res.status(400).json({ message: 'Reset token and new password are required.' });
+        return;
+    }
+    if (newPassword.length < 6) {
+        res.status(400).json({ message: 'New password must be at least 6 characters long.' });
+        return;
+    }
+
+    try {
+        const resetToken = await PasswordResetToken.findOne({
+            where: {
+                token_hash: hashToken(token),
+                used_at: null,
+                expires_at: { [Op.gt]: new Date() },
+            },
+        });
+        if (!resetToken) {
+            res.status(400).json({ message: 'This reset link is invalid or has expired.' });
+            return;
+        }
+
+        const hashedNewPassword = await bcrypt.hash(newPassword, 10);
+
+        const consumed = await sequelize.transaction(async (t) => {
+            // Consume this token first, only if still unused: of two concurrent
+            // requests with the same link exactly one gets past this point
+            const [claimed] = await PasswordResetToken.update(
+                { used_at: new Date() },
+                { where: { token_id: resetToken.token_id, used_at: null }, transaction: t }
+            );
+            if (claimed === 0) return false;
+
+            await User.update(
+                { password: hashedNewPassword },
+                { where: { user_id: resetToken.user_id }, transaction: t }
+            );
+            // ...and any other outstanding ones
+            await PasswordResetToken.update(
+                { used_at: new Date() },
+                { where: { user_id: resetToken.user_id, used_at: null }, transaction: t }
+            );
+            await revokeAllSessions(resetToken.user_id, t);
+            return true;
+        });
+        if (!consumed) {
+            res.status(400).json({ message: 'This reset link is invalid or has expired.' });
+            return;
+        }
+        disconnectUserSockets((req as CustomRequest).io!, resetToken.user_id);
+
+        res.status(200).json({ message: 'Password has been reset. Please log in with your new password.' });
+    } catch (error) {
+        console.error('Error resetting password:', error);
+        res.status(500).json({ message: 'An internal error occurred while resetting the password.' });
+    }
+};
+
+
+// ─────────────────────────────────────────────────────────────
+//                EMAIL VERIFICATION FUNCTIONS
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Confirms an email address from the link in the verification mail.
+ * Marks the account verified, or swaps in the pending email on an email change.
+ * @route GET /api/users/verify-email?token=...
+ */
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+    const token = req.query.token;
+
+    if (!token || typeof token !== 'string') {
+        res.status(400).json({ message: 'Verification token is required.' });
+        return;
+    }
+
+    try {
+        const verification = await EmailVerificationToken.findOne({
+            where: {
+                token_hash: hashToken(token),
+                used_at: null,
+                expires_at: { [Op.gt]: new Date() },
+            },
+        });
+        if (!verification) {
+            res.status(400).json({ message: 'This verification link is invalid or has expired.' });
+            return;
+        }
+
+        const user = await User.findByPk(verification.user_id);
+        if (!user) {
+            res.status(404).json({ message: 'User not found.' });
+            return;
+        }
+
+        if (verification.email === user.pending_email) {
+            // Email change: the new address replaces the old one only now
+            const taken = await User.findOne({ where: { email: verification.email } });
+            if (taken) {
+                res.status(409).json({ message: 'This email is already in use by another account.' });
+                return;
+            }
+            user.email = verification.email;
+            user.pending_email = null;
+        } else if (verification.email !== user.email) {
+            // The address this link was sent to is no longer relevant
+            res.status(400).json({ message: 'This verification link is no longer valid.' });
+            return;
+        }
+
+        user.verified_at = new Date();
+        await sequelize.transaction(async (t) => {
+            await user.save({ transaction: t });
+            await verification.update({ used_at: new Date() }, { transaction: t });
+        });
+
+        res.status(200).json({ message: 'Email address verified successfully.', email: user.email });
+    } catch (error) {
+        console.error('Error verifying email:', error);
+        res.status(500).json({ message: 'An internal error occurred while verifying the email.' });
+    }
+};
+
+/**
+ * Sends a fresh verification link, to the pending email if an email change
+ * is in progress, otherwise to the current (unverified) address.
+ * @route POST /api/users/verify-email/resend
+ */
+export const resendVerificationEmail = async (req: CustomRequest, res: Response): Promise<void> => {
+    const loggedInUserId = req.user?.id;
+
+    if (!loggedInUserId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        const user = await User.findByPk(loggedInUserId, { attributes: ['user_id', 'email', 'verified_at', 'pending_email'] });
+        if (!user) {
+            res.status(404).json({ message: 'User not found.' });
+            return;
+        }
+
+        if (user.pending_email) {
+            await issueEmailVerification(user.user_id, user.pending_email, true);
+        } else if (!user.verified_at) {
+            await issueEmailVerification(user.user_id, user.email, false);
+        } else {
+            res.status(400).json({ message: 'Your email address is already verified.' });
+            return;
+        }
+
+        res.status(200).json({ message: 'A new verification link has been sent.' });
+    } catch (error) {
+        console.error('Error resending verification email:', error);
+        res.status(500).json({ message: 'An internal error occurred while sending the verification email.' });
+    }
+};
@@ -1,11 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt, { JwtPayload } from 'jsonwebtoken';
+import { JwtPayload } from 'jsonwebtoken';
 import { Server } from 'socket.io';             // ⭐  ΝΕΟ import
+import { verifyAccessToken } from '../utils/authTokens';
+import type { OnlineUsersMap } from '../utils/socketHelpers';
 
 export interface DecodedToken extends JwtPayload {
   id: number;
   username: string;
   user_type: string;
+  sid?: number;        // session the token was issued for (see utils/authTokens)
 }
 
 // ✅ Ensure the request includes user, params, query, and body
@@ -17,11 +20,13 @@ export interface CustomRequest extends Request {
 
   /* --- ΝΕΑ πεδία --- */
   io?: Server;
-  onlineUsers?: Map<number, string>;
+  onlineUsers?: OnlineUsersMap;
 }
 
 // Note: we now declare it returns `void` instead of returning a `Response`.
-export const authenticate = (req: CustomRequest, res: Response, next: NextFunction): void => {
+// The token must be valid AND its session must not have been revoked
+// (logout, logout-all, password change, account deletion).
+export const authenticate = async (req: CustomRequest, res: Response, next: NextFunction): Promise<void> => {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -33,16 +38,33 @@ export const authenticate = (req: CustomRequest, res: Response, next: NextFuncti
   const token = authHeader.split(' ')[1];
 
   try {
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'default_secret'
-    ) as DecodedToken;
+    const decoded = await verifyAccessToken(token);
+    if (!decoded) {
+      res.status(403).json({ message: 'Forbidden: Invalid or expired token' });
+      return;
+    }
 
     req.user = decoded;
     next(); // No return needed here—just call next()
   } catch (error) {
-    // Same pattern here: send the response, then return
-    res.status(403).json({ message: 'Forbidden: Invalid or expired token' });
+    console.error('Error verifying access token:', error);
+    res.status(500).json({ message: 'Failed to verify token' });
     return;
   }
 };
+
+// Like `authenticate`, but for public routes whose result depends on who is
+// asking (e.g. hiding blocked users). A missing or invalid token just means
+// an anonymous request.
+export const optionalAuthenticate = async (req: CustomRequest, _res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    try {
+      const decoded = await verifyAccessToken(authHeader.split(' ')[1]);
+      if (decoded) req.user = decoded;
+    } catch (error) {
+      console.error('Error verifying optional access token:', error);
+    }
+  }
+  next();
+};
@@ -0,0 +1,73 @@
+// src/middleware/socketAuth.ts
+import { Socket } from 'socket.io';
+import { DecodedToken } from './authMiddleware';
+import { verifyAccessToken, isSessionActive } from '../utils/authTokens';
+
+// How often a connected socket re-checks its session after its token expired
+const SOCKET_SESSION_CHECK_SECONDS = Number(process.env.SOCKET_SESSION_CHECK_SECONDS) || 15 * 60;
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;   // setTimeout limit
+
+/**
+ * Socket.IO handshake middleware: verifies the same access token that the
+ * HTTP `authenticate` middleware accepts and stores the decoded user on
+ * `socket.data.user` (its session id is `socket.data.user.sid`). The client
+ * passes it as `io(url, { auth: { token } })` (an `Authorization: Bearer ...`
+ * header is accepted as well).
+ */
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  const authHeader = socket.handshake.headers?.authorization;
+  const token =
+    socket.handshake.auth?.token ||
+    (authHeader && authHeader.startsWith('Bearer ') ? authHeader.split(' ')[1] : null);
+
+  if (!token) {
+    next(new Error('Unauthorized: Missing token'));
+    return;
+  }
+
+  try {
+    const decoded = await verifyAccessToken(token);
+    if (!decoded) {
+      next(new Error('Forbidden: Invalid or expired token'));
+      return;
+    }
+
+    socket.data.user = decoded as DecodedToken;
+    next();
+  } catch (error) {
+    console.error('Error authenticating socket:', error);
+    next(new Error('Failed to verify token'));
+  }
+};
+
+/**
+ * Revoking a session disconnects its sockets right away (see
+ * disconnectSessionSockets). As a safety net, once the handshake token has
+ * expired the socket re-checks its session every SOCKET_SESSION_CHECK_SECONDS
+ * and is dropped as soon as the session is no longer active.
+ */
+export const watchSocketSession = (socket: Socket): void => {
+  const { id: userId, sid, exp } = socket.data.user as DecodedToken;
+  let timer: NodeJS.Timeout | null = null;
+
+  const schedule = (ms: number) => {
+    timer = setTimeout(check, Math.min(Math.max(ms, 0), MAX_TIMEOUT_MS));
+  };
+  const check = async () => {
+    try {
+      if (!(await isSessionActive(sid!, userId))) {
+        socket.emit('session_revoked');
+        socket.disconnect(true);
+        return;
+      }
+    } catch (error) {
+      console.error('Error re-checking socket session:', error);
+    }
+    if (socket.connected) schedule(SOCKET_SESSION_CHECK_SECONDS * 1000);
+  };
+
+  schedule(exp ? exp * 1000 - Date.now() : SOCKET_SESSION_CHECK_SECONDS * 1000);
+  socket.on('disconnect', () => {
+    if (timer) clearTimeout(timer);
+  });
+};
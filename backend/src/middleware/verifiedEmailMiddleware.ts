@@ -0,0 +1,31 @@
+// src/middleware/verifiedEmailMiddleware.ts
+import { Response, NextFunction } from 'express';
+import { CustomRequest } from './authMiddleware';
+import User from '../models/User';
+
+/**
+ * Blocks the request until the authenticated user has confirmed their email.
+ * This middleware MUST run AFTER the `authenticate` middleware.
+ */
+export const requireVerifiedEmail = async (req: CustomRequest, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ message: 'Unauthorized.' });
+        return;
+    }
+
+    try {
+        const user = await User.findByPk(userId, { attributes: ['user_id', 'verified_at'] });
+        if (!user || !user.verified_at) {
+            res.status(403).json({
+                message: 'Forbidden: Please verify your email address before continuing.',
+                code: 'EMAIL_NOT_VERIFIED',
+            });
+            return;
+        }
+        next();
+    } catch (error) {
+        console.error('Error checking email verification:', error);
+        res.status(500).json({ message: 'Failed to check email verification.' });
+    }
+};
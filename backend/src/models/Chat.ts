@@ -2,23 +2,36 @@
 import { Model, DataTypes, Optional } from 'sequelize';
 import sequelizeInstance from '../config/db';
 import User from './User';
+import type ChatParticipant from './ChatParticipant';
 
-// This interface defines all the attributes of a Chat instance
+export type ChatType = 'direct' | 'group';
+
+// This interface defines all the attributes of a Chat instance.
+// 'direct' chats are between user1_id and user2_id; 'group' chats leave
+// both empty and keep their members in `chat_participants`.
 export interface ChatAttributes {
   chat_id: number;
-  user1_id: number;
-  user2_id: number;
+  chat_type: ChatType;
+  user1_id: number | null;
+  user2_id: number | null;
+  title?: string | null;       // group chats only
+  owner_id?: number | null;    // group chats only: who manages the members
+  job_id?: number | null;      // group chats only: the job posting it was created for
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 // Defines which attributes are optional when creating a new chat
-interface ChatCreationAttributes extends Optional<ChatAttributes, 'chat_id' | 'createdAt' | 'updatedAt'> {}
+interface ChatCreationAttributes extends Optional<ChatAttributes, 'chat_id' | 'chat_type' | 'user1_id' | 'user2_id' | 'title' | 'owner_id' | 'job_id' | 'createdAt' | 'updatedAt'> {}
 
 class Chat extends Model<ChatAttributes, ChatCreationAttributes> implements ChatAttributes {
   public chat_id!: number;
-  public user1_id!: number;
-  public user2_id!: number;
+  public chat_type!: ChatType;
+  public user1_id!: number | null;
+  public user2_id!: number | null;
+  public title!: string | null;
+  public owner_id!: number | null;
+  public job_id!: number | null;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -26,6 +39,7 @@ class Chat extends Model<ChatAttributes, ChatCreationAttributes> implements Chat
   // For included associations
   public readonly user1?: User;
   public readonly user2?: User;
+  public readonly participants?: ChatParticipant[];
 }
 
 Chat.init({
@@ -34,21 +48,44 @@ Chat.init({
     autoIncrement: true,
     primaryKey: true,
   },
+  chat_type: {
+    type: DataTypes.ENUM('direct', 'group'),
+    allowNull: false,
+    defaultValue: 'direct',
+  },
   user1_id: {
     type: DataTypes.INTEGER.UNSIGNED,
-    allowNull: false,
+    allowNull: true,            // NULL for group chats
     references: { model: 'users', key: 'user_id' }
   },
   user2_id: {
     type: DataTypes.INTEGER.UNSIGNED,
-    allowNull: false,
+    allowNull: true,            // NULL for group chats
     references: { model: 'users', key: 'user_id' }
   },
+  title: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+  },
+  owner_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    references: { model: 'users', key: 'user_id' }
+  },
+  job_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    references: { model: 'job_postings', key: 'job_id' }
+  },
 }, {
   sequelize: sequelizeInstance,
   tableName: 'chats',
   timestamps: true,
   underscored: true,
+  indexes: [
+    // at most one group chat per job posting (direct chats leave job_id NULL)
+    { name: 'chats_job_id_unique', unique: true, fields: ['job_id'] },
+  ],
 });
 
 export default Chat;
\ No newline at end of file
@@ -0,0 +1,74 @@
+// src/models/ChatParticipant.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import Chat from './Chat';
+import User from './User';
+
+export type ChatParticipantRole = 'owner' | 'member';
+
+// Membership of a group chat. Direct chats don't use this table, their two
+// users live on the chat row itself. Leaving a group deletes the row.
+export interface ChatParticipantAttributes {
+  participant_id: number;
+  chat_id: number;
+  user_id: number;
+  role: ChatParticipantRole;
+  last_read_message_id?: number | null;  // group read receipts (direct chats use messages.read_status)
+  createdAt?: Date;                      // joined at
+  updatedAt?: Date;
+}
+
+interface ChatParticipantCreationAttributes extends Optional<ChatParticipantAttributes, 'participant_id' | 'role' | 'last_read_message_id' | 'createdAt' | 'updatedAt'> {}
+
+class ChatParticipant extends Model<ChatParticipantAttributes, ChatParticipantCreationAttributes> implements ChatParticipantAttributes {
+  public participant_id!: number;
+  public chat_id!: number;
+  public user_id!: number;
+  public role!: ChatParticipantRole;
+  public last_read_message_id!: number | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Associations
+  public readonly chat?: Chat;
+  public readonly user?: User;
+}
+
+ChatParticipant.init({
+  participant_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  chat_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'chats', key: 'chat_id' }
+  },
+  user_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  role: {
+    type: DataTypes.ENUM('owner', 'member'),
+    allowNull: false,
+    defaultValue: 'member',
+  },
+  last_read_message_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'chat_participants',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['chat_id', 'user_id'] },
+    { fields: ['user_id'] },
+  ],
+});
+
+export default ChatParticipant;
@@ -0,0 +1,87 @@
+// src/models/ChatSetting.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import Chat from './Chat';
+import User from './User';
+
+// One user's view of a chat (archived / muted / pinned). Kept apart from the
+// shared `chats` row because the two participants choose independently.
+// A missing row means all flags are off.
+export interface ChatSettingAttributes {
+  setting_id: number;
+  chat_id: number;
+  user_id: number;
+  archived: boolean;
+  muted: boolean;
+  pinned: boolean;
+  pinned_at?: Date | null;   // orders the pinned chats, most recently pinned first
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface ChatSettingCreationAttributes extends Optional<ChatSettingAttributes, 'setting_id' | 'archived' | 'muted' | 'pinned' | 'pinned_at' | 'createdAt' | 'updatedAt'> {}
+
+class ChatSetting extends Model<ChatSettingAttributes, ChatSettingCreationAttributes> implements ChatSettingAttributes {
+  public setting_id!: number;
+  public chat_id!: number;
+  public user_id!: number;
+  public archived!: boolean;
+  public muted!: boolean;
+  public pinned!: boolean;
+  public pinned_at!: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Associations
+  public readonly chat?: Chat;
+  public readonly user?: User;
+}
+
+ChatSetting.init({
+  setting_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  chat_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'chats', key: 'chat_id' }
+  },
+  user_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  archived: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  },
+  muted: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  },
+  pinned: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  },
+  pinned_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'chat_settings',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['chat_id', 'user_id'] },
+    { fields: ['user_id'] },
+  ],
+});
+
+export default ChatSetting;
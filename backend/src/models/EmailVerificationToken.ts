@@ -0,0 +1,70 @@
+// src/models/EmailVerificationToken.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import User from './User';
+
+// Confirms ownership of `email` for `user_id`: either the registration address
+// or a pending new address. Only the SHA-256 hash of the emailed token is stored.
+export interface EmailVerificationTokenAttributes {
+  token_id: number;
+  user_id: number;
+  email: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at?: Date | null;
+  createdAt?: Date;
+}
+
+interface EmailVerificationTokenCreationAttributes extends Optional<EmailVerificationTokenAttributes, 'token_id' | 'used_at' | 'createdAt'> {}
+
+class EmailVerificationToken extends Model<EmailVerificationTokenAttributes, EmailVerificationTokenCreationAttributes> implements EmailVerificationTokenAttributes {
+  public token_id!: number;
+  public user_id!: number;
+  public email!: string;
+  public token_hash!: string;
+  public expires_at!: Date;
+  public used_at!: Date | null;
+
+  public readonly createdAt!: Date;
+
+  // Associations
+  public readonly user?: User;
+}
+
+EmailVerificationToken.init({
+  token_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  email: {
+    type: DataTypes.STRING,
+    allowNull: false,
+  },
+  token_hash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true,
+  },
+  expires_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  used_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'email_verification_tokens',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+});
+
+export default EmailVerificationToken;
@@ -1,35 +1,57 @@
 // src/models/JobApplication.ts
 import { Model, DataTypes, Optional, Sequelize } from 'sequelize';
 import sequelize from '../config/db';
-// Import other models if you define associations here directly
-// import JobPosting from './JobPosting';
-// import User from './User';
+import type JobPosting from './JobPosting';
+import type User from './User';
+import type { ScreeningAnswer } from '../utils/screeningQuestions';
 
-interface JobApplicationAttributes {
+export const APPLICATION_STATUSES = ['pending', 'viewed', 'shortlisted', 'rejected', 'hired', 'withdrawn'] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export interface JobApplicationAttributes {
   application_id: number;
   job_id: number;
   artist_user_id: number; // User ID of the applying artist
-  status: 'pending' | 'viewed' | 'shortlisted' | 'rejected' | 'hired';
+  status: ApplicationStatus;
   application_date: Date;
+  // What the artist submitted with the application (all optional)
+  cover_letter?: string | null;
+  proposed_rate?: number | null;
+  available_from?: string | null;       // YYYY-MM-DD
+  available_to?: string | null;
+  portfolio_item_ids?: number[] | null; // the artist's own Portfolio items
+  cv_url?: string | null;               // a CV for this application instead of Artist.cv_url
+  cv_public_id?: string | null;
+  screening_answers?: ScreeningAnswer[] | null; // answers to JobPosting.screening_questions
+  withdrawn_at?: Date | null;                    // set while the artist has withdrawn it
   created_at?: Date;
   updated_at?: Date;
 }
 
-interface JobApplicationCreationAttributes extends Optional<JobApplicationAttributes, 'application_id' | 'status' | 'application_date' | 'created_at' | 'updated_at'> {}
+interface JobApplicationCreationAttributes extends Optional<JobApplicationAttributes, 'application_id' | 'status' | 'application_date' | 'cover_letter' | 'proposed_rate' | 'available_from' | 'available_to' | 'portfolio_item_ids' | 'cv_url' | 'cv_public_id' | 'screening_answers' | 'withdrawn_at' | 'created_at' | 'updated_at'> {}
 
 class JobApplication extends Model<JobApplicationAttributes, JobApplicationCreationAttributes> implements JobApplicationAttributes {
   public application_id!: number;
   public job_id!: number;
   public artist_user_id!: number;
-  public status!: 'pending' | 'viewed' | 'shortlisted' | 'rejected' | 'hired';
+  public status!: ApplicationStatus;
   public application_date!: Date;
+  public cover_letter!: string | null;
+  public proposed_rate!: number | null;
+  public available_from!: string | null;
+  public available_to!: string | null;
+  public portfolio_item_ids!: number[] | null;
+  public cv_url!: string | null;
+  public cv_public_id!: string | null;
+  public screening_answers!: ScreeningAnswer[] | null;
+  public withdrawn_at!: Date | null;
 
   public readonly created_at!: Date;
   public readonly updatedAt!: Date;
 
-  // Define associations here or (preferably) in a central associations.ts file
-  // public readonly jobPosting?: JobPosting;
-  // public readonly applyingArtist?: User;
+  // Associations (defined in associations.ts)
+  public readonly jobPostingDetails?: JobPosting;
+  public readonly applyingArtistDetails?: User;
 }
 
 JobApplication.init(
@@ -50,7 +72,7 @@ JobApplication.init(
       references: { model: 'users', key: 'user_id' }
     },
     status: {
-      type: DataTypes.ENUM('pending', 'viewed', 'shortlisted', 'rejected', 'hired'),
+      type: DataTypes.ENUM(...APPLICATION_STATUSES),
       allowNull: false,
       defaultValue: 'pending',
     },
@@ -58,13 +80,53 @@ JobApplication.init(
       type: DataTypes.DATE,
       allowNull: false,
       defaultValue: DataTypes.NOW,
-    }
+    },
+    cover_letter: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    proposed_rate: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    available_from: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    available_to: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+    },
+    portfolio_item_ids: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    cv_url: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    cv_public_id: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    screening_answers: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    withdrawn_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
     tableName: 'job_applications',
     timestamps: true,
     underscored: true, // For created_at and updated_at columns
+    indexes: [
+      // one row per artist and job; re-applying after a withdrawal reuses it
+      { unique: true, fields: ['job_id', 'artist_user_id'] },
+    ],
   }
 );
 
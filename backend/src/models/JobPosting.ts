@@ -2,6 +2,7 @@
 import { Model, DataTypes, Optional } from 'sequelize';
 import sequelizeInstance from '../config/db';
 import Employer from './Employer';
+import type { ScreeningQuestion } from '../utils/screeningQuestions';
 
 // This interface defines all the properties a JobPosting instance will have
 export interface JobPostingAttributes {
@@ -22,6 +23,7 @@ export interface JobPostingAttributes {
   insurance?: boolean | null;
   desired_keywords?: string | null;
   requirements?: object | null;
+  screening_questions?: ScreeningQuestion[] | null; // validated by utils/screeningQuestions.ts
   employer?: Employer;
 }
 
@@ -47,6 +49,7 @@ class JobPosting extends Model<JobPostingAttributes, JobPostingCreationAttribute
   public insurance!: boolean | null;
   public desired_keywords!: string | null;
   public requirements!: object | null;
+  public screening_questions!: ScreeningQuestion[] | null;
 
   // Timestamps
   public readonly created_at!: Date;
@@ -85,6 +88,7 @@ JobPosting.init({
     insurance: { type: DataTypes.BOOLEAN, allowNull: true },
     desired_keywords: { type: DataTypes.TEXT, allowNull: true },
     requirements: { type: DataTypes.JSON, allowNull: true },
+    screening_questions: { type: DataTypes.JSON, allowNull: true },
 }, {
   sequelize: sequelizeInstance,
   tableName: 'job_postings',
@@ -3,26 +3,45 @@ import { Model, DataTypes, Optional } from 'sequelize';
 import sequelizeInstance from '../config/db';
 import User from './User';
 import Chat from './Chat';
+import type MessageAttachment from './MessageAttachment';
+
+// Outcome of the outgoing-message filters (utils/messageFilter.ts) and of the
+// admin review that follows. 'hidden' messages are only shown to their sender
+// until an admin approves them; 'removed' ones are also tombstoned.
+export const MODERATION_STATUSES = ['clean', 'flagged', 'hidden', 'approved', 'removed'] as const;
+export type ModerationStatus = typeof MODERATION_STATUSES[number];
 
 export interface MessageAttributes {
   message_id: number;
   chat_id: number;
   sender_id: number;
-  receiver_id: number;
+  receiver_id: number | null;   // NULL in group chats
   message: string;
   read_status?: boolean;
+  edited_at?: Date | null;
+  deleted_at?: Date | null;   // set when the sender unsends the message (tombstone)
+  moderation_status?: ModerationStatus;
+  moderation_reasons?: string[] | null;   // filter rules that matched; admins only
+  moderated_by?: number | null;
+  moderated_at?: Date | null;
   createdAt?: Date;
 }
 
-interface MessageCreationAttributes extends Optional<MessageAttributes, 'message_id' | 'read_status' | 'createdAt'> {}
+interface MessageCreationAttributes extends Optional<MessageAttributes, 'message_id' | 'read_status' | 'edited_at' | 'deleted_at' | 'moderation_status' | 'moderation_reasons' | 'moderated_by' | 'moderated_at' | 'createdAt'> {}
 
 class Message extends Model<MessageAttributes, MessageCreationAttributes> implements MessageAttributes {
   public message_id!: number;
   public chat_id!: number;
   public sender_id!: number;
-  public receiver_id!: number;
+  public receiver_id!: number | null;
   public message!: string;
   public read_status!: boolean;
+  public edited_at!: Date | null;
+  public deleted_at!: Date | null;
+  public moderation_status!: ModerationStatus;
+  public moderation_reasons!: string[] | null;
+  public moderated_by!: number | null;
+  public moderated_at!: Date | null;
 
   public readonly createdAt!: Date;
   
@@ -30,6 +49,7 @@ class Message extends Model<MessageAttributes, MessageCreationAttributes> implem
   public readonly chat?: Chat;
   public readonly messageSender?: User;
   public readonly messageReceiver?: User;
+  public readonly attachments?: MessageAttachment[];
 }
 
 Message.init({
@@ -50,7 +70,7 @@ Message.init({
   },
   receiver_id: {
     type: DataTypes.INTEGER.UNSIGNED,
-    allowNull: false,
+    allowNull: true,
     references: { model: 'users', key: 'user_id' }
   },
   message: {
@@ -61,6 +81,32 @@ Message.init({
     type: DataTypes.BOOLEAN,
     allowNull: false,
     defaultValue: false,
+  },
+  edited_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  deleted_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  moderation_status: {
+    type: DataTypes.ENUM(...MODERATION_STATUSES),
+    allowNull: false,
+    defaultValue: 'clean',
+  },
+  moderation_reasons: {
+    type: DataTypes.JSON,
+    allowNull: true,
+  },
+  moderated_by: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    references: { model: 'users', key: 'user_id' }
+  },
+  moderated_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
   }
 }, {
   sequelize: sequelizeInstance,
@@ -68,6 +114,11 @@ Message.init({
   timestamps: true,      // Enables createdAt and updatedAt
   updatedAt: false,      // We don't need updatedAt for messages
   underscored: true,     // DB column will be created_at
+  indexes: [
+    { name: 'messages_chat_id_message_id', fields: ['chat_id', 'message_id'] }, // history pagination
+    { name: 'messages_message_fulltext', type: 'FULLTEXT', fields: ['message'] }, // GET /chats/search
+    { name: 'messages_moderation_status', fields: ['moderation_status'] },         // admin review queue
+  ],
 });
 
 export default Message;
\ No newline at end of file
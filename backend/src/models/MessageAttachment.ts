@@ -0,0 +1,98 @@
+// src/models/MessageAttachment.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import Message from './Message';
+import type { StoredItemType } from '../utils/storage';
+
+// A file sent inside a chat message. The file lives in Cloudinary as an
+// `authenticated` asset, so it can only be fetched through a signed URL.
+export interface MessageAttachmentAttributes {
+  attachment_id: number;
+  message_id: number;
+  uploader_id: number;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  item_type: StoredItemType;
+  public_id: string;
+  resource_type: 'image' | 'video' | 'raw';
+  format?: string | null;
+  createdAt?: Date;
+}
+
+interface MessageAttachmentCreationAttributes extends Optional<MessageAttachmentAttributes, 'attachment_id' | 'format' | 'createdAt'> {}
+
+class MessageAttachment extends Model<MessageAttachmentAttributes, MessageAttachmentCreationAttributes> implements MessageAttachmentAttributes {
+  public attachment_id!: number;
+  public message_id!: number;
+  public uploader_id!: number;
+  public file_name!: string;
+  public mime_type!: string;
+  public size_bytes!: number;
+  public item_type!: StoredItemType;
+  public public_id!: string;
+  public resource_type!: 'image' | 'video' | 'raw';
+  public format!: string | null;
+
+  public readonly createdAt!: Date;
+
+  // Associations
+  public readonly message?: Message;
+}
+
+MessageAttachment.init({
+  attachment_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  message_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'messages', key: 'message_id' }
+  },
+  uploader_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  file_name: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  mime_type: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+  size_bytes: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+  },
+  item_type: {
+    type: DataTypes.ENUM('image', 'pdf', 'video', 'other'),
+    allowNull: false,
+  },
+  public_id: {
+    type: DataTypes.STRING(255),
+    allowNull: false,
+  },
+  resource_type: {
+    type: DataTypes.ENUM('image', 'video', 'raw'),
+    allowNull: false,
+  },
+  format: {
+    type: DataTypes.STRING(20),
+    allowNull: true,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'message_attachments',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    { fields: ['message_id'] },
+  ],
+});
+
+export default MessageAttachment;
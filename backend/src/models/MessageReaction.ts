@@ -0,0 +1,64 @@
+// src/models/MessageReaction.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import Message from './Message';
+import User from './User';
+
+// An emoji reaction to a chat message. One per user and message: reacting
+// again replaces the previous emoji.
+export interface MessageReactionAttributes {
+  reaction_id: number;
+  message_id: number;
+  user_id: number;
+  emoji: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface MessageReactionCreationAttributes extends Optional<MessageReactionAttributes, 'reaction_id' | 'createdAt' | 'updatedAt'> {}
+
+class MessageReaction extends Model<MessageReactionAttributes, MessageReactionCreationAttributes> implements MessageReactionAttributes {
+  public reaction_id!: number;
+  public message_id!: number;
+  public user_id!: number;
+  public emoji!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Associations
+  public readonly message?: Message;
+  public readonly user?: User;
+}
+
+MessageReaction.init({
+  reaction_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  message_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'messages', key: 'message_id' }
+  },
+  user_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  emoji: {
+    type: DataTypes.STRING(32),
+    allowNull: false,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'message_reactions',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['message_id', 'user_id'] },
+  ],
+});
+
+export default MessageReaction;
@@ -0,0 +1,62 @@
+// src/models/MessageTemplate.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import User from './User';
+
+// A saved quick reply. `body` may contain placeholders such as
+// {{artist_name}} that are filled in when the template is sent
+// (see utils/messageTemplates.ts).
+export interface MessageTemplateAttributes {
+  template_id: number;
+  user_id: number;
+  name: string;
+  body: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface MessageTemplateCreationAttributes extends Optional<MessageTemplateAttributes, 'template_id' | 'createdAt' | 'updatedAt'> {}
+
+class MessageTemplate extends Model<MessageTemplateAttributes, MessageTemplateCreationAttributes> implements MessageTemplateAttributes {
+  public template_id!: number;
+  public user_id!: number;
+  public name!: string;
+  public body!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Associations
+  public readonly user?: User;
+}
+
+MessageTemplate.init({
+  template_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  name: {
+    type: DataTypes.STRING(100),
+    allowNull: false,
+  },
+  body: {
+    type: DataTypes.TEXT,
+    allowNull: false,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'message_templates',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['user_id', 'name'] },
+  ],
+});
+
+export default MessageTemplate;
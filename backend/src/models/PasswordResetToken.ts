@@ -0,0 +1,63 @@
+// src/models/PasswordResetToken.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import User from './User';
+
+// Single-use reset token. Only the SHA-256 hash of the emailed token is stored.
+export interface PasswordResetTokenAttributes {
+  token_id: number;
+  user_id: number;
+  token_hash: string;
+  expires_at: Date;
+  used_at?: Date | null;
+  createdAt?: Date;
+}
+
+interface PasswordResetTokenCreationAttributes extends Optional<PasswordResetTokenAttributes, 'token_id' | 'used_at' | 'createdAt'> {}
+
+class PasswordResetToken extends Model<PasswordResetTokenAttributes, PasswordResetTokenCreationAttributes> implements PasswordResetTokenAttributes {
+  public token_id!: number;
+  public user_id!: number;
+  public token_hash!: string;
+  public expires_at!: Date;
+  public used_at!: Date | null;
+
+  public readonly createdAt!: Date;
+
+  // Associations
+  public readonly user?: User;
+}
+
+PasswordResetToken.init({
+  token_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  token_hash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true,
+  },
+  expires_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  used_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'password_reset_tokens',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+});
+
+export default PasswordResetToken;
@@ -0,0 +1,94 @@
+// src/models/ScheduledMessage.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import Chat from './Chat';
+import User from './User';
+
+export const SCHEDULED_MESSAGE_STATUSES = ['pending', 'sent', 'cancelled', 'failed'] as const;
+export type ScheduledMessageStatus = typeof SCHEDULED_MESSAGE_STATUSES[number];
+
+// A chat message waiting to be sent at `deliver_at` (utils/scheduledMessages.ts).
+// Once sent, `message_id` points at the real message.
+export interface ScheduledMessageAttributes {
+  scheduled_id: number;
+  chat_id: number;
+  sender_id: number;
+  message: string;
+  deliver_at: Date;
+  status: ScheduledMessageStatus;
+  message_id?: number | null;
+  failure_reason?: string | null;   // why it could not be sent (e.g. blocked, left the chat)
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface ScheduledMessageCreationAttributes extends Optional<ScheduledMessageAttributes, 'scheduled_id' | 'status' | 'message_id' | 'failure_reason' | 'createdAt' | 'updatedAt'> {}
+
+class ScheduledMessage extends Model<ScheduledMessageAttributes, ScheduledMessageCreationAttributes> implements ScheduledMessageAttributes {
+  public scheduled_id!: number;
+  public chat_id!: number;
+  public sender_id!: number;
+  public message!: string;
+  public deliver_at!: Date;
+  public status!: ScheduledMessageStatus;
+  public message_id!: number | null;
+  public failure_reason!: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Associations
+  public readonly chat?: Chat;
+  public readonly sender?: User;
+}
+
+ScheduledMessage.init({
+  scheduled_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  chat_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'chats', key: 'chat_id' }
+  },
+  sender_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  message: {
+    type: DataTypes.TEXT,
+    allowNull: false,
+  },
+  deliver_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  status: {
+    type: DataTypes.ENUM(...SCHEDULED_MESSAGE_STATUSES),
+    allowNull: false,
+    defaultValue: 'pending',
+  },
+  message_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    references: { model: 'messages', key: 'message_id' }
+  },
+  failure_reason: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'scheduled_messages',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { fields: ['status', 'deliver_at'] },        // the delivery job
+    { fields: ['chat_id', 'sender_id'] },
+  ],
+});
+
+export default ScheduledMessage;
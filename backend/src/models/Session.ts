@@ -0,0 +1,79 @@
+// src/models/Session.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import User from './User';
+
+// One row per logged-in device. The refresh token itself is never stored,
+// only its SHA-256 hash, and it is rotated on every refresh.
+export interface SessionAttributes {
+  session_id: number;
+  user_id: number;
+  refresh_token_hash: string;
+  user_agent?: string | null;
+  expires_at: Date;
+  last_used_at?: Date | null;
+  revoked_at?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SessionCreationAttributes extends Optional<SessionAttributes, 'session_id' | 'user_agent' | 'last_used_at' | 'revoked_at' | 'createdAt' | 'updatedAt'> {}
+
+class Session extends Model<SessionAttributes, SessionCreationAttributes> implements SessionAttributes {
+  public session_id!: number;
+  public user_id!: number;
+  public refresh_token_hash!: string;
+  public user_agent!: string | null;
+  public expires_at!: Date;
+  public last_used_at!: Date | null;
+  public revoked_at!: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Associations
+  public readonly user?: User;
+}
+
+Session.init({
+  session_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  refresh_token_hash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+  },
+  user_agent: {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+  },
+  expires_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  last_used_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+  revoked_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'sessions',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { fields: ['user_id'] },
+  ],
+});
+
+export default Session;
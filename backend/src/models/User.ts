@@ -14,9 +14,14 @@ interface UserAttributes {
   phone_number: string | null;
   user_type: 'Artist' | 'Employer' | 'Admin'; // <<< CHANGED: Now includes 'Admin'
   location: { type: string; coordinates: [number, number] } | null;
+  verified_at: Date | null; // null until the current email has been confirmed
+  pending_email: string | null; // requested new email, applied once confirmed
+  last_seen_at: Date | null; // set when the user's last socket disconnects
+  message_digest_opt_out: boolean; // no "unread messages" digest emails
+  last_digest_sent_at: Date | null; // throttles the digest, see utils/messageDigest
 }
 
-interface UserCreationAttributes extends Optional<UserAttributes, 'user_id' | 'location' | 'phone_number'> {}
+interface UserCreationAttributes extends Optional<UserAttributes, 'user_id' | 'location' | 'phone_number' | 'verified_at' | 'pending_email' | 'last_seen_at' | 'message_digest_opt_out' | 'last_digest_sent_at'> {}
 
 class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
   public user_id!: number;
@@ -27,6 +32,11 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public phone_number!: string | null;
   public user_type!: 'Artist' | 'Employer' | 'Admin'; // <<< CHANGED: Now includes 'Admin'
   public location!: { type: string; coordinates: [number, number] } | null;
+  public verified_at!: Date | null;
+  public pending_email!: string | null;
+  public last_seen_at!: Date | null;
+  public message_digest_opt_out!: boolean;
+  public last_digest_sent_at!: Date | null;
 
   // Associations (defined later in associations.ts)
   public readonly artistProfile?: Artist | null;
@@ -70,6 +80,27 @@ User.init(
       type: DataTypes.GEOMETRY('POINT'),
       allowNull: false,
     },
+    verified_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    pending_email: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    last_seen_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    message_digest_opt_out: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    last_digest_sent_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
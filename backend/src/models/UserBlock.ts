@@ -0,0 +1,57 @@
+// src/models/UserBlock.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import User from './User';
+
+// `blocker_id` no longer wants any contact with `blocked_id`. Blocks are
+// enforced in both directions (see utils/blocks).
+export interface UserBlockAttributes {
+  block_id: number;
+  blocker_id: number;
+  blocked_id: number;
+  createdAt?: Date;
+}
+
+interface UserBlockCreationAttributes extends Optional<UserBlockAttributes, 'block_id' | 'createdAt'> {}
+
+class UserBlock extends Model<UserBlockAttributes, UserBlockCreationAttributes> implements UserBlockAttributes {
+  public block_id!: number;
+  public blocker_id!: number;
+  public blocked_id!: number;
+
+  public readonly createdAt!: Date;
+
+  // Associations
+  public readonly blocker?: User;
+  public readonly blockedUser?: User;
+}
+
+UserBlock.init({
+  block_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  blocker_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  blocked_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'user_blocks',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['blocker_id', 'blocked_id'] },
+    { fields: ['blocked_id'] },
+  ],
+});
+
+export default UserBlock;
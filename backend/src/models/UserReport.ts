@@ -0,0 +1,108 @@
+// src/models/UserReport.ts
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelizeInstance from '../config/db';
+import User from './User';
+
+export const REPORT_REASONS = ['harassment', 'spam', 'scam', 'inappropriate_content', 'other'] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const REPORT_STATUSES = ['open', 'reviewed', 'dismissed'] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+// A complaint about a user, filed when blocking them. Reviewed by admins.
+export interface UserReportAttributes {
+  report_id: number;
+  reporter_id: number;
+  reported_id: number;
+  reason: ReportReason;
+  details?: string | null;
+  chat_id?: number | null;       // conversation the report refers to, if any
+  status: ReportStatus;
+  admin_note?: string | null;
+  reviewed_by?: number | null;
+  reviewed_at?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface UserReportCreationAttributes extends Optional<UserReportAttributes, 'report_id' | 'details' | 'chat_id' | 'status' | 'admin_note' | 'reviewed_by' | 'reviewed_at' | 'createdAt' | 'updatedAt'> {}
+
+class UserReport extends Model<UserReportAttributes, UserReportCreationAttributes> implements UserReportAttributes {
+  public report_id!: number;
+  public reporter_id!: number;
+  public reported_id!: number;
+  public reason!: ReportReason;
+  public details!: string | null;
+  public chat_id!: number | null;
+  public status!: ReportStatus;
+  public admin_note!: string | null;
+  public reviewed_by!: number | null;
+  public reviewed_at!: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Associations
+  public readonly reporter?: User;
+  public readonly reportedUser?: User;
+}
+
+UserReport.init({
+  report_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  reporter_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  reported_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: false,
+    references: { model: 'users', key: 'user_id' }
+  },
+  reason: {
+    type: DataTypes.ENUM(...REPORT_REASONS),
+    allowNull: false,
+  },
+  details: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  },
+  chat_id: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    references: { model: 'chats', key: 'chat_id' }
+  },
+  status: {
+    type: DataTypes.ENUM(...REPORT_STATUSES),
+    allowNull: false,
+    defaultValue: 'open',
+  },
+  admin_note: {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  },
+  reviewed_by: {
+    type: DataTypes.INTEGER.UNSIGNED,
+    allowNull: true,
+    references: { model: 'users', key: 'user_id' }
+  },
+  reviewed_at: {
+    type: DataTypes.DATE,
+    allowNull: true,
+  },
+}, {
+  sequelize: sequelizeInstance,
+  tableName: 'user_reports',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { fields: ['status'] },
+    { fields: ['reported_id'] },
+  ],
+});
+
+export default UserReport;
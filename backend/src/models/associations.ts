@@ -10,6 +10,17 @@ import Portfolio from './Portfolio';
 import JobApplication from './JobApplication';
 import ArtistSupport from './ArtistSupport';
 import ArtistComment from './ArtistComment';
+import Session from './Session';
+import PasswordResetToken from './PasswordResetToken';
+import EmailVerificationToken from './EmailVerificationToken';
+import MessageAttachment from './MessageAttachment';
+import UserBlock from './UserBlock';
+import UserReport from './UserReport';
+import ChatSetting from './ChatSetting';
+import ChatParticipant from './ChatParticipant';
+import MessageReaction from './MessageReaction';
+import MessageTemplate from './MessageTemplate';
+import ScheduledMessage from './ScheduledMessage';
 
 // 1) User <-> Artist Profile
 User.hasOne(Artist, {
@@ -122,4 +133,78 @@ User.hasMany(ArtistComment, {
   foreignKey: 'commenter_user_id',
   as: 'writtenProfileComments',
   onDelete: 'CASCADE'
-});
\ No newline at end of file
+});
+// Login Session Associations
+User.hasMany(Session, {
+  foreignKey: 'user_id',
+  as: 'sessions',
+  onDelete: 'CASCADE'
+});
+Session.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+// Password Reset Token Associations
+User.hasMany(PasswordResetToken, {
+  foreignKey: 'user_id',
+  as: 'passwordResetTokens',
+  onDelete: 'CASCADE'
+});
+PasswordResetToken.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+// Email Verification Token Associations
+User.hasMany(EmailVerificationToken, {
+  foreignKey: 'user_id',
+  as: 'emailVerificationTokens',
+  onDelete: 'CASCADE'
+});
+EmailVerificationToken.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+// Message Attachment Associations
+Message.hasMany(MessageAttachment, {
+  foreignKey: 'message_id',
+  as: 'attachments',
+  onDelete: 'CASCADE'
+});
+MessageAttachment.belongsTo(Message, { foreignKey: 'message_id', as: 'message' });
+
+// User Block Associations
+User.hasMany(UserBlock, { foreignKey: 'blocker_id', as: 'blocksMade', onDelete: 'CASCADE' });
+User.hasMany(UserBlock, { foreignKey: 'blocked_id', as: 'blocksReceived', onDelete: 'CASCADE' });
+UserBlock.belongsTo(User, { foreignKey: 'blocker_id', as: 'blocker' });
+UserBlock.belongsTo(User, { foreignKey: 'blocked_id', as: 'blockedUser' });
+
+// User Report Associations
+User.hasMany(UserReport, { foreignKey: 'reporter_id', as: 'reportsFiled', onDelete: 'CASCADE' });
+User.hasMany(UserReport, { foreignKey: 'reported_id', as: 'reportsReceived', onDelete: 'CASCADE' });
+UserReport.belongsTo(User, { foreignKey: 'reporter_id', as: 'reporter' });
+UserReport.belongsTo(User, { foreignKey: 'reported_id', as: 'reportedUser' });
+
+// Per-user Chat Settings Associations
+Chat.hasMany(ChatSetting, { foreignKey: 'chat_id', as: 'settings', onDelete: 'CASCADE' });
+ChatSetting.belongsTo(Chat, { foreignKey: 'chat_id', as: 'chat' });
+User.hasMany(ChatSetting, { foreignKey: 'user_id', as: 'chatSettings', onDelete: 'CASCADE' });
+ChatSetting.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+// Group Chat Associations
+Chat.hasMany(ChatParticipant, { foreignKey: 'chat_id', as: 'participants', onDelete: 'CASCADE' });
+ChatParticipant.belongsTo(Chat, { foreignKey: 'chat_id', as: 'chat' });
+User.hasMany(ChatParticipant, { foreignKey: 'user_id', as: 'chatMemberships', onDelete: 'CASCADE' });
+ChatParticipant.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+Chat.belongsTo(User, { foreignKey: 'owner_id', as: 'owner' });
+Chat.belongsTo(JobPosting, { foreignKey: 'job_id', as: 'jobPosting' });
+JobPosting.hasMany(Chat, { foreignKey: 'job_id', as: 'groupChats', onDelete: 'SET NULL' });
+
+// Message Reaction Associations
+Message.hasMany(MessageReaction, { foreignKey: 'message_id', as: 'reactions', onDelete: 'CASCADE' });
+MessageReaction.belongsTo(Message, { foreignKey: 'message_id', as: 'message' });
+User.hasMany(MessageReaction, { foreignKey: 'user_id', as: 'messageReactions', onDelete: 'CASCADE' });
+MessageReaction.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+// Message Template Associations
+User.hasMany(MessageTemplate, { foreignKey: 'user_id', as: 'messageTemplates', onDelete: 'CASCADE' });
+MessageTemplate.belongsTo(User, { foreignKey: 'user_id', as: 'user' });
+
+// Scheduled Message Associations
+Chat.hasMany(ScheduledMessage, { foreignKey: 'chat_id', as: 'scheduledMessages', onDelete: 'CASCADE' });
+ScheduledMessage.belongsTo(Chat, { foreignKey: 'chat_id', as: 'chat' });
+User.hasMany(ScheduledMessage, { foreignKey: 'sender_id', as: 'scheduledMessages', onDelete: 'CASCADE' });
+ScheduledMessage.belongsTo(User, { foreignKey: 'sender_id', as: 'sender' });
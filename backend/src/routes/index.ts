@@ -2,15 +2,19 @@
 import { Router } from 'express';
 // REMOVED: import fs from 'fs'; // No longer needed
 import { Server } from 'socket.io'; // <-- Add this import
+import { OnlineUsersMap } from '../utils/socketHelpers';
 
 // REMOVED: import path from 'path'; // No longer needed unless used elsewhere in routes
 import * as userController from '../controllers/userController';
+import * as userBlockController from '../controllers/userBlockController';
 import * as artistController from '../controllers/artistController'; // Ensure imported
 import * as employerController from '../controllers/employerController'; // Ensure imported
 import * as jobPostingController from '../controllers/jobPostingController';
 import * as chatController from '../controllers/chatController';
+import * as groupChatController from '../controllers/groupChatController';
+import * as messageTemplateController from '../controllers/messageTemplateController';
 //import * as reviewController from '../controllers/reviewController'; // Keep commented if not used
-import { authenticate } from '../middleware/authMiddleware';
+import { authenticate, optionalAuthenticate } from '../middleware/authMiddleware';
 // REMOVED: import { uploadProfilePicture } from '../controllers/artistController'; // Correctly removed
 import * as portfolioController from '../controllers/portfolioController';
 // REMOVED: import { upload } from '../controllers/portfolioController'; // Correctly removed
@@ -18,6 +22,7 @@ import * as reviewController from '../controllers/reviewController';
 import * as artistSupportController from '../controllers/artistSupportController';
 import * as artistCommentController from '../controllers/artistCommentController'; // <<< ADD THIS
 import { isAdmin } from '../middleware/adminMiddleware';
+import { requireVerifiedEmail } from '../middleware/verifiedEmailMiddleware';
 import * as adminController from '../controllers/adminController';
 import { getAllCategories } from '../controllers/category.controller';
 
@@ -42,7 +47,7 @@ import {
 
 // ***** REMOVED: Ensure the "uploads" folder exists *****
 
-export default (io: Server, onlineUsers: Map<number, string>) => {
+export default (io: Server, onlineUsers: OnlineUsersMap) => {
   const router = Router();
 
   router.use((req, _res, next) => {
@@ -100,12 +105,28 @@ router.get(
 // --- User routes ---
 router.post('/users/register', userController.createUser);
 router.post('/users/login', userController.loginUser);
+router.post('/users/token/refresh', userController.refreshAccessToken);
+router.post('/users/logout', authenticate, userController.logoutUser);
+router.post('/users/logout-all', authenticate, userController.logoutAllDevices);
+router.post('/users/password/forgot', userController.forgotPassword);
+router.post('/users/password/reset', userController.resetPassword);
+router.get('/users/verify-email', userController.verifyEmail);
+router.post('/users/verify-email/resend', authenticate, userController.resendVerificationEmail);
 router.get('/users/me', authenticate, userController.getCurrentUser);
 router.put('/users/:id', authenticate, userController.updateUser); // Note: Check authorization in controller if allowing update by ID param
 router.post("/users/get-names", userController.getUserNames);
 router.get('/users/profile/:userId', authenticate, userController.getUserProfile);
 router.post('/users/:userId/like', authenticate, userController.toggleLike);
 router.get('/users/:userId/like', authenticate, userController.checkLike);
+router.get('/users/:userId/presence', authenticate, userController.getUserPresence);
+router.post('/users/:userId/block', authenticate, userBlockController.blockUser);
+router.delete('/users/:userId/block', authenticate, userBlockController.unblockUser);
+router.get('/users/me/blocks', authenticate, userBlockController.getMyBlocks);
+router.put('/users/me/email-preferences', authenticate, userController.updateEmailPreferences);
+router.get('/users/me/message-templates', authenticate, messageTemplateController.getMyTemplates);
+router.post('/users/me/message-templates', authenticate, messageTemplateController.createTemplate);
+router.put('/users/me/message-templates/:templateId', authenticate, messageTemplateController.updateTemplate);
+router.delete('/users/me/message-templates/:templateId', authenticate, messageTemplateController.deleteTemplate);
 // --- NEW ACCOUNT MANAGEMENT ROUTES (Now correctly grouped) ---
 router.put('/users/update-email', authenticate, userController.updateUserEmail);
 router.put('/users/update-password', authenticate, userController.updateUserPassword);
@@ -167,9 +188,125 @@ router.post(
 router.post(
   '/chats/send', 
   authenticate, 
+  requireVerifiedEmail,
   chatController.sendMessage
 );
 
+// Sends a message with file attachments (multipart field 'files')
+router.post(
+  '/chats/:chat_id/attachments',
+  authenticate,
+  requireVerifiedEmail,
+  upload.array('files', chatController.MAX_ATTACHMENTS_PER_MESSAGE),
+  chatController.sendAttachmentMessage
+);
+
+// Edits / unsends one of your own messages
+router.put(
+  '/chats/messages/:message_id',
+  authenticate,
+  chatController.editMessage
+);
+router.delete(
+  '/chats/messages/:message_id',
+  authenticate,
+  chatController.deleteMessage
+);
+
+// React to a message / remove your reaction
+router.post(
+  '/chats/messages/:message_id/reactions',
+  authenticate,
+  chatController.addReaction
+);
+router.delete(
+  '/chats/messages/:message_id/reactions',
+  authenticate,
+  chatController.removeReaction
+);
+
+// Schedule a message for later / list or cancel your pending ones
+router.post(
+  '/chats/:chat_id/scheduled-messages',
+  authenticate,
+  requireVerifiedEmail,
+  chatController.scheduleMessage
+);
+router.get(
+  '/chats/:chat_id/scheduled-messages',
+  authenticate,
+  chatController.getScheduledMessages
+);
+router.delete(
+  '/chats/scheduled-messages/:scheduled_id',
+  authenticate,
+  chatController.cancelScheduledMessage
+);
+
+// Short-lived signed URL for an attachment (chat participants only)
+router.get(
+  '/chats/attachments/:attachment_id',
+  authenticate,
+  chatController.getAttachmentUrl
+);
+
+// Marks received messages of a chat as read (up to a message_id)
+router.post(
+  '/chats/:chat_id/read',
+  authenticate,
+  chatController.markChatAsRead
+);
+
+// Group chats: members, add (owner), join (hired artists), leave
+router.get(
+  '/chats/:chat_id/participants',
+  authenticate,
+  groupChatController.getGroupParticipants
+);
+router.post(
+  '/chats/:chat_id/participants',
+  authenticate,
+  groupChatController.addGroupParticipant
+);
+router.post(
+  '/chats/:chat_id/join',
+  authenticate,
+  groupChatController.joinGroupChat
+);
+router.post(
+  '/chats/:chat_id/leave',
+  authenticate,
+  groupChatController.leaveGroupChat
+);
+
+// Archive / mute / pin a chat (per user)
+router.put(
+  '/chats/:chat_id/settings',
+  authenticate,
+  chatController.updateChatSettings
+);
+
+// Total unread messages for the nav badge
+router.get(
+  '/chats/unread-count',
+  authenticate,
+  chatController.getUnreadCount
+);
+
+// Full-text search across the logged-in user's messages
+router.get(
+  '/chats/search',
+  authenticate,
+  chatController.searchMessages
+);
+
+// Downloads a chat transcript (pdf, txt or json)
+router.get(
+  '/chats/:chat_id/export',
+  authenticate,
+  chatController.exportChat
+);
+
 // Gets all messages for a specific chat
 router.get(
   '/chats/:chat_id/messages', 
@@ -198,7 +335,7 @@ router.get('/users/:userId/average-rating', reviewController.getAverageRatingFor
 router.get('/users/:userId/reviews', reviewController.getReviewsForUser); // Publicly viewable? Add authenticate if needed
 
 // --- Location routes ---
-router.get('/locations', getLocations); // Public maybe? Or add authenticate
+router.get('/locations', optionalAuthenticate, getLocations); // Public maybe? Or add authenticate
 
 // --- ARTIST PROFILE COMMENTS / VIEWPOINTS ROUTES ---
 router.get(
@@ -235,6 +372,8 @@ router.get('/admin/users/:userId', authenticate, isAdmin, adminController.getUse
 router.delete('/admin/users/:userId', authenticate, isAdmin, adminController.deleteUserByAdmin);
 router.get('/admin/reviews', authenticate, isAdmin, adminController.getAllReviews);
 router.get('/admin/comments', authenticate, isAdmin, adminController.getAllArtistComments);
+router.get('/admin/messages/flagged', authenticate, isAdmin, adminController.getFlaggedMessages);
+router.put('/admin/messages/:messageId/moderation', authenticate, isAdmin, adminController.moderateMessage);
 
 router.delete('/admin/reviews/:reviewId', authenticate, isAdmin, adminController.deleteReviewByAdmin);
 router.delete('/admin/comments/:commentId', authenticate, isAdmin, adminController.deleteArtistCommentByAdmin);
@@ -247,14 +386,22 @@ router.delete('/admin/portfolios/:portfolioId', authenticate, isAdmin, adminCont
 router.get('/admin/jobs', authenticate, isAdmin, adminController.getAllJobPostings);
 router.delete('/admin/jobs/:jobId', authenticate, isAdmin, adminController.deleteJobPostingByAdmin);
 
-router.post('/job-postings', authenticate, jobPostingController.createJobPosting);
+router.get('/admin/reports', authenticate, isAdmin, adminController.getAllReports);
+router.put('/admin/reports/:reportId', authenticate, isAdmin, adminController.updateReportStatus);
+
+router.post('/job-postings', authenticate, requireVerifiedEmail, jobPostingController.createJobPosting);
+router.post('/job-postings/:jobId/group-chat', authenticate, groupChatController.createJobGroupChat);
 router.get('/job-postings', authenticate, jobPostingController.getAllJobPostings);
 router.get('/job-postings/my', authenticate, jobPostingController.getMyJobPostings); // For employers to see their own jobs
 router.get('/job-postings/employer', authenticate, jobPostingController.getJobPostingsByEmployerId);
 router.get('/job-postings/:job_id', authenticate, jobPostingController.getJobPostingById);
 router.put('/job-postings/:job_id', authenticate, jobPostingController.updateJobPosting);
 router.delete('/job-postings/:job_id', authenticate, jobPostingController.deleteJobPosting);
-router.post('/job-postings/:jobId/apply', authenticate, jobPostingController.applyToJob); // Route for an artist to apply
+router.post('/job-postings/:jobId/apply', authenticate, requireVerifiedEmail, upload.single('cv'), jobPostingController.applyToJob); // Route for an artist to apply (optional 'cv' PDF)
+router.delete('/job-postings/:jobId/apply', authenticate, jobPostingController.withdrawApplication); // Artist withdraws; can apply again later
+router.get('/job-postings/:job_id/applications', authenticate, jobPostingController.getJobApplications); // Employer: applicants of one of their jobs
+router.get('/applications/:application_id', authenticate, jobPostingController.getApplicationById); // Employer: opening it marks it viewed
+router.patch('/applications/:application_id/status', authenticate, jobPostingController.updateApplicationStatus);
 return router;
 
 };
\ No newline at end of file
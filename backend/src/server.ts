@@ -11,6 +11,13 @@ import { Server } from 'socket.io';
 
 dotenv.config();
 import './models/associations';
+import { authenticateSocket, watchSocketSession } from './middleware/socketAuth';
+import { findChatForParticipant, chatRoom } from './utils/chatAccess';
+import { OnlineUsersMap, sessionRoom } from './utils/socketHelpers';
+import { addUserSocket, removeUserSocket, broadcastPresenceChange } from './utils/presence';
+import { registerTypingHandlers } from './utils/typing';
+import { startMessageDigestJob } from './utils/messageDigest';
+import { startScheduledMessageJob } from './utils/scheduledMessages';
 
 /* -------------------------------------------------------------------------- */
 /* 1.  Cloudinary – όπως ήταν                                                 */
@@ -48,7 +55,7 @@ app.use(
       !origin || allowedOrigins.includes(origin)
         ? cb(null, true)
         : cb(new Error(`CORS: Origin ${origin} not allowed.`)),
-    methods     : ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods     : ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     credentials : true            // ← αφορά ΜΟΝΟ τα API endpoints
   })
 );
@@ -71,23 +78,49 @@ const io = new Server(server, {
 
 
 /* ------------------------ online users map ------------------------------- */
-const onlineUsers = new Map<number, string>();
+// userId -> όλα τα ανοιχτά sockets του (πολλά tabs / συσκευές)
+const onlineUsers: OnlineUsersMap = new Map();
 
-io.on('connection', (socket) => {
-  console.log(`🔌  user connected ${socket.id}`);
-
-  socket.on('add_user', (userId: number) => {
-    onlineUsers.set(userId, socket.id);
-    socket.join(`user-${userId}`);          // ⭐ πρόσθεσέ το → μπαίνει σε προσωπικό room
+/* Κάθε socket πρέπει να φέρει το ίδιο JWT με τα REST calls ------------------ */
+io.use(authenticateSocket);
 
-    console.log(`user ${userId} ↔ socket ${socket.id}`);
+io.on('connection', (socket) => {
+  const userId: number = socket.data.user.id;      // από το token, ΟΧΙ από τον client
+
+  socket.join(`user-${userId}`);                    // προσωπικό room
+  socket.join(sessionRoom(socket.data.user.sid));   // για αποσύνδεση όταν ανακληθεί το session
+  watchSocketSession(socket);
+  if (addUserSocket(onlineUsers, userId, socket.id)) {
+    broadcastPresenceChange(io, userId, true)
+      .catch((err) => console.error('❌  presence broadcast failed:', err));
+  }
+  console.log(`🔌  user ${userId} ↔ socket ${socket.id}`);
+
+  // Legacy: older clients still emit add_user – the id they send is ignored.
+  socket.on('add_user', () => {});
+
+  socket.on('join_chat', async (chatId: string | number, ack?: (res: { ok: boolean; error?: string }) => void) => {
+    try {
+      const chat = await findChatForParticipant(chatId, userId);
+      if (!chat) {
+        ack?.({ ok: false, error: 'Not a participant.' });
+        return;
+      }
+      socket.join(chatRoom(chat.chat_id));
+      ack?.({ ok: true });
+    } catch (err) {
+      console.error('❌  join_chat failed:', err);
+      ack?.({ ok: false, error: 'Internal server error.' });
+    }
   });
 
-  socket.on('join_chat', (chatId: string) => socket.join(chatId));
+  // typing_start / typing_stop
+  registerTypingHandlers(socket, userId);
 
   socket.on('disconnect', () => {
-    for (const [uid, sid] of onlineUsers.entries()) {
-      if (sid === socket.id) onlineUsers.delete(uid);
+    if (removeUserSocket(onlineUsers, userId, socket.id)) {
+      broadcastPresenceChange(io, userId, false)
+        .catch((err) => console.error('❌  presence broadcast failed:', err));
     }
     console.log(`🔥  socket disconnected ${socket.id}`);
   });
@@ -108,3 +141,9 @@ app.use((err: any, _req, res, _next) => {
 
 const PORT = process.env.PORT || 5001;
 server.listen(PORT, () => console.log(`🚀  running on ${PORT}`));
+
+// Email digest για μηνύματα που έμειναν αδιάβαστα όσο ο χρήστης ήταν offline
+startMessageDigestJob(onlineUsers);
+
+// Προγραμματισμένα μηνύματα: αποστολή όταν έρθει η ώρα τους
+startScheduledMessageJob(io, onlineUsers);
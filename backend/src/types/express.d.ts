@@ -1,5 +1,6 @@
 import { Request } from 'express';
 import { Server } from 'socket.io';          // 👈 προσθήκη
+import { OnlineUsersMap } from '../utils/socketHelpers';
 
 export interface CustomRequest extends Request {
   body: any;
@@ -13,6 +14,6 @@ export interface CustomRequest extends Request {
 
   /** Socket.IO instance που έρχεται από το middleware */
   io?: Server;
-  /** Πίνακας online χρηστών (userId ➜ socketId) */
-  onlineUsers?: Map<number, string>;
+  /** Πίνακας online χρηστών (userId ➜ socketIds) */
+  onlineUsers?: OnlineUsersMap;
 }
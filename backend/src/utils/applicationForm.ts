@@ -0,0 +1,96 @@
+// src/utils/applicationForm.ts
+/**
+ *  The optional part of POST /job-postings/:jobId/apply. The endpoint takes
+ *  JSON or multipart/form-data (when a `cv` file is attached), so every field
+ *  may arrive as a string:
+ *
+ *    cover_letter        free text, up to MAX_COVER_LETTER_LENGTH characters
+ *    proposed_rate       non-negative amount
+ *    available_from/available_to
+ *                        YYYY-MM-DD
+ *    portfolio_item_ids  ids of the artist's own portfolio items: an array,
+ *                        a JSON array or a comma separated list
+ */
+
+export const MAX_COVER_LETTER_LENGTH = 5000;
+export const MAX_APPLICATION_PORTFOLIO_ITEMS = 10;
+const MAX_PROPOSED_RATE = 99999999.99;     // DECIMAL(10, 2)
+
+export interface ApplicationForm {
+  cover_letter: string | null;
+  proposed_rate: number | null;
+  available_from: string | null;
+  available_to: string | null;
+  portfolio_item_ids: number[] | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const asString = (raw: unknown): string | undefined =>
+  typeof raw === 'string' && raw.trim() ? raw.trim() : typeof raw === 'number' ? String(raw) : undefined;
+
+const asDate = (raw: unknown): string | null | undefined => {
+  const value = asString(raw);
+  if (value === undefined) return undefined;
+  return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime()) ? value : null;
+};
+
+const asIdList = (raw: unknown): number[] | null | undefined => {
+  let list: unknown = raw;
+  if (typeof raw === 'string') {
+    const value = raw.trim();
+    if (!value) return undefined;
+    try {
+      list = value.startsWith('[') ? JSON.parse(value) : value.split(',');
+    } catch {
+      return null;
+    }
+  }
+  if (list === undefined || list === null) return undefined;
+  if (!Array.isArray(list)) return null;
+
+  const ids = list.map((v) => Number(typeof v === 'string' ? v.trim() : v));
+  return ids.every((id) => Number.isInteger(id) && id > 0) ? Array.from(new Set(ids)) : null;
+};
+
+/**
+ * Validates the application fields. Returns the first problem as `error`
+ * (for a 400) or the normalized values, unset fields as null.
+ */
+export const parseApplicationForm = (body: Record<string, unknown>): { error: string } | { value: ApplicationForm } => {
+  const coverLetter = asString(body.cover_letter) ?? null;
+  if (coverLetter && coverLetter.length > MAX_COVER_LETTER_LENGTH) {
+    return { error: `The cover letter cannot be longer than ${MAX_COVER_LETTER_LENGTH} characters.` };
+  }
+
+  const rate = asString(body.proposed_rate);
+  const proposedRate = rate === undefined ? null : Number(rate);
+  if (proposedRate !== null && !(isFinite(proposedRate) && proposedRate >= 0 && proposedRate <= MAX_PROPOSED_RATE)) {
+    return { error: 'proposed_rate must be a non-negative amount.' };
+  }
+
+  const availableFrom = asDate(body.available_from);
+  const availableTo = asDate(body.available_to);
+  if (availableFrom === null || availableTo === null) {
+    return { error: 'available_from and available_to must be dates (YYYY-MM-DD).' };
+  }
+  if (availableFrom && availableTo && availableFrom > availableTo) {
+    return { error: 'available_from cannot be after available_to.' };
+  }
+
+  const portfolioItemIds = asIdList(body.portfolio_item_ids);
+  if (portfolioItemIds === null) return { error: 'portfolio_item_ids must be a list of portfolio item ids.' };
+  if (portfolioItemIds && portfolioItemIds.length > MAX_APPLICATION_PORTFOLIO_ITEMS) {
+    return { error: `You can attach at most ${MAX_APPLICATION_PORTFOLIO_ITEMS} portfolio items.` };
+  }
+
+  return {
+    value: {
+      cover_letter      : coverLetter,
+      proposed_rate     : proposedRate === null ? null : Math.round(proposedRate * 100) / 100,
+      available_from    : availableFrom ?? null,
+      available_to      : availableTo ?? null,
+      portfolio_item_ids: portfolioItemIds && portfolioItemIds.length > 0 ? portfolioItemIds : null,
+    },
+  };
+};
@@ -0,0 +1,75 @@
+// src/utils/applicationWorkflow.ts
+/**
+ *  How an employer moves a job application through its statuses, and the
+ *  notification the artist gets each time it moves.
+ *
+ *    pending ─► viewed ─► shortlisted ─► hired
+ *       │         │            │
+ *       └─────────┴────────────┴──► rejected ─► shortlisted (reconsidered)
+ *
+ *  Any open application can also be hired or rejected directly. `viewed` is
+ *  only ever set automatically, the first time the employer opens it.
+ *  `hired` is final.
+ *
+ *  The artist can withdraw an application that is still open; it then drops
+ *  out of the employer's list until the artist applies again.
+ */
+import { Server } from 'socket.io';
+import Notification from '../models/Notification';
+import JobApplication, { ApplicationStatus } from '../models/JobApplication';
+import JobPosting from '../models/JobPosting';
+import { OnlineUsersMap, pushNotification } from './socketHelpers';
+
+export const APPLICATION_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  pending    : ['viewed', 'shortlisted', 'rejected', 'hired'],
+  viewed     : ['shortlisted', 'rejected', 'hired'],
+  shortlisted: ['rejected', 'hired'],
+  rejected   : ['shortlisted'],
+  hired      : [],
+  withdrawn  : [],
+};
+
+/** Statuses an employer may pick by hand (PATCH /applications/:id/status). */
+export const MANUAL_APPLICATION_STATUSES: readonly ApplicationStatus[] = ['shortlisted', 'rejected', 'hired'];
+
+export const canTransition = (from: ApplicationStatus, to: ApplicationStatus): boolean =>
+  APPLICATION_TRANSITIONS[from].includes(to);
+
+/** Statuses the artist can still withdraw from. */
+export const WITHDRAWABLE_APPLICATION_STATUSES: readonly ApplicationStatus[] = ['pending', 'viewed', 'shortlisted'];
+
+/** Open for applications until the end of its deadline day (no deadline: always). */
+export const isAcceptingApplications = (jobPosting: Pick<JobPosting, 'application_deadline'>): boolean => {
+  if (!jobPosting.application_deadline) return true;
+  const deadline = new Date(jobPosting.application_deadline);
+  deadline.setHours(23, 59, 59, 999);
+  return Date.now() <= deadline.getTime();
+};
+
+/**
+ * Stores the "your application is now X" notification for the artist and
+ * pushes it live. The job title comes from `application.jobPostingDetails`
+ * unless given.
+ */
+export const notifyApplicationStatusChange = async (
+  io: Server,
+  onlineUsers: OnlineUsersMap,
+  application: JobApplication,
+  employerUserId: number,
+  jobTitle = application.jobPostingDetails?.title ?? ''
+): Promise<void> => {
+  const frontBase = process.env.FRONTEND_URL || 'https://artepovera2.vercel.app';
+
+  const notif = await Notification.create({
+    user_id       : application.artist_user_id,
+    sender_id     : employerUserId,
+    message_key   : 'notifications.applicationStatusChanged',
+    message_params: {
+      jobTitle,
+      status  : application.status,
+      jobLink : `${frontBase}/jobs/${application.job_id}`,
+    },
+  });
+
+  pushNotification(io, onlineUsers, application.artist_user_id, notif.toJSON());
+};
@@ -0,0 +1,161 @@
+// src/utils/authTokens.ts
+/**
+ *  Access / refresh token handling.
+ *
+ *  - The access token is a short-lived JWT that carries the `sid` of the
+ *    session it was issued for. `authenticate` rejects it as soon as that
+ *    session is revoked, so logout and password changes take effect at once.
+ *  - The refresh token has the shape `<session_id>.<random hex>`. Only its
+ *    SHA-256 hash is stored and it is rotated on every use. Presenting an
+ *    old (already rotated) refresh token revokes the whole session, since
+ *    that means the token was copied.
+ */
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Op, Transaction } from 'sequelize';
+import Session from '../models/Session';
+import User from '../models/User';
+import type { DecodedToken } from '../middleware/authMiddleware';
+
+const JWT_SECRET = () => process.env.JWT_SECRET || 'default_secret';
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export interface IssuedTokens {
+  token: string;          // access token (kept as `token` for the existing frontend)
+  refreshToken: string;
+}
+
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const generateSecret = (): string => crypto.randomBytes(32).toString('hex');
+
+const signAccessToken = (user: Pick<User, 'user_id' | 'username' | 'user_type'>, sessionId: number): string =>
+  jwt.sign(
+    { id: user.user_id, username: user.username, user_type: user.user_type, sid: sessionId },
+    JWT_SECRET(),
+    { expiresIn: ACCESS_TOKEN_TTL } as jwt.SignOptions
+  );
+
+const refreshExpiry = (): Date => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Opens a new session for the user (login / register) and returns both tokens.
+ */
+export const createSession = async (
+  user: Pick<User, 'user_id' | 'username' | 'user_type'>,
+  userAgent?: string | null,
+  transaction?: Transaction
+): Promise<IssuedTokens> => {
+  const secret = generateSecret();
+  const session = await Session.create({
+    user_id: user.user_id,
+    refresh_token_hash: hashToken(secret),
+    user_agent: userAgent ? userAgent.slice(0, 255) : null,
+    expires_at: refreshExpiry(),
+  }, { transaction });
+
+  return {
+    token: signAccessToken(user, session.session_id),
+    refreshToken: `${session.session_id}.${secret}`,
+  };
+};
+
+/**
+ * Exchanges a refresh token for a new access/refresh pair.
+ * Returns `null` when the token is unknown, expired, revoked or re-used.
+ */
+export const rotateRefreshToken = async (refreshToken: string): Promise<IssuedTokens | null> => {
+  const [sessionIdPart, secret] = String(refreshToken).split('.');
+  const sessionId = Number(sessionIdPart);
+  if (!sessionId || !secret) return null;
+
+  const session = await Session.findByPk(sessionId, {
+    include: [{ model: User, as: 'user', attributes: ['user_id', 'username', 'user_type'] }],
+  });
+  if (!session || !session.user || session.revoked_at || session.expires_at <= new Date()) {
+    return null;
+  }
+
+  const presentedHash = hashToken(secret);
+  const stored = Buffer.from(session.refresh_token_hash);
+  const presented = Buffer.from(presentedHash);
+  if (stored.length !== presented.length || !crypto.timingSafeEqual(stored, presented)) {
+    // An already rotated token was replayed -> treat the session as compromised.
+    await session.update({ revoked_at: new Date() });
+    return null;
+  }
+
+  // Only rotates if nobody rotated it since we read it: of two concurrent
+  // refreshes with the same token exactly one wins, the other gets null
+  // (without revoking the session, it's a race rather than a replay).
+  const nextSecret = generateSecret();
+  const [rotated] = await Session.update(
+    {
+      refresh_token_hash: hashToken(nextSecret),
+      last_used_at: new Date(),
+      expires_at: refreshExpiry(),
+    },
+    { where: { session_id: session.session_id, refresh_token_hash: presentedHash, revoked_at: null } }
+  );
+  if (rotated === 0) return null;
+
+  return {
+    token: signAccessToken(session.user, session.session_id),
+    refreshToken: `${session.session_id}.${nextSecret}`,
+  };
+};
+
+/**
+ * Revokes a single session (logout on this device).
+ */
+export const revokeSession = async (sessionId: number, userId: number): Promise<void> => {
+  await Session.update(
+    { revoked_at: new Date() },
+    { where: { session_id: sessionId, user_id: userId, revoked_at: null } }
+  );
+};
+
+/**
+ * Revokes every session of a user (logout everywhere, password change, account deletion).
+ */
+export const revokeAllSessions = async (userId: number, transaction?: Transaction): Promise<void> => {
+  await Session.update(
+    { revoked_at: new Date() },
+    { where: { user_id: userId, revoked_at: null }, transaction }
+  );
+};
+
+/**
+ * True while the session is neither revoked nor expired. Open sockets
+ * re-check it once their access token expires (middleware/socketAuth.ts).
+ */
+export const isSessionActive = async (sessionId: number, userId: number): Promise<boolean> => {
+  const session = await Session.findOne({
+    where: {
+      session_id: sessionId,
+      user_id: userId,
+      revoked_at: null,
+      expires_at: { [Op.gt]: new Date() },
+    },
+    attributes: ['session_id'],
+  });
+  return !!session;
+};
+
+/**
+ * Verifies an access token and checks that its session is still active.
+ * Shared by the HTTP `authenticate` middleware and the socket handshake.
+ */
+export const verifyAccessToken = async (token: string): Promise<DecodedToken | null> => {
+  let decoded: DecodedToken;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET()) as DecodedToken;
+  } catch {
+    return null;
+  }
+  if (!decoded?.id || !decoded.sid) return null;   // tokens issued before sessions existed
+
+  return (await isSessionActive(decoded.sid, decoded.id)) ? decoded : null;
+};
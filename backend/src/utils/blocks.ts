@@ -0,0 +1,37 @@
+// src/utils/blocks.ts
+/**
+ *  Block checks shared by the REST controllers and the Socket.IO handlers.
+ *  A block works both ways: neither side can contact or find the other.
+ */
+import { Op } from 'sequelize';
+import UserBlock from '../models/UserBlock';
+
+/** True if either user has blocked the other. */
+export const isBlockedBetween = async (userA: number, userB: number): Promise<boolean> => {
+  const block = await UserBlock.findOne({
+    where: {
+      [Op.or]: [
+        { blocker_id: userA, blocked_id: userB },
+        { blocker_id: userB, blocked_id: userA },
+      ],
+    },
+    attributes: ['block_id'],
+  });
+  return !!block;
+};
+
+/** Users hidden from `userId`: the ones they blocked and the ones who blocked them. */
+export const getHiddenUserIds = async (userId: number): Promise<number[]> => {
+  const blocks = await UserBlock.findAll({
+    where: { [Op.or]: [{ blocker_id: userId }, { blocked_id: userId }] },
+    attributes: ['blocker_id', 'blocked_id'],
+  });
+  return Array.from(new Set(blocks.map((b) => (b.blocker_id === userId ? b.blocked_id : b.blocker_id))));
+};
+
+/** `where` fragment excluding the hidden users; empty when there are none. */
+export const excludeHiddenUsers = async (userId: number | undefined, column = 'user_id') => {
+  if (!userId) return {};
+  const hidden = await getHiddenUserIds(userId);
+  return hidden.length ? { [column]: { [Op.notIn]: hidden } } : {};
+};
@@ -0,0 +1,71 @@
+// src/utils/chatAccess.ts
+/**
+ *  Who may see / write to a chat. Shared by the chat controller and the
+ *  Socket.IO handlers so that both enforce the same rule.
+ *
+ *  Direct chats: user1_id and user2_id. Group chats: the rows of
+ *  `chat_participants`.
+ */
+import { Op } from 'sequelize';
+import sequelize from '../config/db';
+import Chat from '../models/Chat';
+import ChatParticipant from '../models/ChatParticipant';
+
+const CHAT_ACCESS_ATTRIBUTES = ['chat_id', 'chat_type', 'user1_id', 'user2_id', 'owner_id'];
+
+type ChatMembers = Pick<Chat, 'chat_id' | 'chat_type' | 'user1_id' | 'user2_id'>;
+
+/** Room name used for a chat's realtime events. */
+export const chatRoom = (chatId: number | string) => String(chatId);
+
+/** Direct chats only – no DB access needed. */
+export const isParticipant = (chat: Pick<Chat, 'user1_id' | 'user2_id'>, userId: number): boolean =>
+  chat.user1_id === userId || chat.user2_id === userId;
+
+/** Works for both chat types. */
+export const canAccessChat = async (chat: ChatMembers, userId: number): Promise<boolean> => {
+  if (chat.chat_type !== 'group') return isParticipant(chat, userId);
+  const membership = await ChatParticipant.findOne({
+    where: { chat_id: chat.chat_id, user_id: userId },
+    attributes: ['participant_id'],
+  });
+  return !!membership;
+};
+
+/**
+ * Loads the chat and returns it only if `userId` takes part in it.
+ */
+export const findChatForParticipant = async (chatId: number | string, userId: number): Promise<Chat | null> => {
+  const numericChatId = Number(chatId);
+  if (!numericChatId || Number.isNaN(numericChatId)) return null;
+
+  const chat = await Chat.findByPk(numericChatId, { attributes: CHAT_ACCESS_ATTRIBUTES });
+  return chat && await canAccessChat(chat, userId) ? chat : null;
+};
+
+/** Everyone in the chat except `userId` – the audience of their messages. */
+export const getOtherParticipantIds = async (chat: ChatMembers, userId: number): Promise<number[]> => {
+  if (chat.chat_type !== 'group') {
+    return [chat.user1_id === userId ? chat.user2_id : chat.user1_id];
+  }
+  const members = await ChatParticipant.findAll({
+    where: { chat_id: chat.chat_id, user_id: { [Op.ne]: userId } },
+    attributes: ['user_id'],
+  });
+  return members.map((m) => m.user_id);
+};
+
+/** `where` fragment on `Chat`: every chat (direct or group) the user is in. */
+export const userChatsWhere = (userId: number) => ({
+  [Op.or]: [
+    { user1_id: userId },
+    { user2_id: userId },
+    {
+      chat_id: {
+        [Op.in]: sequelize.literal(
+          `(SELECT chat_id FROM chat_participants WHERE user_id = ${sequelize.escape(userId)})`
+        ),
+      },
+    },
+  ],
+});
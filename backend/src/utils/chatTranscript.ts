@@ -0,0 +1,173 @@
+// src/utils/chatTranscript.ts
+/**
+ *  Builds a chat transcript (participants, every message with its timestamp,
+ *  edit/unsend markers and attachment references) and renders it as JSON,
+ *  plain text or PDF for GET /chats/:chat_id/export.
+ *
+ *  PDFs use the bundled DejaVu Sans, since the built-in PDF fonts only cover
+ *  Latin-1 and would garble Greek text. TRANSCRIPT_FONT_PATH can point to
+ *  another TTF instead.
+ */
+import PDFDocument from 'pdfkit';
+import { Op } from 'sequelize';
+import Chat from '../models/Chat';
+import Message from '../models/Message';
+import MessageAttachment from '../models/MessageAttachment';
+import ChatParticipant from '../models/ChatParticipant';
+import User from '../models/User';
+import { visibleMessagesWhere } from './messageFilter';
+
+// Resolved on startup so a missing font fails loudly instead of garbling PDFs
+const TRANSCRIPT_FONT = process.env.TRANSCRIPT_FONT_PATH || require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+
+export const TRANSCRIPT_FORMATS = ['pdf', 'txt', 'json'] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+export interface TranscriptAttachment {
+  attachment_id: number;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+}
+
+export interface TranscriptMessage {
+  message_id: number;
+  sender_id: number;
+  sender_name: string;
+  sent_at: Date;
+  edited_at: Date | null;
+  deleted: boolean;
+  text: string | null;
+  attachments: TranscriptAttachment[];
+}
+
+export interface Transcript {
+  chat_id: number;
+  chat_type: string;
+  title: string | null;
+  participants: { user_id: number; fullname: string; user_type: string }[];
+  exported_at: Date;
+  exported_by: number;
+  messages: TranscriptMessage[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*  1. Data                                                                   */
+/* -------------------------------------------------------------------------- */
+
+/** Messages held back for review are left out unless `includeHidden` (admins). */
+export const buildTranscript = async (chat: Chat, exportedBy: number, includeHidden = false): Promise<Transcript> => {
+  let participantIds: number[];
+  if (chat.chat_type === 'group') {
+    const members = await ChatParticipant.findAll({ where: { chat_id: chat.chat_id }, attributes: ['user_id'] });
+    participantIds = members.map((m) => m.user_id);
+  } else {
+    participantIds = [chat.user1_id, chat.user2_id];
+  }
+
+  const messages = await Message.findAll({
+    where: {
+      chat_id: chat.chat_id,
+      ...(includeHidden ? {} : { [Op.and]: [visibleMessagesWhere(exportedBy)] }),
+    },
+    include: [{
+      model: MessageAttachment,
+      as: 'attachments',
+      attributes: ['attachment_id', 'file_name', 'mime_type', 'size_bytes'],
+    }],
+    order: [['message_id', 'ASC']],
+  });
+
+  // Former group members still appear as senders, so load everyone involved
+  const userIds = Array.from(new Set([...participantIds, ...messages.map((m) => m.sender_id)]));
+  const users = await User.findAll({ where: { user_id: userIds }, attributes: ['user_id', 'fullname', 'user_type'] });
+  const names = new Map(users.map((u) => [u.user_id, u.fullname]));
+
+  return {
+    chat_id: chat.chat_id,
+    chat_type: chat.chat_type,
+    title: chat.title ?? null,
+    participants: users
+      .filter((u) => participantIds.includes(u.user_id))
+      .map((u) => ({ user_id: u.user_id, fullname: u.fullname, user_type: u.user_type })),
+    exported_at: new Date(),
+    exported_by: exportedBy,
+    messages: messages.map((m) => ({
+      message_id: m.message_id,
+      sender_id: m.sender_id,
+      sender_name: names.get(m.sender_id) ?? `User #${m.sender_id}`,
+      sent_at: m.createdAt,
+      edited_at: m.edited_at ?? null,
+      deleted: !!m.deleted_at,
+      text: m.deleted_at ? null : m.message,
+      attachments: m.deleted_at ? [] : (m.attachments ?? []).map((a) => ({
+        attachment_id: a.attachment_id,
+        file_name: a.file_name,
+        mime_type: a.mime_type,
+        size_bytes: a.size_bytes,
+      })),
+    })),
+  };
+};
+
+/* -------------------------------------------------------------------------- */
+/*  2. Renderers                                                              */
+/* -------------------------------------------------------------------------- */
+
+const formatTimestamp = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const headerLines = (t: Transcript): string[] => [
+  `Artepovera – chat transcript #${t.chat_id}${t.title ? ` (${t.title})` : ''}`,
+  `Participants: ${t.participants.map((p) => `${p.fullname} (${p.user_type})`).join(', ')}`,
+  `Exported: ${formatTimestamp(t.exported_at)}`,
+  `Messages: ${t.messages.length}`,
+];
+
+// Body of one message, without the "[time] name:" prefix
+const messageLines = (m: TranscriptMessage): string[] => {
+  if (m.deleted) return ['[message deleted]'];
+  const lines = m.text ? [m.text + (m.edited_at ? ` (edited ${formatTimestamp(m.edited_at)})` : '')] : [];
+  m.attachments.forEach((a) => {
+    lines.push(`[Attachment #${a.attachment_id}: ${a.file_name}, ${a.mime_type}, ${formatSize(a.size_bytes)}]`);
+  });
+  return lines;
+};
+
+export const renderTranscriptText = (t: Transcript): string => {
+  const out = [...headerLines(t), ''.padEnd(60, '-'), ''];
+  t.messages.forEach((m) => {
+    const [first = '', ...rest] = messageLines(m);
+    out.push(`[${formatTimestamp(m.sent_at)}] ${m.sender_name}: ${first}`);
+    rest.forEach((line) => out.push(`    ${line}`));
+  });
+  return out.join('\n') + '\n';
+};
+
+export const renderTranscriptPdf = (t: Transcript): Promise<Buffer> =>
+  new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Chat transcript #${t.chat_id}` } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.font(TRANSCRIPT_FONT);
+
+    const [title, ...meta] = headerLines(t);
+    doc.fontSize(16).text(title);
+    doc.moveDown(0.5).fontSize(10).fillColor('#555555');
+    meta.forEach((line) => doc.text(line));
+    doc.moveDown().fillColor('#000000');
+
+    t.messages.forEach((m) => {
+      doc.fontSize(9).fillColor('#555555').text(`${formatTimestamp(m.sent_at)} – ${m.sender_name}`);
+      doc.fontSize(11).fillColor('#000000');
+      messageLines(m).forEach((line) => doc.text(line, { indent: 10 }));
+      doc.moveDown(0.5);
+    });
+
+    doc.end();
+  });
@@ -0,0 +1,202 @@
+// src/utils/jobSearch.ts
+/**
+ *  Query parameters of GET /job-postings: parsing / validation and the
+ *  Sequelize `where` + `order` they translate to.
+ *
+ *    category        one or more categories, comma separated
+ *    presence        Physical | Online | Both (Physical/Online also match Both)
+ *    pay_basis       total (default) | monthly – which amount min_pay/max_pay
+ *                    and the pay sorts look at
+ *    min_pay/max_pay payment range
+ *    insurance       true | false
+ *    start_from/start_to, deadline_from/deadline_to
+ *                    YYYY-MM-DD windows on start_date / application_deadline
+ *    q               keywords; each must appear in the title, description or
+ *                    desired keywords
+ *    sort            newest (default) | oldest | pay_desc | pay_asc | deadline
+ *    page, limit     page numbers start at 1
+ */
+import { Op, Order, WhereOptions } from 'sequelize';
+import sequelize from '../config/db';
+import { extractSearchTerms } from './search';
+import { parseLimit, parsePositiveInt } from './pagination';
+
+export const JOB_SORTS = ['newest', 'oldest', 'pay_desc', 'pay_asc', 'deadline'] as const;
+export type JobSort = typeof JOB_SORTS[number];
+
+const PRESENCES = ['Physical', 'Online', 'Both'] as const;
+const PAY_BASES = ['total', 'monthly'] as const;
+
+const DEFAULT_JOB_PAGE_LIMIT = 20;
+const MAX_JOB_PAGE_LIMIT = 100;
+
+export interface JobSearchFilters {
+  category?: string[];
+  presence?: string[];
+  pay_basis: 'total' | 'monthly';
+  min_pay?: number;
+  max_pay?: number;
+  insurance?: boolean;
+  start_from?: string;
+  start_to?: string;
+  deadline_from?: string;
+  deadline_to?: string;
+  q?: string[];
+}
+
+export interface JobSearchQuery {
+  filters: JobSearchFilters;
+  sort: JobSort;
+  page: number;
+  limit: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const asString = (raw: unknown): string | undefined =>
+  typeof raw === 'string' && raw.trim() ? raw.trim() : undefined;
+
+const asList = (raw: unknown): string[] | undefined => {
+  const value = asString(raw);
+  return value ? Array.from(new Set(value.split(',').map((v) => v.trim()).filter(Boolean))) : undefined;
+};
+
+const asDate = (raw: unknown): string | null | undefined => {
+  const value = asString(raw);
+  if (value === undefined) return undefined;
+  return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime()) ? value : null;
+};
+
+const asAmount = (raw: unknown): number | null | undefined => {
+  const value = asString(raw);
+  if (value === undefined) return undefined;
+  const amount = Number(value);
+  return isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/**
+ * Validates the query string. Returns the first problem as `error` (for a
+ * 400) or the normalized query, which is echoed back in the response.
+ */
+export const parseJobSearchQuery = (query: Record<string, unknown>): { error: string } | { value: JobSearchQuery } => {
+  const filters: JobSearchFilters = { pay_basis: 'total' };
+
+  const limit = parseLimit(query.limit, DEFAULT_JOB_PAGE_LIMIT, MAX_JOB_PAGE_LIMIT);
+  const page = parsePositiveInt(query.page);
+  if (limit === null || page === null) return { error: 'page and limit must be positive integers.' };
+
+  const sort = (asString(query.sort) ?? 'newest') as JobSort;
+  if (!JOB_SORTS.includes(sort)) return { error: `sort must be one of: ${JOB_SORTS.join(', ')}.` };
+
+  filters.category = asList(query.category);
+
+  const presence = asList(query.presence);
+  if (presence) {
+    const invalid = presence.filter((p) => !(PRESENCES as readonly string[]).includes(p));
+    if (invalid.length > 0) return { error: `presence must be one of: ${PRESENCES.join(', ')}.` };
+    filters.presence = presence;
+  }
+
+  const payBasis = asString(query.pay_basis);
+  if (payBasis !== undefined) {
+    if (!(PAY_BASES as readonly string[]).includes(payBasis)) return { error: `pay_basis must be one of: ${PAY_BASES.join(', ')}.` };
+    filters.pay_basis = payBasis as JobSearchFilters['pay_basis'];
+  }
+
+  const minPay = asAmount(query.min_pay);
+  const maxPay = asAmount(query.max_pay);
+  if (minPay === null || maxPay === null) return { error: 'min_pay and max_pay must be non-negative numbers.' };
+  if (minPay !== undefined && maxPay !== undefined && minPay > maxPay) return { error: 'min_pay cannot be greater than max_pay.' };
+  filters.min_pay = minPay;
+  filters.max_pay = maxPay;
+
+  const insurance = asString(query.insurance);
+  if (insurance !== undefined) {
+    if (insurance !== 'true' && insurance !== 'false') return { error: 'insurance must be true or false.' };
+    filters.insurance = insurance === 'true';
+  }
+
+  const windows: [keyof JobSearchFilters, keyof JobSearchFilters][] = [['start_from', 'start_to'], ['deadline_from', 'deadline_to']];
+  for (const [fromKey, toKey] of windows) {
+    const from = asDate(query[fromKey]);
+    const to = asDate(query[toKey]);
+    if (from === null || to === null) return { error: `${fromKey} and ${toKey} must be dates (YYYY-MM-DD).` };
+    if (from && to && from > to) return { error: `${fromKey} cannot be after ${toKey}.` };
+    (filters as any)[fromKey] = from;
+    (filters as any)[toKey] = to;
+  }
+
+  const q = asString(query.q);
+  if (q !== undefined) {
+    const terms = extractSearchTerms(q);
+    if (terms.length > 0) filters.q = terms;
+  }
+
+  // Drop unset keys so the echoed filters only show what was applied
+  Object.keys(filters).forEach((key) => (filters as any)[key] === undefined && delete (filters as any)[key]);
+
+  return { value: { filters, sort, page: page ?? 1, limit } };
+};
+
+// LIKE pattern matching `term` literally
+const containsPattern = (term: string) => `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+export const buildJobSearchWhere = (filters: JobSearchFilters): WhereOptions => {
+  const and: any[] = [];
+  const payColumn = filters.pay_basis === 'monthly' ? 'payment_monthly_amount' : 'payment_total';
+
+  if (filters.category) and.push({ category: filters.category });
+  if (filters.presence) {
+    const presence = new Set(filters.presence);
+    if (presence.has('Physical') || presence.has('Online')) presence.add('Both');
+    and.push({ presence: Array.from(presence) });
+  }
+  if (filters.pay_basis === 'monthly') and.push({ payment_is_monthly: true });
+  if (filters.min_pay !== undefined) and.push({ [payColumn]: { [Op.gte]: filters.min_pay } });
+  if (filters.max_pay !== undefined) and.push({ [payColumn]: { [Op.lte]: filters.max_pay } });
+  if (filters.insurance !== undefined) and.push({ insurance: filters.insurance });
+
+  // `to` dates are inclusive: anything before the next midnight
+  const window = (column: string, from?: string, to?: string) => {
+    if (from) and.push({ [column]: { [Op.gte]: new Date(from) } });
+    if (to) and.push({ [column]: { [Op.lt]: new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000) } });
+  };
+  window('start_date', filters.start_from, filters.start_to);
+  window('application_deadline', filters.deadline_from, filters.deadline_to);
+
+  (filters.q ?? []).forEach((term) => {
+    const pattern = containsPattern(term);
+    and.push({
+      [Op.or]: [
+        { title: { [Op.like]: pattern } },
+        { description: { [Op.like]: pattern } },
+        { desired_keywords: { [Op.like]: pattern } },
+      ],
+    });
+  });
+
+  return and.length > 0 ? { [Op.and]: and } : {};
+};
+
+export const buildJobSearchOrder = (sort: JobSort, payBasis: JobSearchFilters['pay_basis']): Order => {
+  const payColumn = payBasis === 'monthly' ? 'payment_monthly_amount' : 'payment_total';
+  const newest: [any, string] = [sequelize.col('JobPosting.created_at'), 'DESC'];
+  switch (sort) {
+    case 'oldest':
+      return [[sequelize.col('JobPosting.created_at'), 'ASC'], ['job_id', 'ASC']];
+    case 'pay_desc':
+      return [[payColumn, 'DESC'], newest, ['job_id', 'DESC']];
+    case 'pay_asc':
+      return [[payColumn, 'ASC'], newest, ['job_id', 'DESC']];
+    case 'deadline':
+      // soonest deadline first, postings without one last
+      return [
+        [sequelize.literal('`JobPosting`.`application_deadline` IS NULL'), 'ASC'],
+        ['application_deadline', 'ASC'],
+        newest,
+        ['job_id', 'DESC'],
+      ];
+    default:
+      return [newest, ['job_id', 'DESC']];
+  }
+};
@@ -1,29 +1,125 @@
 // src/utils/mailer.ts
 
-import nodemailer from 'nodemailer';
+import nodemailer, { Transporter, SendMailOptions } from 'nodemailer';
 
-// Create a transporter for sending emails
-const transporter = nodemailer.createTransport({
-  service: 'gmail', // You can use any service like Gmail, SendGrid, etc.
-  auth: {
-    user: process.env.EMAIL_USER, // Your email address
-    pass: process.env.EMAIL_PASS,  // Your email password or app-specific password
-  },
-});
+/* -------------------------------------------------------------------------- */
+/*  Transport                                                                 */
+/* -------------------------------------------------------------------------- */
+/**
+ *  MAIL_TRANSPORT=capture keeps every outgoing mail in memory instead of
+ *  sending it, so flows like password reset can be exercised offline.
+ *  Anything else uses the real SMTP service.
+ */
+export interface CapturedMail {
+  to: string;
+  subject: string;
+  text: string;
+  sentAt: Date;
+}
+
+const capturedMails: CapturedMail[] = [];
+
+const createDefaultTransport = (): Transporter => {
+  if (process.env.MAIL_TRANSPORT === 'capture') {
+    return nodemailer.createTransport({ jsonTransport: true });
+  }
+  return nodemailer.createTransport({
+    service: 'gmail', // You can use any service like Gmail, SendGrid, etc.
+    auth: {
+      user: process.env.EMAIL_USER, // Your email address
+      pass: process.env.EMAIL_PASS,  // Your email password or app-specific password
+    },
+  });
+};
+
+let transporter: Transporter = createDefaultTransport();
+
+/** Swap the transport (e.g. for a local capture transport in tests). */
+export const setMailTransport = (transport: Transporter) => {
+  transporter = transport;
+};
+
+/** Mails recorded while MAIL_TRANSPORT=capture is active. */
+export const getCapturedMails = (): readonly CapturedMail[] => capturedMails;
+
+export const clearCapturedMails = () => {
+  capturedMails.length = 0;
+};
+
+/* -------------------------------------------------------------------------- */
+/*  Generic send                                                              */
+/* -------------------------------------------------------------------------- */
+/**
+ *  Sends a mail and reports success instead of throwing, so callers that
+ *  must not leak delivery failures (e.g. forgot-password) can ignore it.
+ */
+export const sendMail = async (options: SendMailOptions & { to: string; subject: string; text: string }): Promise<boolean> => {
+  if (process.env.MAIL_TRANSPORT === 'capture') {
+    capturedMails.push({ to: options.to, subject: options.subject, text: options.text, sentAt: new Date() });
+  }
+
+  try {
+    await transporter.sendMail({ from: process.env.EMAIL_USER, ...options });
+    return true;
+  } catch (error) {
+    console.error('Error sending email:', error);
+    return false;
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*  Templates                                                                 */
+/* -------------------------------------------------------------------------- */
 
 // Function to send review request email
 export const sendReviewEmail = async (to: string, reviewLink: string) => {
-  const mailOptions = {
-    from: process.env.EMAIL_USER,
+  const sent = await sendMail({
     to,
     subject: 'We value your feedback!',
     text: `Please take a moment to provide your feedback on your recent interaction. You can submit your review using the following link: ${reviewLink}`,
-  };
+  });
+  if (sent) console.log('Review email sent successfully!');
+};
 
-  try {
-    await transporter.sendMail(mailOptions);
-    console.log('Review email sent successfully!');
-  } catch (error) {
-    console.error('Error sending email:', error);
-  }
+// Function to send the one-time password reset link
+export const sendPasswordResetEmail = async (to: string, resetLink: string, expiresInMinutes: number) => {
+  return sendMail({
+    to,
+    subject: 'Reset your Artepovera password',
+    text: `We received a request to reset your password. Use the following link to choose a new one: ${resetLink}\n\n`
+        + `The link can be used once and expires in ${expiresInMinutes} minutes. If you did not request this, you can ignore this email.`,
+  });
+};
+
+// Function to send the email address confirmation link
+export const sendEmailVerificationEmail = async (to: string, verifyLink: string, isEmailChange: boolean) => {
+  return sendMail({
+    to,
+    subject: 'Confirm your email address',
+    text: (isEmailChange
+        ? 'You asked to change the email address of your Artepovera account to this one.'
+        : 'Welcome to Artepovera! Please confirm your email address.')
+        + ` Open the following link to confirm it: ${verifyLink}`,
+  });
+};
+
+// Function to send the digest of messages received while offline
+export interface MessageDigestEntry {
+  senderName: string;
+  count: number;
+  preview: string;
+}
+
+export const sendMessageDigestEmail = async (to: string, fullname: string, entries: MessageDigestEntry[], chatLink: string, settingsLink: string) => {
+  const total = entries.reduce((sum, e) => sum + e.count, 0);
+  const lines = entries.map((e) =>
+    `- ${e.senderName}: ${e.count} new message${e.count === 1 ? '' : 's'} – "${e.preview}"`
+  );
+  return sendMail({
+    to,
+    subject: `You have ${total} unread message${total === 1 ? '' : 's'} on Artepovera`,
+    text: `Hi ${fullname},\n\nWhile you were away you received:\n${lines.join('\n')}\n\n`
+        + `Read and reply here: ${chatLink}\n\n`
+        + `You can turn these emails off in your account settings: ${settingsLink}`,
+  });
 };
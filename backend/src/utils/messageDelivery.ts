@@ -0,0 +1,164 @@
+/* -------------------------------------------------------------------------- */
+/*  utils/messageDelivery.ts (backend)                                        */
+/* -------------------------------------------------------------------------- */
+/**
+ *  Client-facing shape of chat messages and their realtime delivery, shared
+ *  by the chat endpoints and by everything else that releases a message
+ *  later (e.g. an admin approving a hidden message).
+ */
+
+import { Server } from 'socket.io';
+import { Transaction } from 'sequelize';
+import sequelize from '../config/db';
+import Chat from '../models/Chat';
+import Message, { MessageAttributes } from '../models/Message';
+import MessageAttachment from '../models/MessageAttachment';
+import MessageReaction from '../models/MessageReaction';
+import ChatSetting from '../models/ChatSetting';
+import User from '../models/User';
+import { OnlineUsersMap, pushMessage, pushNotification } from './socketHelpers';
+import { chatRoom, getOtherParticipantIds } from './chatAccess';
+import { deleteStoredFile } from './storage';
+import { isBlockedBetween } from './blocks';
+import { FilterResult, moderationStatusFor, describeHits } from './messageFilter';
+
+export const serializeAttachment = (a: MessageAttachment) => ({
+  attachment_id: a.attachment_id,
+  message_id: a.message_id,
+  file_name: a.file_name,
+  mime_type: a.mime_type,
+  size_bytes: a.size_bytes,
+  item_type: a.item_type,
+});
+
+/**
+ * Client-facing shape of a message. An unsent message becomes a tombstone:
+ * it keeps its place in the history but loses its text and files.
+ * Why a message was moderated is for admins only.
+ */
+export const serializeMessage = (m: Message) => {
+  const { moderation_reasons, moderated_by, ...json }: any = m.toJSON();
+  if (m.deleted_at) {
+    return { ...json, message: null, attachments: [] };
+  }
+  return { ...json, attachments: (m.attachments ?? []).map(serializeAttachment) };
+};
+
+/**
+ * Who receives a message sent by `senderId`. Direct chats store the other
+ * user as `receiver_id`; group messages have no single receiver.
+ * Blocks only apply to direct chats.
+ */
+export const resolveMessageAudience = async (
+  chat: Pick<Chat, 'chat_id' | 'chat_type' | 'user1_id' | 'user2_id'>,
+  senderId: number
+): Promise<{ receiverId: number | null; recipientIds: number[]; blocked: boolean }> => {
+  const recipientIds = await getOtherParticipantIds(chat, senderId);
+  if (chat.chat_type === 'group') {
+    return { receiverId: null, recipientIds, blocked: false };
+  }
+  return { receiverId: recipientIds[0], recipientIds, blocked: await isBlockedBetween(senderId, recipientIds[0]) };
+};
+
+/**
+ * Inserts a filtered text message and touches `chat.updatedAt` (same
+ * transaction). A hidden message doesn't move the chat up until it is
+ * approved. The caller delivers it with deliverNewMessage unless hidden.
+ */
+export const storeChatMessage = async (
+  chat: Chat,
+  senderId: number,
+  receiverId: number | null,
+  text: string,
+  filterResult: FilterResult,
+  transaction: Transaction
+): Promise<Message> => {
+  const moderationStatus = moderationStatusFor(filterResult);
+  const newMessage = await Message.create(
+    {
+      chat_id: chat.chat_id, sender_id: senderId, receiver_id: receiverId, message: text,
+      moderation_status: moderationStatus, moderation_reasons: describeHits(filterResult.hits),
+    },
+    { transaction }
+  );
+  if (moderationStatus !== 'hidden') {
+    await chat.update({ updatedAt: new Date() }, { transaction });
+  }
+  return newMessage;
+};
+
+/** Everyone who received `message` (still in the chat, for groups). */
+export const getMessageRecipientIds = async (message: Message): Promise<number[]> => {
+  if (message.receiver_id) return [message.receiver_id];
+  const chat = await Chat.findByPk(message.chat_id, { attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'] });
+  return chat ? getOtherParticipantIds(chat, message.sender_id) : [];
+};
+
+/**
+ * "New message" toast for the recipients, except those who muted the chat.
+ * It is transient (not stored in `notifications`); the message itself is
+ * always delivered through pushMessage.
+ */
+export const notifyNewMessage = async (
+  io: Server,
+  onlineUsers: OnlineUsersMap,
+  chatId: number,
+  senderId: number,
+  recipientIds: number[]
+): Promise<void> => {
+  const [mutedSettings, sender] = await Promise.all([
+    ChatSetting.findAll({ where: { chat_id: chatId, user_id: recipientIds, muted: true }, attributes: ['user_id'] }),
+    User.findByPk(senderId, { attributes: ['fullname'] }),
+  ]);
+  const muted = new Set(mutedSettings.map((s) => s.user_id));
+
+  recipientIds.filter((id) => !muted.has(id)).forEach((recipientId) => {
+    pushNotification(io, onlineUsers, recipientId, {
+      sender_id: senderId,
+      chat_id: chatId,
+      message_key: 'notifications.newMessage',
+      message_params: { name: sender?.fullname ?? '' },
+      transient: true,
+      createdAt: new Date(),
+    });
+  });
+};
+
+/**
+ * `new_message` to the chat room and the recipients' sockets, then the
+ * toast. Fire-and-forget: the message is already stored.
+ */
+export const deliverNewMessage = (
+  io: Server,
+  onlineUsers: OnlineUsersMap,
+  chatId: number,
+  senderId: number,
+  recipientIds: number[],
+  payload: any
+): void => {
+  // room του chat + όλα τα sockets (tabs/συσκευές) των παραληπτών, χωρίς διπλά
+  pushMessage(io, onlineUsers, chatRoom(chatId), recipientIds, payload);
+  notifyNewMessage(io, onlineUsers, chatId, senderId, recipientIds)
+    .catch((e) => console.error('❌  new message notification failed:', e));
+};
+
+/**
+ * Turns a message into a tombstone (text cleared, deleted_at set) and drops
+ * its attachments and reactions; `changes` are saved along with it. The
+ * stored files are deleted afterwards, best effort.
+ * `message.attachments` must be loaded.
+ */
+export const tombstoneMessage = async (message: Message, changes: Partial<MessageAttributes> = {}): Promise<void> => {
+  const attachments = message.attachments ?? [];
+  await sequelize.transaction(async (trx) => {
+    await message.update({ ...changes, message: '', deleted_at: new Date() }, { transaction: trx });
+    await MessageAttachment.destroy({ where: { message_id: message.message_id }, transaction: trx });
+    await MessageReaction.destroy({ where: { message_id: message.message_id }, transaction: trx });
+  });
+
+  // The rows are already gone, so nobody can fetch the files anyway
+  attachments.forEach((a) => {
+    deleteStoredFile(a.public_id, a.resource_type, 'authenticated')
+      .catch((e) => console.error(`[WARN] Failed to delete attachment ${a.public_id}:`, e));
+  });
+};
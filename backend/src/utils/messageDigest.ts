@@ -0,0 +1,201 @@
+/* -------------------------------------------------------------------------- */
+/*  utils/messageDigest.ts (backend)                                          */
+/* -------------------------------------------------------------------------- */
+/**
+ *  Email digest of unread messages for users who were offline when they
+ *  arrived (a `new_message` socket event reaches nobody in that case).
+ *
+ *  Every DIGEST_INTERVAL_MINUTES the job looks for messages (direct and group)
+ *  that are still unread DIGEST_DELAY_MINUTES after they were sent and mails
+ *  each receiver one summary. A user gets at most one digest per
+ *  DIGEST_WINDOW_HOURS, never for the same message twice (only messages newer
+ *  than their previous digest count), nothing from muted chats, and nothing
+ *  at all if they opted out or are online right now.
+ */
+
+import { Op } from 'sequelize';
+import sequelize from '../config/db';
+import Message from '../models/Message';
+import User from '../models/User';
+import ChatSetting from '../models/ChatSetting';
+import ChatParticipant from '../models/ChatParticipant';
+import type { OnlineUsersMap } from './socketHelpers';
+import { isUserOnline } from './presence';
+import { sendMessageDigestEmail, MessageDigestEntry } from './mailer';
+
+const DIGEST_DELAY_MINUTES = Number(process.env.DIGEST_DELAY_MINUTES) || 30;
+const DIGEST_WINDOW_HOURS = Number(process.env.DIGEST_WINDOW_HOURS) || 6;
+const DIGEST_INTERVAL_MINUTES = Number(process.env.DIGEST_INTERVAL_MINUTES) || 10;
+const DIGEST_BATCH_SIZE = 200;        // users per run; the rest wait for the next tick
+const DIGEST_LOOKBACK_DAYS = 7;       // older unread messages are not worth an email
+const PREVIEW_LENGTH = 80;
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'https://artepovera2.vercel.app';
+
+const preview = (text: string) =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+
+/* -------------------------------------------------------------------------- */
+/*  1. One run                                                                */
+/* -------------------------------------------------------------------------- */
+
+const buildDigestForUser = async (user: User, olderThan: Date, lookbackStart: Date): Promise<MessageDigestEntry[]> => {
+  const since = user.last_digest_sent_at && user.last_digest_sent_at > lookbackStart
+    ? user.last_digest_sent_at
+    : lookbackStart;
+
+  const [mutedChats, memberships] = await Promise.all([
+    ChatSetting.findAll({
+      where: { user_id: user.user_id, muted: true },
+      attributes: ['chat_id'],
+    }),
+    ChatParticipant.findAll({
+      where: { user_id: user.user_id },
+      attributes: ['chat_id', 'last_read_message_id'],
+    }),
+  ]);
+
+  const messages = await Message.findAll({
+    where: {
+      deleted_at: null,
+      moderation_status: { [Op.ne]: 'hidden' },
+      createdAt: { [Op.gt]: since, [Op.lte]: olderThan },
+      chat_id: { [Op.notIn]: mutedChats.map((s) => s.chat_id) },
+      [Op.or]: [
+        { receiver_id: user.user_id, read_status: false },
+        // group messages after the user's read mark in each of their groups
+        ...memberships.map((p) => ({
+          chat_id: p.chat_id,
+          receiver_id: null,
+          sender_id: { [Op.ne]: user.user_id },
+          message_id: { [Op.gt]: p.last_read_message_id ?? 0 },
+        })),
+      ],
+    },
+    include: [{ model: User, as: 'messageSender', attributes: ['user_id', 'fullname'] }],
+    order: [['message_id', 'DESC']],
+  });
+
+  // One line per sender, previewing their latest message
+  const bySender = new Map<number, MessageDigestEntry>();
+  messages.forEach((m) => {
+    const entry = bySender.get(m.sender_id);
+    if (entry) {
+      entry.count += 1;
+      return;
+    }
+    bySender.set(m.sender_id, {
+      senderName: m.messageSender?.fullname ?? 'Someone',
+      count: 1,
+      preview: m.message ? preview(m.message) : '📎 Attachment',
+    });
+  });
+  return Array.from(bySender.values());
+};
+
+/** Sends the digests that are due; returns how many were sent. */
+export const runMessageDigest = async (onlineUsers: OnlineUsersMap): Promise<number> => {
+  const now = Date.now();
+  const olderThan = new Date(now - DIGEST_DELAY_MINUTES * 60 * 1000);
+  // last_digest_sent_at holds the olderThan of that run, so compare like with like
+  const windowStart = new Date(olderThan.getTime() - DIGEST_WINDOW_HOURS * 60 * 60 * 1000);
+  const lookbackStart = new Date(now - DIGEST_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const [receivers, groupMembers] = await Promise.all([
+    Message.findAll({
+      attributes: ['receiver_id'],
+      where: {
+        receiver_id: { [Op.ne]: null },
+        read_status: false,
+        deleted_at: null,
+        moderation_status: { [Op.ne]: 'hidden' },
+        createdAt: { [Op.gt]: lookbackStart, [Op.lte]: olderThan },
+      },
+      group: ['receiver_id'],
+      raw: true,
+    }) as unknown as Promise<{ receiver_id: number }[]>,
+    // Group messages have no receiver_id: members whose read mark is behind one
+    ChatParticipant.findAll({
+      attributes: ['user_id'],
+      where: {
+        [Op.and]: [sequelize.literal(
+          'EXISTS (SELECT 1 FROM messages m WHERE m.chat_id = `ChatParticipant`.`chat_id`' +
+          ' AND m.receiver_id IS NULL AND m.sender_id <> `ChatParticipant`.`user_id`' +
+          ' AND m.message_id > COALESCE(`ChatParticipant`.`last_read_message_id`, 0)' +
+          " AND m.deleted_at IS NULL AND m.moderation_status <> 'hidden'" +
+          ` AND m.created_at > ${sequelize.escape(lookbackStart)} AND m.created_at <= ${sequelize.escape(olderThan)})`
+        )],
+      },
+      group: ['user_id'],
+      raw: true,
+    }) as unknown as Promise<{ user_id: number }[]>,
+  ]);
+
+  const offlineIds = Array.from(new Set([...receivers.map((r) => r.receiver_id), ...groupMembers.map((m) => m.user_id)]))
+    .filter((id) => !isUserOnline(onlineUsers, id));
+  if (offlineIds.length === 0) return 0;
+
+  const users = await User.findAll({
+    where: {
+      user_id: offlineIds,
+      message_digest_opt_out: false,
+      verified_at: { [Op.ne]: null },          // only to confirmed addresses
+      [Op.or]: [{ last_digest_sent_at: null }, { last_digest_sent_at: { [Op.lt]: windowStart } }],
+    },
+    attributes: ['user_id', 'email', 'fullname', 'last_digest_sent_at'],
+    limit: DIGEST_BATCH_SIZE,
+  });
+
+  let sent = 0;
+  for (const user of users) {
+    try {
+      const entries = await buildDigestForUser(user, olderThan, lookbackStart);
+      if (entries.length === 0) continue;
+
+      const ok = await sendMessageDigestEmail(
+        user.email,
+        user.fullname,
+        entries,
+        `${FRONTEND_URL}/chat`,
+        `${FRONTEND_URL}/settings`
+      );
+      if (ok) {
+        // Messages from (olderThan, now] weren't in this digest – the next one picks them up
+        await user.update({ last_digest_sent_at: olderThan });
+        sent += 1;
+      }
+    } catch (err) {
+      console.error(`❌  message digest failed for user ${user.user_id}:`, err);
+    }
+  }
+  return sent;
+};
+
+/* -------------------------------------------------------------------------- */
+/*  2. Scheduling                                                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Starts the periodic digest job (disable with MESSAGE_DIGEST_ENABLED=false).
+ * Runs never overlap; a slow run just delays the next one.
+ */
+export const startMessageDigestJob = (onlineUsers: OnlineUsersMap): NodeJS.Timeout | null => {
+  if (process.env.MESSAGE_DIGEST_ENABLED === 'false') return null;
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const sent = await runMessageDigest(onlineUsers);
+      if (sent > 0) console.log(`📬  sent ${sent} message digest email(s)`);
+    } catch (err) {
+      console.error('❌  message digest run failed:', err);
+    } finally {
+      running = false;
+    }
+  }, DIGEST_INTERVAL_MINUTES * 60 * 1000);
+
+  timer.unref();                                  // never keeps the process alive on its own
+  return timer;
+};
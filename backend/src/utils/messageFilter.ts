@@ -0,0 +1,180 @@
+/* -------------------------------------------------------------------------- */
+/*  utils/messageFilter.ts (backend)                                          */
+/* -------------------------------------------------------------------------- */
+/**
+ *  Filters run on outgoing chat text before it is stored. Each rule may ask
+ *  to
+ *    - reject  the message (it is never stored),
+ *    - hide    it (stored, shown to the sender only, until an admin approves),
+ *    - flag    it (delivered normally, but queued for admin review).
+ *  The strictest answer wins. What each rule looks for and what it asks for
+ *  is configured through MESSAGE_FILTER_* environment variables.
+ */
+
+import { Op } from 'sequelize';
+import Message from '../models/Message';
+
+export type FilterAction = 'allow' | 'flag' | 'hide' | 'reject';
+
+export interface FilterHit {
+  rule: 'blocked_words' | 'suspicious_links' | 'contact_details' | 'rate_limit';
+  action: FilterAction;
+  detail: string;
+}
+
+export interface FilterResult {
+  action: FilterAction;
+  hits: FilterHit[];
+}
+
+interface FilterContext {
+  senderId: number;
+  chatId: number;
+  text: string;
+  skipRateLimit: boolean; // edits and scheduled messages (when scheduled and when delivered)
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Configuration                                                             */
+/* -------------------------------------------------------------------------- */
+
+const SEVERITY: Record<FilterAction, number> = { allow: 0, flag: 1, hide: 2, reject: 3 };
+
+const envList = (value: string | undefined, fallback: string[]): string[] =>
+  value === undefined
+    ? fallback
+    : value.split(',').map((v) => v.trim().toLowerCase()).filter(Boolean);
+
+const envAction = (value: string | undefined, fallback: FilterAction): FilterAction =>
+  value && value in SEVERITY ? (value as FilterAction) : fallback;
+
+// Typical wording of off-platform payment scams
+const BLOCKED_WORDS = envList(process.env.MESSAGE_FILTER_BLOCKED_WORDS, [
+  'western union', 'moneygram', 'gift card', 'wire transfer', 'bitcoin', 'usdt', 'advance fee', 'overpayment',
+]);
+const BLOCKED_WORDS_ACTION = envAction(process.env.MESSAGE_FILTER_BLOCKED_WORDS_ACTION, 'hide');
+
+// Link shorteners and off-platform chat / payment links
+const SUSPICIOUS_DOMAINS = envList(process.env.MESSAGE_FILTER_SUSPICIOUS_DOMAINS, [
+  'bit.ly', 'tinyurl.com', 'goo.gl', 't.co', 'is.gd', 'cutt.ly', 't.me', 'wa.me', 'paypal.me', 'cash.app',
+]);
+const SUSPICIOUS_LINKS_ACTION = envAction(process.env.MESSAGE_FILTER_SUSPICIOUS_LINKS_ACTION, 'flag');
+
+// Sharing a phone number / email in the first messages of a conversation
+const CONTACT_FIRST_MESSAGES = Number(process.env.MESSAGE_FILTER_CONTACT_FIRST_MESSAGES) || 3;
+const CONTACT_DETAILS_ACTION = envAction(process.env.MESSAGE_FILTER_CONTACT_DETAILS_ACTION, 'flag');
+
+const RATE_LIMIT_PER_MINUTE = Number(process.env.MESSAGE_RATE_LIMIT_PER_MINUTE) || 20;
+
+/* -------------------------------------------------------------------------- */
+/*  Rules                                                                     */
+/* -------------------------------------------------------------------------- */
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+|\b(?:[a-z0-9-]+\.)+[a-z]{2,}\/[^\s<>"']*/gi;
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+// International numbers (+ or 00 and 8+ digits) or 10+ digits; at most two
+// spaces, dots, dashes or brackets between digits, so "1500 - 2000" is a range
+const PHONE_PATTERN = /(?:\+|\b00)\d(?:[\s.\-()]{0,2}\d){7,}|\b\d(?:[\s.\-()]{0,2}\d){9,}/;
+const DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b/g;
+const IP_HOST_PATTERN = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+const hostOf = (link: string): string | null => {
+  try {
+    return new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+const checkBlockedWords = ({ text }: FilterContext): FilterHit | null => {
+  const lower = text.toLowerCase();
+  const found = BLOCKED_WORDS.filter((w) => lower.includes(w));
+  return found.length > 0
+    ? { rule: 'blocked_words', action: BLOCKED_WORDS_ACTION, detail: found.join(', ') }
+    : null;
+};
+
+const checkSuspiciousLinks = ({ text }: FilterContext): FilterHit | null => {
+  const hosts = (text.match(URL_PATTERN) ?? []).map(hostOf).filter(Boolean) as string[];
+  const suspicious = hosts.filter((host) =>
+    IP_HOST_PATTERN.test(host) ||
+    SUSPICIOUS_DOMAINS.some((d) => host === d || host.endsWith(`.${d}`))
+  );
+  return suspicious.length > 0
+    ? { rule: 'suspicious_links', action: SUSPICIOUS_LINKS_ACTION, detail: Array.from(new Set(suspicious)).join(', ') }
+    : null;
+};
+
+const checkContactDetails = async ({ text, senderId, chatId }: FilterContext): Promise<FilterHit | null> => {
+  // digits of links and dates aren't phone numbers
+  const plain = text.replace(URL_PATTERN, ' ').replace(DATE_PATTERN, ' ');
+  const kinds = [EMAIL_PATTERN.test(plain) && 'email', PHONE_PATTERN.test(plain) && 'phone'].filter(Boolean);
+  if (kinds.length === 0) return null;
+
+  const earlier = await Message.count({ where: { chat_id: chatId, sender_id: senderId } });
+  return earlier < CONTACT_FIRST_MESSAGES
+    ? { rule: 'contact_details', action: CONTACT_DETAILS_ACTION, detail: kinds.join(', ') }
+    : null;
+};
+
+const checkRateLimit = async ({ senderId, skipRateLimit }: FilterContext): Promise<FilterHit | null> => {
+  if (skipRateLimit) return null;
+  const lastMinute = await Message.count({
+    where: { sender_id: senderId, createdAt: { [Op.gt]: new Date(Date.now() - 60 * 1000) } },
+  });
+  return lastMinute >= RATE_LIMIT_PER_MINUTE
+    ? { rule: 'rate_limit', action: 'reject', detail: `${lastMinute} messages in the last minute` }
+    : null;
+};
+
+const RULES: ((ctx: FilterContext) => FilterHit | null | Promise<FilterHit | null>)[] = [
+  checkRateLimit,
+  checkBlockedWords,
+  checkSuspiciousLinks,
+  checkContactDetails,
+];
+
+/* -------------------------------------------------------------------------- */
+/*  Pipeline                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Runs every rule on an outgoing (or edited) message. */
+export const runMessageFilters = async (ctx: FilterContext): Promise<FilterResult> => {
+  const hits: FilterHit[] = [];
+  for (const rule of RULES) {
+    const hit = await rule(ctx);
+    if (hit && hit.action !== 'allow') hits.push(hit);
+  }
+  const action = hits.reduce<FilterAction>(
+    (strictest, h) => (SEVERITY[h.action] > SEVERITY[strictest] ? h.action : strictest),
+    'allow'
+  );
+  return { action, hits };
+};
+
+/** Moderation status a freshly filtered message is stored with. */
+export const moderationStatusFor = (result: FilterResult): 'clean' | 'flagged' | 'hidden' =>
+  result.action === 'hide' ? 'hidden' : result.action === 'flag' ? 'flagged' : 'clean';
+
+/** Stored with the message for the admins, e.g. "blocked_words: gift card". */
+export const describeHits = (hits: FilterHit[]): string[] | null =>
+  hits.length > 0 ? hits.map((h) => `${h.rule}: ${h.detail}`) : null;
+
+/**
+ * HTTP answer for a rejected message: 429 when the sender is just going too
+ * fast, 422 for the content itself.
+ */
+export const rejectionResponse = (result: FilterResult): { status: number; message: string } =>
+  result.hits.some((h) => h.rule === 'rate_limit' && h.action === 'reject')
+    ? { status: 429, message: 'You are sending messages too quickly. Please wait a moment.' }
+    : { status: 422, message: 'This message cannot be sent because it looks like spam or contains prohibited content.' };
+
+/**
+ * `where` fragment on Message: hidden messages exist for their sender only.
+ */
+export const visibleMessagesWhere = (userId: number) => ({
+  [Op.or]: [
+    { moderation_status: { [Op.ne]: 'hidden' } },
+    { sender_id: userId },
+  ],
+});
@@ -0,0 +1,85 @@
+// src/utils/messageTemplates.ts
+/**
+ *  Placeholders of the quick-reply templates and how they are filled in when
+ *  a template is sent with POST /chats/send { template_id }.
+ *
+ *  Values come from the chat itself (its participants) and, for
+ *  {{job_title}}, from the `job_id` sent along – or the job posting a group
+ *  chat belongs to.
+ */
+import Chat from '../models/Chat';
+import User from '../models/User';
+import JobPosting from '../models/JobPosting';
+
+export const TEMPLATE_PLACEHOLDERS = ['artist_name', 'employer_name', 'recipient_name', 'sender_name', 'job_title'] as const;
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>;
+
+// {{ name }} – whitespace inside the braces is allowed
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/** Every distinct placeholder name used in `body`, known or not. */
+export const findPlaceholders = (body: string): string[] => {
+  const names = new Set<string>();
+  body.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    names.add(name);
+    return '';
+  });
+  return Array.from(names);
+};
+
+/** Placeholders in `body` that templates don't support. */
+export const findUnknownPlaceholders = (body: string): string[] =>
+  findPlaceholders(body).filter((name) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+
+/**
+ * Fills in the placeholders. `missing` lists those without a value; the text
+ * is only meant to be sent when it is empty.
+ */
+export const renderTemplate = (body: string, values: TemplateValues): { text: string; missing: string[] } => {
+  const missing = new Set<string>();
+  const text = body.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = values[name as TemplatePlaceholder];
+    if (value === undefined) {
+      missing.add(name);
+      return match;
+    }
+    return value;
+  });
+  return { text: text.trim(), missing: Array.from(missing) };
+};
+
+/**
+ * Placeholder values for a message `senderId` sends in `chat`.
+ * Names of individual recipients only exist in direct chats.
+ * Returns null if `jobId` doesn't refer to a job posting.
+ */
+export const buildTemplateValues = async (
+  chat: Pick<Chat, 'chat_type' | 'user1_id' | 'user2_id' | 'job_id'>,
+  senderId: number,
+  jobId?: number
+): Promise<TemplateValues | null> => {
+  const values: TemplateValues = {};
+
+  const effectiveJobId = jobId ?? chat.job_id ?? undefined;
+  if (effectiveJobId) {
+    const job = await JobPosting.findByPk(effectiveJobId, { attributes: ['job_id', 'title'] });
+    if (!job) return null;
+    values.job_title = job.title;
+  }
+
+  const userIds = chat.chat_type === 'group' ? [senderId] : [chat.user1_id, chat.user2_id];
+  const users = await User.findAll({ where: { user_id: userIds }, attributes: ['user_id', 'fullname', 'user_type'] });
+
+  users.forEach((u) => {
+    if (u.user_id === senderId) values.sender_name = u.fullname;
+    else values.recipient_name = u.fullname;
+
+    if (chat.chat_type === 'group') return;
+    if (u.user_type === 'Artist') values.artist_name = u.fullname;
+    if (u.user_type === 'Employer') values.employer_name = u.fullname;
+  });
+
+  return values;
+};
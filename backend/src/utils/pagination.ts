@@ -0,0 +1,41 @@
+// src/utils/pagination.ts
+/**
+ *  Small helpers for the paginated list endpoints.
+ */
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Parses a `limit` query param. Returns `null` for invalid input so the
+ * controller can answer 400; missing input falls back to the default.
+ */
+export const parseLimit = (raw: unknown, fallback = DEFAULT_PAGE_LIMIT, max = MAX_PAGE_LIMIT): number | null => {
+  if (raw === undefined || raw === null || raw === '') return fallback;
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1) return null;
+  return Math.min(limit, max);
+};
+
+/**
+ * Parses a positive integer query param (ids, page numbers). `undefined` when
+ * absent, `null` when present but invalid.
+ */
+export const parsePositiveInt = (raw: unknown): number | null | undefined => {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : null;
+};
+
+/** Opaque cursor: base64url-encoded JSON. */
+export const encodeCursor = (data: object): string =>
+  Buffer.from(JSON.stringify(data)).toString('base64url');
+
+export const decodeCursor = <T extends object>(cursor: string): T | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return parsed && typeof parsed === 'object' ? parsed as T : null;
+  } catch {
+    return null;
+  }
+};
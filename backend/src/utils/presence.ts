@@ -0,0 +1,107 @@
+/* -------------------------------------------------------------------------- */
+/*  utils/presence.ts (backend)                                               */
+/* -------------------------------------------------------------------------- */
+/**
+ *  Multi-device presence: a user is online while at least one of their
+ *  sockets (tab, phone, ...) is connected. When the last one goes away we
+ *  persist `users.last_seen_at` and tell their chat partners.
+ */
+
+import { Server } from 'socket.io';
+import { Op } from 'sequelize';
+import Chat from '../models/Chat';
+import ChatParticipant from '../models/ChatParticipant';
+import User from '../models/User';
+import type { OnlineUsersMap } from './socketHelpers';
+import { getHiddenUserIds } from './blocks';
+
+export interface PresencePayload {
+  user_id: number;
+  online: boolean;
+  last_seen_at: Date | null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  1. Socket bookkeeping                                                     */
+/* -------------------------------------------------------------------------- */
+
+/** Registers a socket; returns true when this is the user's first socket. */
+export const addUserSocket = (onlineUsers: OnlineUsersMap, userId: number, socketId: string): boolean => {
+  const sockets = onlineUsers.get(userId);
+  if (sockets) {
+    sockets.add(socketId);
+    return false;
+  }
+  onlineUsers.set(userId, new Set([socketId]));
+  return true;
+};
+
+/** Unregisters a socket; returns true when it was the user's last one. */
+export const removeUserSocket = (onlineUsers: OnlineUsersMap, userId: number, socketId: string): boolean => {
+  const sockets = onlineUsers.get(userId);
+  if (!sockets) return false;
+  sockets.delete(socketId);
+  if (sockets.size > 0) return false;
+  onlineUsers.delete(userId);
+  return true;
+};
+
+export const isUserOnline = (onlineUsers: OnlineUsersMap | undefined, userId: number): boolean =>
+  !!onlineUsers?.get(userId)?.size;
+
+export const getUserSocketIds = (onlineUsers: OnlineUsersMap | undefined, userId: number): string[] =>
+  Array.from(onlineUsers?.get(userId) ?? []);
+
+/* -------------------------------------------------------------------------- */
+/*  2. Queries & broadcasts                                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Everyone the user has a chat with – the audience of presence updates:
+ * the other side of their direct chats and the co-members of their groups.
+ */
+export const getChatPartnerIds = async (userId: number): Promise<number[]> => {
+  const [chats, memberships] = await Promise.all([
+    Chat.findAll({
+      where: { chat_type: 'direct', [Op.or]: [{ user1_id: userId }, { user2_id: userId }] },
+      attributes: ['user1_id', 'user2_id'],
+    }),
+    ChatParticipant.findAll({ where: { user_id: userId }, attributes: ['chat_id'] }),
+  ]);
+  const coMembers = memberships.length === 0 ? [] : await ChatParticipant.findAll({
+    where: { chat_id: memberships.map((m) => m.chat_id), user_id: { [Op.ne]: userId } },
+    attributes: ['user_id'],
+  });
+
+  const partners = new Set<number>();
+  chats.forEach((c) => partners.add(c.user1_id === userId ? c.user2_id : c.user1_id));
+  coMembers.forEach((m) => partners.add(m.user_id));
+  return Array.from(partners);
+};
+
+export const getPresence = async (onlineUsers: OnlineUsersMap | undefined, userId: number): Promise<PresencePayload | null> => {
+  const user = await User.findByPk(userId, { attributes: ['user_id', 'last_seen_at'] });
+  if (!user) return null;
+  const online = isUserOnline(onlineUsers, userId);
+  return { user_id: userId, online, last_seen_at: online ? null : user.last_seen_at };
+};
+
+/**
+ * Called on the online/offline transitions only (not for every extra tab).
+ * Persists last_seen_at when going offline and emits `presence_changed`
+ * to the personal rooms of the user's chat partners (minus blocked ones).
+ */
+export const broadcastPresenceChange = async (io: Server, userId: number, online: boolean): Promise<void> => {
+  const lastSeenAt = online ? null : new Date();
+  if (!online) {
+    await User.update({ last_seen_at: lastSeenAt }, { where: { user_id: userId } });
+  }
+
+  // Blocked users (either direction) don't learn when the other is around
+  const [partners, hidden] = await Promise.all([getChatPartnerIds(userId), getHiddenUserIds(userId)]);
+  const partnerIds = partners.filter((id) => !hidden.includes(id));
+  if (partnerIds.length === 0) return;
+
+  const payload: PresencePayload = { user_id: userId, online, last_seen_at: lastSeenAt };
+  io.to(partnerIds.map((id) => `user-${id}`)).emit('presence_changed', payload);
+};
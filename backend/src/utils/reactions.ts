@@ -0,0 +1,59 @@
+// src/utils/reactions.ts
+/**
+ *  Emoji reactions on chat messages: input validation and the per-message
+ *  summaries that go out with the chat history and the `message_reaction`
+ *  socket event.
+ */
+import MessageReaction from '../models/MessageReaction';
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  user_ids: number[];
+}
+
+const MAX_EMOJI_LENGTH = 32;     // UTF-16 units; enough for ZWJ sequences and skin tones
+
+// Built at runtime: the `u`-flag property escape is newer than our TS target
+const PICTOGRAPHIC = new RegExp('\\p{Extended_Pictographic}|\\p{Regional_Indicator}', 'u');
+
+/** The trimmed emoji, or null if the input isn't one. */
+export const normalizeEmoji = (input: unknown): string | null => {
+  if (typeof input !== 'string') return null;
+  const emoji = input.trim();
+  if (!emoji || emoji.length > MAX_EMOJI_LENGTH || /\s/.test(emoji)) return null;
+  // Letters or digits mixed in mean it's text, not a reaction
+  if (/[A-Za-z0-9]/.test(emoji) || !PICTOGRAPHIC.test(emoji)) return null;
+  return emoji;
+};
+
+/**
+ * Reactions of each message, grouped by emoji (most used first, then
+ * the one used first). Messages without reactions map to [].
+ */
+export const getReactionSummaries = async (messageIds: number[]): Promise<Map<number, ReactionSummary[]>> => {
+  const summaries = new Map<number, ReactionSummary[]>();
+  messageIds.forEach((id) => summaries.set(id, []));
+  if (messageIds.length === 0) return summaries;
+
+  const reactions = await MessageReaction.findAll({
+    where: { message_id: messageIds },
+    attributes: ['message_id', 'user_id', 'emoji'],
+    order: [['reaction_id', 'ASC']],
+  });
+
+  reactions.forEach((r) => {
+    const list = summaries.get(r.message_id)!;
+    const entry = list.find((s) => s.emoji === r.emoji);
+    if (entry) {
+      entry.count += 1;
+      entry.user_ids.push(r.user_id);
+    } else {
+      list.push({ emoji: r.emoji, count: 1, user_ids: [r.user_id] });
+    }
+  });
+  // Array.prototype.sort is stable, so ties keep first-use order
+  summaries.forEach((list) => list.sort((a, b) => b.count - a.count));
+
+  return summaries;
+};
@@ -0,0 +1,175 @@
+/* -------------------------------------------------------------------------- */
+/*  utils/scheduledMessages.ts (backend)                                      */
+/* -------------------------------------------------------------------------- */
+/**
+ *  Sends the chat messages users scheduled for later. Every
+ *  SCHEDULED_MESSAGES_INTERVAL_SECONDS the job picks the pending messages
+ *  whose `deliver_at` has passed and sends each one exactly like
+ *  POST /chats/send would at that moment: same access / block checks, same
+ *  spam filters, same `Chat.updatedAt` bump and `new_message` broadcast.
+ *
+ *  A message that can no longer be sent (sender left the chat, a block, the
+ *  filters reject it) is marked `failed` with the reason, and the sender is
+ *  told through the `scheduled_message_failed` socket event.
+ */
+
+import { Op } from 'sequelize';
+import { Server } from 'socket.io';
+import sequelize from '../config/db';
+import Chat from '../models/Chat';
+import Message from '../models/Message';
+import ScheduledMessage from '../models/ScheduledMessage';
+import { OnlineUsersMap, pushUserEvent } from './socketHelpers';
+import { canAccessChat } from './chatAccess';
+import { FilterResult, runMessageFilters } from './messageFilter';
+import { resolveMessageAudience, storeChatMessage, serializeMessage, deliverNewMessage } from './messageDelivery';
+
+const SCHEDULED_MESSAGES_INTERVAL_SECONDS = Number(process.env.SCHEDULED_MESSAGES_INTERVAL_SECONDS) || 30;
+const SCHEDULED_MESSAGES_BATCH_SIZE = 100;   // per run; the rest wait for the next tick
+
+/* -------------------------------------------------------------------------- */
+/*  1. One message                                                            */
+/* -------------------------------------------------------------------------- */
+
+type DeliveryCheck =
+  | { failure: string }
+  | { receiverId: number | null; recipientIds: number[]; filterResult: FilterResult };
+
+/**
+ * The checks POST /chats/send runs, done before any transaction so none of
+ * them waits for a second pool connection while the chat row is locked.
+ */
+const checkScheduledMessage = async (scheduled: ScheduledMessage): Promise<DeliveryCheck> => {
+  const { sender_id: senderId, chat_id: chatId } = scheduled;
+
+  const chat = await Chat.findOne({
+    where: { chat_id: chatId },
+    attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'],
+  });
+  if (!chat || !(await canAccessChat(chat, senderId))) {
+    return { failure: 'You are no longer a participant of this chat.' };
+  }
+
+  const { receiverId, recipientIds, blocked } = await resolveMessageAudience(chat, senderId);
+  if (blocked) return { failure: 'You cannot message this user.' };
+
+  const filterResult = await runMessageFilters({ senderId, chatId, text: scheduled.message, skipRateLimit: true });
+  if (filterResult.action === 'reject') return { failure: 'The message was rejected by the spam filters.' };
+
+  return { receiverId, recipientIds, filterResult };
+};
+
+/** Sends one due message; false if it failed or was no longer pending. */
+export const deliverScheduledMessage = async (
+  io: Server,
+  onlineUsers: OnlineUsersMap,
+  scheduled: ScheduledMessage
+): Promise<boolean> => {
+  const { scheduled_id: scheduledId, sender_id: senderId, chat_id: chatId } = scheduled;
+
+  const check = await checkScheduledMessage(scheduled);
+  if ('failure' in check) {
+    // only while still pending: a cancel in the meantime wins
+    const [failed] = await ScheduledMessage.update(
+      { status: 'failed', failure_reason: check.failure },
+      { where: { scheduled_id: scheduledId, status: 'pending' } }
+    );
+    if (failed === 0) return false;
+    pushUserEvent(io, onlineUsers, senderId, 'scheduled_message_failed', {
+      scheduled_id: scheduledId,
+      chat_id: chatId,
+      reason: check.failure,
+    });
+    return false;
+  }
+
+  const newMessage = await sequelize.transaction(async (trx): Promise<Message | null> => {
+    // Claim it first: a cancel (or a second server) can't race us past this point
+    const [claimed] = await ScheduledMessage.update(
+      { status: 'sent' },
+      { where: { scheduled_id: scheduledId, status: 'pending' }, transaction: trx }
+    );
+    if (claimed === 0) return null;
+
+    const chat = await Chat.findOne({
+      where: { chat_id: chatId },
+      attributes: ['chat_id', 'chat_type', 'user1_id', 'user2_id'],
+      lock: trx.LOCK.UPDATE,
+      transaction: trx,
+    });
+    // deleted since the checks: roll back, the next run fails it properly
+    if (!chat) throw new Error(`chat ${chatId} disappeared`);
+
+    const stored = await storeChatMessage(chat, senderId, check.receiverId, scheduled.message, check.filterResult, trx);
+    await ScheduledMessage.update(
+      { message_id: stored.message_id },
+      { where: { scheduled_id: scheduledId }, transaction: trx }
+    );
+    return stored;
+  });
+  if (!newMessage) return false;
+
+  const payload = serializeMessage(newMessage);
+  if (newMessage.moderation_status !== 'hidden') {
+    deliverNewMessage(io, onlineUsers, chatId, senderId, check.recipientIds, payload);
+  }
+  // the sender's other tabs / devices replace the pending entry with the real message
+  pushUserEvent(io, onlineUsers, senderId, 'scheduled_message_sent', {
+    scheduled_id: scheduledId,
+    message: payload,
+  });
+  return true;
+};
+
+/* -------------------------------------------------------------------------- */
+/*  2. One run                                                                */
+/* -------------------------------------------------------------------------- */
+
+/** Sends every message that is due; returns how many were sent. */
+export const runScheduledMessages = async (io: Server, onlineUsers: OnlineUsersMap): Promise<number> => {
+  const due = await ScheduledMessage.findAll({
+    where: { status: 'pending', deliver_at: { [Op.lte]: new Date() } },
+    order: [['deliver_at', 'ASC'], ['scheduled_id', 'ASC']],
+    limit: SCHEDULED_MESSAGES_BATCH_SIZE,
+  });
+
+  let sent = 0;
+  for (const scheduled of due) {
+    try {
+      if (await deliverScheduledMessage(io, onlineUsers, scheduled)) sent += 1;
+    } catch (err) {
+      // left pending: the next run tries again
+      console.error(`❌  scheduled message ${scheduled.scheduled_id} failed:`, err);
+    }
+  }
+  return sent;
+};
+
+/* -------------------------------------------------------------------------- */
+/*  3. Scheduling                                                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Starts the periodic delivery job (disable with SCHEDULED_MESSAGES_ENABLED=false).
+ * Runs never overlap; a slow run just delays the next one.
+ */
+export const startScheduledMessageJob = (io: Server, onlineUsers: OnlineUsersMap): NodeJS.Timeout | null => {
+  if (process.env.SCHEDULED_MESSAGES_ENABLED === 'false') return null;
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const sent = await runScheduledMessages(io, onlineUsers);
+      if (sent > 0) console.log(`⏰  sent ${sent} scheduled message(s)`);
+    } catch (err) {
+      console.error('❌  scheduled messages run failed:', err);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULED_MESSAGES_INTERVAL_SECONDS * 1000);
+
+  timer.unref();                                  // never keeps the process alive on its own
+  return timer;
+};
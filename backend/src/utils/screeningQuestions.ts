@@ -0,0 +1,259 @@
+// src/utils/screeningQuestions.ts
+/**
+ *  Screening questions an employer attaches to a job posting, and checking an
+ *  artist's answers against them when they apply.
+ *
+ *    { id, type, label, required, ...type specific }
+ *
+ *    yes_no           knockout_answers: [true] / [false]
+ *    multiple_choice  options: 2..MAX_OPTIONS strings, one is picked;
+ *                     knockout_answers: some of the options
+ *    short_text       max_length (default / cap MAX_TEXT_ANSWER_LENGTH)
+ *    number           optional min / max
+ *
+ *  Answering with one of the `knockout_answers` doesn't fail validation; the
+ *  application is stored and rejected right away. Knock-out answers are only
+ *  shown to the employer who owns the posting (see publicScreeningQuestions).
+ *
+ *  Answers are stored on the application together with the question label
+ *  and type, so they stay readable after the employer edits the questions.
+ */
+
+export const SCREENING_QUESTION_TYPES = ['yes_no', 'multiple_choice', 'short_text', 'number'] as const;
+export type ScreeningQuestionType = typeof SCREENING_QUESTION_TYPES[number];
+
+export const MAX_SCREENING_QUESTIONS = 20;
+const MAX_LABEL_LENGTH = 300;
+const MAX_OPTIONS = 20;
+const MAX_OPTION_LENGTH = 100;
+const MAX_TEXT_ANSWER_LENGTH = 2000;
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+
+export interface ScreeningQuestion {
+  id: string;
+  type: ScreeningQuestionType;
+  label: string;
+  required: boolean;
+  options?: string[];                      // multiple_choice
+  knockout_answers?: (boolean | string)[]; // yes_no, multiple_choice
+  max_length?: number;                     // short_text
+  min?: number | null;                     // number
+  max?: number | null;
+}
+
+export type ScreeningAnswerValue = boolean | string | number | null;
+
+export interface ScreeningAnswer {
+  question_id: string;
+  label: string;
+  type: ScreeningQuestionType;
+  answer: ScreeningAnswerValue;
+  knocked_out: boolean;
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Questions (employer side)                                                 */
+/* -------------------------------------------------------------------------- */
+
+const asText = (raw: unknown): string | undefined =>
+  typeof raw === 'string' && raw.trim() ? raw.trim() : undefined;
+
+const asBoolean = (raw: unknown): boolean | undefined => {
+  if (typeof raw === 'boolean') return raw;
+  if (typeof raw !== 'string') return undefined;
+  const value = raw.trim().toLowerCase();
+  if (value === 'true' || value === 'yes') return true;
+  if (value === 'false' || value === 'no') return false;
+  return undefined;
+};
+
+const asNumber = (raw: unknown): number | undefined => {
+  const value = typeof raw === 'string' && raw.trim() ? Number(raw) : raw;
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+};
+
+/** Accepts the value itself or its JSON (multipart forms send strings). */
+const fromJson = (raw: unknown): unknown => {
+  if (typeof raw !== 'string') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+const isQuestionType = (raw: unknown): raw is ScreeningQuestionType =>
+  (SCREENING_QUESTION_TYPES as readonly unknown[]).includes(raw);
+
+const parseQuestion = (input: unknown, index: number): { error: string } | { value: ScreeningQuestion } => {
+  const where = `Screening question ${index + 1}`;
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: `${where} must be an object.` };
+  const raw = input as Record<string, unknown>;
+
+  const id = raw.id === undefined || raw.id === null || raw.id === '' ? `q${index + 1}` : String(raw.id);
+  if (!ID_PATTERN.test(id)) return { error: `${where}: id may only contain letters, digits, "-" and "_".` };
+
+  const type = raw.type;
+  if (!isQuestionType(type)) {
+    return { error: `${where}: type must be one of: ${SCREENING_QUESTION_TYPES.join(', ')}.` };
+  }
+
+  const label = asText(raw.label);
+  if (!label || label.length > MAX_LABEL_LENGTH) {
+    return { error: `${where}: a label of up to ${MAX_LABEL_LENGTH} characters is required.` };
+  }
+
+  const required = raw.required === undefined ? false : asBoolean(raw.required);
+  if (required === undefined) return { error: `${where}: required must be true or false.` };
+
+  const question: ScreeningQuestion = { id, type, label, required };
+  const knockouts = raw.knockout_answers ?? [];
+  if (!Array.isArray(knockouts)) return { error: `${where}: knockout_answers must be a list.` };
+  if (knockouts.length > 0 && type !== 'yes_no' && type !== 'multiple_choice') {
+    return { error: `${where}: only yes/no and multiple choice questions can have knock-out answers.` };
+  }
+
+  switch (type) {
+    case 'yes_no': {
+      const answers = knockouts.map(asBoolean);
+      if (answers.some((a) => a === undefined)) return { error: `${where}: knockout_answers must be true or false.` };
+      if (answers.length > 0) question.knockout_answers = Array.from(new Set(answers));
+      break;
+    }
+    case 'multiple_choice': {
+      const options = Array.isArray(raw.options) ? raw.options.map(asText) : [];
+      if (options.length < 2 || options.length > MAX_OPTIONS || options.some((o) => !o || o.length > MAX_OPTION_LENGTH)) {
+        return { error: `${where}: 2 to ${MAX_OPTIONS} options of up to ${MAX_OPTION_LENGTH} characters are required.` };
+      }
+      if (new Set(options).size !== options.length) return { error: `${where}: options must be unique.` };
+      question.options = options;
+
+      const answers = knockouts.map(asText);
+      if (answers.some((a) => !a || !options.includes(a))) {
+        return { error: `${where}: knockout_answers must be some of the options.` };
+      }
+      if (answers.length > 0) question.knockout_answers = Array.from(new Set(answers));
+      break;
+    }
+    case 'short_text': {
+      const maxLength = raw.max_length === undefined || raw.max_length === null ? MAX_TEXT_ANSWER_LENGTH : asNumber(raw.max_length);
+      if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > MAX_TEXT_ANSWER_LENGTH) {
+        return { error: `${where}: max_length must be between 1 and ${MAX_TEXT_ANSWER_LENGTH}.` };
+      }
+      question.max_length = maxLength;
+      break;
+    }
+    case 'number': {
+      const min = raw.min === undefined || raw.min === null || raw.min === '' ? null : asNumber(raw.min);
+      const max = raw.max === undefined || raw.max === null || raw.max === '' ? null : asNumber(raw.max);
+      if (min === undefined || max === undefined) return { error: `${where}: min and max must be numbers.` };
+      if (min !== null && max !== null && min > max) return { error: `${where}: min cannot be greater than max.` };
+      question.min = min;
+      question.max = max;
+      break;
+    }
+  }
+  return { value: question };
+};
+
+/**
+ * Validates the `screening_questions` of createJobPosting / updateJobPosting.
+ * Missing, null or an empty list all mean "no questions" (null).
+ */
+export const parseScreeningQuestions = (raw: unknown): { error: string } | { value: ScreeningQuestion[] | null } => {
+  if (raw === undefined || raw === null || raw === '') return { value: null };
+  const list = fromJson(raw);
+  if (!Array.isArray(list)) return { error: 'screening_questions must be a list.' };
+  if (list.length > MAX_SCREENING_QUESTIONS) {
+    return { error: `A job posting can have at most ${MAX_SCREENING_QUESTIONS} screening questions.` };
+  }
+
+  const questions: ScreeningQuestion[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const parsed = parseQuestion(list[i], i);
+    if ('error' in parsed) return parsed;
+    questions.push(parsed.value);
+  }
+  if (new Set(questions.map((q) => q.id)).size !== questions.length) {
+    return { error: 'Screening question ids must be unique.' };
+  }
+  return { value: questions.length > 0 ? questions : null };
+};
+
+/** The questions as applicants see them: without the knock-out answers. */
+export const publicScreeningQuestions = (questions: ScreeningQuestion[] | null | undefined): ScreeningQuestion[] | null =>
+  questions ? questions.map(({ knockout_answers, ...question }) => question) : null;
+
+/* -------------------------------------------------------------------------- */
+/*  Answers (artist side)                                                     */
+/* -------------------------------------------------------------------------- */
+
+const parseAnswer = (question: ScreeningQuestion, raw: unknown): { error: string } | { value: ScreeningAnswerValue } => {
+  const where = `"${question.label}"`;
+  const blank = raw === undefined || raw === null || (typeof raw === 'string' && !raw.trim());
+  if (blank) return question.required ? { error: `Please answer ${where}.` } : { value: null };
+
+  switch (question.type) {
+    case 'yes_no': {
+      const answer = asBoolean(raw);
+      return answer === undefined ? { error: `The answer to ${where} must be yes or no.` } : { value: answer };
+    }
+    case 'multiple_choice': {
+      const answer = asText(raw);
+      return answer && question.options!.includes(answer)
+        ? { value: answer }
+        : { error: `The answer to ${where} must be one of: ${question.options!.join(', ')}.` };
+    }
+    case 'short_text': {
+      const answer = typeof raw === 'string' || typeof raw === 'number' ? String(raw).trim() : undefined;
+      if (answer === undefined) return { error: `The answer to ${where} must be text.` };
+      const maxLength = question.max_length ?? MAX_TEXT_ANSWER_LENGTH;
+      return answer.length <= maxLength
+        ? { value: answer }
+        : { error: `The answer to ${where} cannot be longer than ${maxLength} characters.` };
+    }
+    case 'number': {
+      const answer = asNumber(raw);
+      if (answer === undefined) return { error: `The answer to ${where} must be a number.` };
+      if (question.min !== null && question.min !== undefined && answer < question.min) {
+        return { error: `The answer to ${where} must be at least ${question.min}.` };
+      }
+      if (question.max !== null && question.max !== undefined && answer > question.max) {
+        return { error: `The answer to ${where} must be at most ${question.max}.` };
+      }
+      return { value: answer };
+    }
+  }
+};
+
+/**
+ * Checks the artist's `screening_answers` (an object keyed by question id,
+ * or its JSON) against the posting's questions. Answers to unknown
+ * questions are ignored. `knockedOut` is true when any answer is one of its
+ * question's knock-out answers.
+ */
+export const evaluateScreeningAnswers = (
+  questions: ScreeningQuestion[] | null | undefined,
+  raw: unknown
+): { error: string } | { value: { answers: ScreeningAnswer[] | null; knockedOut: boolean } } => {
+  if (!questions || questions.length === 0) return { value: { answers: null, knockedOut: false } };
+
+  const given = raw === undefined || raw === null || raw === '' ? {} : fromJson(raw);
+  if (!given || typeof given !== 'object' || Array.isArray(given)) {
+    return { error: 'screening_answers must be an object keyed by question id.' };
+  }
+
+  const answers: ScreeningAnswer[] = [];
+  for (const question of questions) {
+    const parsed = parseAnswer(question, (given as Record<string, unknown>)[question.id]);
+    if ('error' in parsed) return parsed;
+    answers.push({
+      question_id: question.id,
+      label      : question.label,
+      type       : question.type,
+      answer     : parsed.value,
+      knocked_out: parsed.value !== null && (question.knockout_answers ?? []).includes(parsed.value as boolean | string),
+    });
+  }
+  return { value: { answers, knockedOut: answers.some((a) => a.knocked_out) } };
+};
@@ -0,0 +1,70 @@
+// src/utils/search.ts
+/**
+ *  Helpers for the MySQL FULLTEXT searches (chat message search).
+ */
+
+export interface Snippet {
+  text: string;
+  /** [start, end) offsets of matched terms inside `text`, for highlighting */
+  highlights: { start: number; end: number }[];
+}
+
+const MAX_TERMS = 10;
+
+/** Lower-cased search words with the FULLTEXT boolean operators stripped. */
+export const extractSearchTerms = (q: string): string[] => {
+  const words = q
+    .toLowerCase()
+    .replace(/[+\-<>()~*"@]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  return Array.from(new Set(words)).slice(0, MAX_TERMS);
+};
+
+/**
+ * `+word*` for every term: every word must appear, as a prefix
+ * ("quot" finds "quote"). Meant for `AGAINST(... IN BOOLEAN MODE)`.
+ */
+export const toBooleanModeQuery = (terms: string[]): string =>
+  terms.map((t) => `+${t}*`).join(' ');
+
+/**
+ * Cuts a window of roughly `radius` characters around the first match and
+ * reports where the terms occur in it. Highlighting is left to the client so
+ * no HTML ever has to be injected into user content.
+ */
+export const buildSnippet = (text: string, terms: string[], radius = 60): Snippet => {
+  const lower = text.toLowerCase();
+  const firstHit = terms
+    .map((t) => lower.indexOf(t))
+    .filter((i) => i >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const start = Math.max(0, firstHit - radius);
+  const end = Math.min(text.length, firstHit + radius * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const window = text.slice(start, end);
+  const windowLower = window.toLowerCase();
+
+  const highlights: Snippet['highlights'] = [];
+  terms.forEach((term) => {
+    let from = 0;
+    let at: number;
+    while ((at = windowLower.indexOf(term, from)) !== -1) {
+      highlights.push({ start: prefix.length + at, end: prefix.length + at + term.length });
+      from = at + term.length;
+    }
+  });
+  highlights.sort((a, b) => a.start - b.start);
+
+  // Terms can overlap ("quot" + "quote") – merge them into one range
+  const merged = highlights.reduce<Snippet['highlights']>((acc, h) => {
+    const last = acc[acc.length - 1];
+    if (last && h.start <= last.end) last.end = Math.max(last.end, h.end);
+    else acc.push({ ...h });
+    return acc;
+  }, []);
+
+  return { text: `${prefix}${window}${suffix}`, highlights: merged };
+};
@@ -7,11 +7,12 @@
  */
 
 import { Server } from 'socket.io';
+import { getUserSocketIds } from './presence';
 
 /* -------------------------------------------------------------------------- */
 /*  Types                                                                     */
 /* -------------------------------------------------------------------------- */
-export type OnlineUsersMap = Map<number, string>; // userId  -> socketId
+export type OnlineUsersMap = Map<number, Set<string>>; // userId  -> socketIds (ένα ανά tab/συσκευή)
 
 /* -------------------------------------------------------------------------- */
 /*  1. Push a *notification* to συγκεκριμένο χρήστη                           */
@@ -22,12 +23,10 @@ export const pushNotification = (
   recipientId: number,
   notificationPayload: any          // π.χ. notif.toJSON()
 ) => {
-  // --- A. Στείλε σε room "user-<id>" (αν χρησιμοποιείς rooms) -------------
-  io.to(`user-${recipientId}`).emit('new_notification', notificationPayload);
-
-  // --- B. Επιπλέον ασφάλεια: άμεσο emit στο συγκεκριμένο socket -----------
-  const socketId = onlineUsers.get(recipientId);
-  if (socketId) io.to(socketId).emit('new_notification', notificationPayload);
+  // Room "user-<id>" + κάθε γνωστό socket του χρήστη. Το io.to([...]) κάνει
+  // ένωση των rooms, άρα κάθε socket παίρνει το event ΜΙΑ φορά.
+  io.to([`user-${recipientId}`, ...getUserSocketIds(onlineUsers, recipientId)])
+    .emit('new_notification', notificationPayload);
 };
 
 /* -------------------------------------------------------------------------- */
@@ -39,13 +38,55 @@ export const pushMessage = (
   io: Server,
   onlineUsers: OnlineUsersMap,
   chatRoom: string,            // String(chat.chat_id)
-  receiverId: number,
+  receiverIds: number | number[], // ένας (direct) ή όλοι οι υπόλοιποι (group)
   messagePayload: any          // newMessage.toJSON()
 ) => {
-  // 1) σε όλους όσοι έχουν ανοίξει το δωμάτιο
-  io.to(chatRoom).emit('new_message', messagePayload);
+  pushChatEvent(io, onlineUsers, chatRoom, receiverIds, 'new_message', messagePayload);
+};
+
+/*  Ίδια διανομή με το pushMessage για οποιοδήποτε event ενός chat            */
+/*  (π.χ. 'message_updated', 'message_deleted').                               */
+export const pushChatEvent = (
+  io: Server,
+  onlineUsers: OnlineUsersMap,
+  chatRoom: string,
+  receiverIds: number | number[],
+  event: string,
+  payload: any
+) => {
+  // σε όσους έχουν ανοίξει το δωμάτιο + όλα τα sockets των παραληπτών
+  // (ακόμα κι αν δεν είναι στο δωμάτιο) – χωρίς διπλά events
+  const receivers = Array.isArray(receiverIds) ? receiverIds : [receiverIds];
+  const rooms = receivers.flatMap((id) => [`user-${id}`, ...getUserSocketIds(onlineUsers, id)]);
+  io.to([chatRoom, ...rooms]).emit(event, payload);
+};
+
+/* -------------------------------------------------------------------------- */
+/*  3. Push οποιοδήποτε event σε όλα τα sockets ενός χρήστη                   */
+/* -------------------------------------------------------------------------- */
+/*  π.χ. 'messages_read' προς τον αποστολέα των μηνυμάτων.                     */
+export const pushUserEvent = (
+  io: Server,
+  onlineUsers: OnlineUsersMap,
+  userId: number,
+  event: string,
+  payload: any
+) => {
+  io.to([`user-${userId}`, ...getUserSocketIds(onlineUsers, userId)]).emit(event, payload);
+};
+
+/* -------------------------------------------------------------------------- */
+/*  4. Κλείσιμο sockets όταν ανακαλείται session (logout, νέος κωδικός κλπ)   */
+/* -------------------------------------------------------------------------- */
+/*  Κάθε socket μπαίνει στο room "session-<sid>" του token του (server.ts).    */
+export const sessionRoom = (sessionId: number) => `session-${sessionId}`;
+
+export const disconnectSessionSockets = (io: Server, sessionId: number) => {
+  io.to(sessionRoom(sessionId)).emit('session_revoked');
+  io.in(sessionRoom(sessionId)).disconnectSockets(true);
+};
 
-  // 2) plus τον παραλήπτη αν είναι online αλλά όχι στο δωμάτιο
-  const socketId = onlineUsers.get(receiverId);
-  if (socketId) io.to(socketId).emit('new_message', messagePayload);
+export const disconnectUserSockets = (io: Server, userId: number) => {
+  io.to(`user-${userId}`).emit('session_revoked');
+  io.in(`user-${userId}`).disconnectSockets(true);
 };
@@ -0,0 +1,62 @@
+// src/utils/storage.ts
+/**
+ *  Thin wrapper around Cloudinary uploads, shared by the portfolio and the
+ *  chat attachment endpoints. Cloudinary itself is configured in server.ts.
+ */
+import { v2 as cloudinary, UploadApiResponse, ResourceType } from 'cloudinary';
+import type { PortfolioItemType } from '../models/Portfolio';
+
+export type StoredItemType = PortfolioItemType;
+
+export const getFileTypeDetails = (mimetype: string): { itemType: StoredItemType, resourceType: ResourceType } => {
+  if (mimetype.startsWith('image/')) return { itemType: 'image', resourceType: 'image' };
+  if (mimetype === 'application/pdf') return { itemType: 'pdf', resourceType: 'raw' }; // PDFs must be 'raw'
+  if (mimetype.startsWith('video/')) return { itemType: 'video', resourceType: 'video' };
+  return { itemType: 'other', resourceType: 'raw' };
+};
+
+/**
+ * Streams an in-memory (multer) buffer to Cloudinary.
+ * Pass `type: 'authenticated'` in the options for files that must only be
+ * reachable through signed URLs.
+ */
+export const uploadBuffer = (buffer: Buffer, options: Record<string, any>): Promise<UploadApiResponse> => {
+  const uploadOptions = { ...options };
+  if (uploadOptions.resource_type === 'video' && !uploadOptions.chunk_size) {
+    uploadOptions.chunk_size = 6000000; // 6MB chunks for large videos
+  }
+
+  return new Promise<UploadApiResponse>((resolve, reject) => {
+    const stream = cloudinary.uploader.upload_stream(uploadOptions, (error, result) => {
+      if (result) { resolve(result); } else { reject(error || new Error('Cloudinary upload failed.')); }
+    });
+    stream.end(buffer);
+  });
+};
+
+export const deleteStoredFile = async (
+  publicId: string,
+  resourceType: ResourceType,
+  deliveryType: 'upload' | 'authenticated' = 'upload'
+): Promise<void> => {
+  await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, type: deliveryType });
+};
+
+/**
+ * Short-lived download URL for an `authenticated` asset. Raw files keep their
+ * extension in the public_id, so `format` is empty for them.
+ */
+export const getSignedFileUrl = (
+  publicId: string,
+  resourceType: ResourceType,
+  format: string | null,
+  expiresInSeconds: number
+): { url: string; expiresAt: Date } => {
+  const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+  const url = cloudinary.utils.private_download_url(publicId, format || '', {
+    resource_type: resourceType,
+    type: 'authenticated',
+    expires_at: Math.floor(expiresAt.getTime() / 1000),
+  });
+  return { url, expiresAt };
+};
@@ -0,0 +1,101 @@
+/* -------------------------------------------------------------------------- */
+/*  utils/typing.ts (backend)                                                 */
+/* -------------------------------------------------------------------------- */
+/**
+ *  "X is typing…" indicators. Clients emit `typing_start` while the user
+ *  types and `typing_stop` when they stop or send; the other participant's
+ *  sockets in the chat room receive the same event names.
+ *
+ *  - only chat participants may signal (checked once per chat per socket)
+ *  - nothing is relayed between users who have blocked each other (direct chats)
+ *  - `typing_start` is rebroadcast at most once per TYPING_THROTTLE_MS
+ *  - an indicator expires by itself after TYPING_TIMEOUT_MS without a new
+ *    `typing_start`, so a closed tab never leaves someone "typing" forever
+ */
+
+import { Socket } from 'socket.io';
+import { chatRoom, findChatForParticipant } from './chatAccess';
+import { isBlockedBetween } from './blocks';
+
+export const TYPING_THROTTLE_MS = 2_000;
+export const TYPING_TIMEOUT_MS = 5_000;
+
+export interface TypingPayload {
+  chat_id: number;
+  user_id: number;
+}
+
+interface TypingState {
+  lastBroadcastAt: number;
+  expireTimer: NodeJS.Timeout;
+}
+
+export const registerTypingHandlers = (socket: Socket, userId: number): void => {
+  const allowedChats = new Map<number, number | null>(); // chatId -> other participant (null in groups), verified for this socket
+  const active = new Map<number, TypingState>(); // chatId -> indicator currently shown
+
+  const canSignal = async (rawChatId: unknown): Promise<number | null> => {
+    const chatId = Number(rawChatId);
+    if (!chatId || Number.isNaN(chatId)) return null;
+    if (allowedChats.has(chatId)) {
+      // group members can leave, which also takes their sockets out of the room
+      return allowedChats.get(chatId) === null && !socket.rooms.has(chatRoom(chatId)) ? null : chatId;
+    }
+
+    const chat = await findChatForParticipant(chatId, userId);
+    if (!chat) return null;
+    allowedChats.set(chatId, chat.chat_type === 'group' ? null : (chat.user1_id === userId ? chat.user2_id : chat.user1_id));
+    return chatId;
+  };
+
+  // Everyone in the chat room except the typist's own tabs/devices
+  const broadcast = (event: 'typing_start' | 'typing_stop', chatId: number) => {
+    const payload: TypingPayload = { chat_id: chatId, user_id: userId };
+    socket.to(chatRoom(chatId)).except(`user-${userId}`).emit(event, payload);
+  };
+
+  const stop = (chatId: number) => {
+    const state = active.get(chatId);
+    if (!state) return;
+    clearTimeout(state.expireTimer);
+    active.delete(chatId);
+    broadcast('typing_stop', chatId);
+  };
+
+  socket.on('typing_start', async (rawChatId: unknown) => {
+    try {
+      const chatId = await canSignal(rawChatId);
+      if (!chatId) return;
+
+      const now = Date.now();
+      const state = active.get(chatId);
+      if (state) clearTimeout(state.expireTimer);
+
+      const expireTimer = setTimeout(() => stop(chatId), TYPING_TIMEOUT_MS);
+      if (!state || now - state.lastBroadcastAt >= TYPING_THROTTLE_MS) {
+        // Re-checked on every broadcast (at most once per throttle window) – a block can start mid-chat
+        const partnerId = allowedChats.get(chatId);
+        if (partnerId && await isBlockedBetween(userId, partnerId)) {
+          clearTimeout(expireTimer);
+          stop(chatId);
+          return;
+        }
+        active.set(chatId, { lastBroadcastAt: now, expireTimer });
+        broadcast('typing_start', chatId);
+      } else {
+        active.set(chatId, { lastBroadcastAt: state.lastBroadcastAt, expireTimer });
+      }
+    } catch (err) {
+      console.error('❌  typing_start failed:', err);
+    }
+  });
+
+  socket.on('typing_stop', (rawChatId: unknown) => {
+    const chatId = Number(rawChatId);
+    if (chatId) stop(chatId);                    // only ever set after the membership check
+  });
+
+  socket.on('disconnect', () => {
+    Array.from(active.keys()).forEach(stop);
+  });
+};
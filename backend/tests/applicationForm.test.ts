@@ -0,0 +1,47 @@
+import { parseApplicationForm, MAX_APPLICATION_PORTFOLIO_ITEMS, MAX_COVER_LETTER_LENGTH } from '../src/utils/applicationForm';
+
+describe('parseApplicationForm', () => {
+  it('leaves unset fields null', () => {
+    expect(parseApplicationForm({})).toEqual({
+      value: { cover_letter: null, proposed_rate: null, available_from: null, available_to: null, portfolio_item_ids: null },
+    });
+  });
+
+  it('normalizes multipart strings', () => {
+    const parsed = parseApplicationForm({
+      cover_letter: '  Hello  ',
+      proposed_rate: '150.456',
+      available_from: '2026-11-01',
+      available_to: '2026-11-30',
+      portfolio_item_ids: '3, 5,3',
+    });
+    expect(parsed).toEqual({
+      value: {
+        cover_letter: 'Hello',
+        proposed_rate: 150.46,
+        available_from: '2026-11-01',
+        available_to: '2026-11-30',
+        portfolio_item_ids: [3, 5],
+      },
+    });
+  });
+
+  it('accepts portfolio ids as an array or JSON', () => {
+    expect(parseApplicationForm({ portfolio_item_ids: [1, '2'] })).toMatchObject({ value: { portfolio_item_ids: [1, 2] } });
+    expect(parseApplicationForm({ portfolio_item_ids: '[4,6]' })).toMatchObject({ value: { portfolio_item_ids: [4, 6] } });
+  });
+
+  it.each([
+    [{ cover_letter: 'x'.repeat(MAX_COVER_LETTER_LENGTH + 1) }, /cover letter/],
+    [{ proposed_rate: '-1' }, /proposed_rate/],
+    [{ proposed_rate: 'cheap' }, /proposed_rate/],
+    [{ available_from: '01/11/2026' }, /dates/],
+    [{ available_from: '2026-12-01', available_to: '2026-11-01' }, /after/],
+    [{ portfolio_item_ids: '1,abc' }, /portfolio_item_ids/],
+    [{ portfolio_item_ids: '[1,' }, /portfolio_item_ids/],
+    [{ portfolio_item_ids: Array.from({ length: MAX_APPLICATION_PORTFOLIO_ITEMS + 1 }, (_, i) => i + 1) }, /at most/],
+  ])('rejects %j', (body, message) => {
+    const parsed = parseApplicationForm(body as Record<string, unknown>);
+    expect('error' in parsed && parsed.error).toMatch(message);
+  });
+});
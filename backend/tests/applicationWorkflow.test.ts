@@ -0,0 +1,35 @@
+import { canTransition, isAcceptingApplications } from '../src/utils/applicationWorkflow';
+
+describe('canTransition', () => {
+  it('allows moving an open application forward', () => {
+    expect(canTransition('pending', 'shortlisted')).toBe(true);
+    expect(canTransition('viewed', 'hired')).toBe(true);
+    expect(canTransition('shortlisted', 'rejected')).toBe(true);
+  });
+
+  it('lets a rejected application be reconsidered only by shortlisting', () => {
+    expect(canTransition('rejected', 'shortlisted')).toBe(true);
+    expect(canTransition('rejected', 'hired')).toBe(false);
+  });
+
+  it('never moves backwards or out of a final status', () => {
+    expect(canTransition('shortlisted', 'viewed')).toBe(false);
+    expect(canTransition('hired', 'rejected')).toBe(false);
+    expect(canTransition('withdrawn', 'shortlisted')).toBe(false);
+  });
+});
+
+describe('isAcceptingApplications', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('is always open without a deadline', () => {
+    expect(isAcceptingApplications({ application_deadline: null })).toBe(true);
+  });
+
+  it('stays open until the end of the deadline day', () => {
+    jest.useFakeTimers().setSystemTime(new Date(2026, 9, 19, 23, 30));
+    expect(isAcceptingApplications({ application_deadline: '2026-10-19T00:00:00' })).toBe(true);
+    jest.setSystemTime(new Date(2026, 9, 20, 0, 1));
+    expect(isAcceptingApplications({ application_deadline: '2026-10-19T00:00:00' })).toBe(false);
+  });
+});
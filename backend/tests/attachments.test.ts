@@ -0,0 +1,126 @@
+import Chat from '../src/models/Chat';
+import ChatSetting from '../src/models/ChatSetting';
+import Message from '../src/models/Message';
+import MessageAttachment from '../src/models/MessageAttachment';
+import User from '../src/models/User';
+import UserBlock from '../src/models/UserBlock';
+import * as storage from '../src/utils/storage';
+import { getAttachmentUrl, sendAttachmentMessage } from '../src/controllers/chatController';
+import { mockIo, mockResponse, runTransactionsInline, settle } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+const directChat = { chat_id: 10, chat_type: 'direct', user1_id: 5, user2_id: 7 };
+
+const file = (name: string, mimetype: string) =>
+  ({ originalname: name, mimetype, size: 1024, buffer: Buffer.from(name) }) as Express.Multer.File;
+
+const uploadRequest = (files: Express.Multer.File[], userId = 5) =>
+  ({ user: { id: userId }, params: { chat_id: '10' }, body: { message: ' contract ' }, files, io: mockIo(), onlineUsers: new Map() }) as any;
+
+const stored = (publicId: string) => ({ public_id: publicId, resource_type: 'raw', format: null }) as any;
+
+describe('getFileTypeDetails', () => {
+  it.each([
+    ['image/png', 'image', 'image'],
+    ['application/pdf', 'pdf', 'raw'],
+    ['video/mp4', 'video', 'video'],
+    ['application/zip', 'other', 'raw'],
+  ])('maps %s', (mimetype, itemType, resourceType) => {
+    expect(storage.getFileTypeDetails(mimetype)).toEqual({ itemType, resourceType });
+  });
+});
+
+describe('sendAttachmentMessage', () => {
+  beforeEach(() => {
+    jest.spyOn(Chat, 'findByPk').mockResolvedValue(directChat as any);
+    jest.spyOn(UserBlock, 'findOne').mockResolvedValue(null);
+    jest.spyOn(Message, 'count').mockResolvedValue(0 as any);
+  });
+
+  it('requires at least one file', async () => {
+    const res = mockResponse();
+    await sendAttachmentMessage(uploadRequest([]), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('refuses users outside the chat before uploading', async () => {
+    const upload = jest.spyOn(storage, 'uploadBuffer');
+    const res = mockResponse();
+
+    await sendAttachmentMessage(uploadRequest([file('a.pdf', 'application/pdf')], 9), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it('uploads privately and stores the message with its files', async () => {
+    runTransactionsInline();
+    jest.spyOn(Chat, 'update').mockResolvedValue([1] as any);
+    jest.spyOn(ChatSetting, 'findAll').mockResolvedValue([]);
+    jest.spyOn(User, 'findByPk').mockResolvedValue({ fullname: 'Maria' } as any);
+    const upload = jest.spyOn(storage, 'uploadBuffer').mockResolvedValue(stored('chat_attachments/10/a'));
+    jest.spyOn(Message, 'create').mockResolvedValue({ message_id: 50, toJSON: () => ({ message_id: 50 }) } as any);
+    const bulkCreate = jest.spyOn(MessageAttachment, 'bulkCreate').mockImplementation((async (rows: any[]) =>
+      rows.map((row, i) => ({ ...row, attachment_id: i + 1 }))) as any);
+    const req = uploadRequest([file('a.pdf', 'application/pdf')]);
+    const res = mockResponse();
+
+    await sendAttachmentMessage(req, res);
+    await settle();
+
+    expect(upload).toHaveBeenCalledWith(expect.any(Buffer), expect.objectContaining({ type: 'authenticated', resource_type: 'raw' }));
+    expect(bulkCreate.mock.calls[0][0][0]).toMatchObject({ message_id: 50, uploader_id: 5, item_type: 'pdf', public_id: 'chat_attachments/10/a' });
+    expect(res.status).toHaveBeenCalledWith(201);
+    const { data } = res.json.mock.calls[0][0];
+    expect(data.attachments[0]).not.toHaveProperty('public_id');
+    expect(req.io.emit).toHaveBeenCalledWith('new_message', data);
+  });
+
+  it('deletes the files already uploaded when a later step fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(storage, 'uploadBuffer')
+      .mockResolvedValueOnce(stored('chat_attachments/10/a'))
+      .mockRejectedValueOnce({ http_code: 400, message: 'Invalid video' });
+    const remove = jest.spyOn(storage, 'deleteStoredFile').mockResolvedValue();
+    const res = mockResponse();
+
+    await sendAttachmentMessage(uploadRequest([file('a.pdf', 'application/pdf'), file('b.mp4', 'video/mp4')]), res);
+
+    expect(remove).toHaveBeenCalledWith('chat_attachments/10/a', 'raw', 'authenticated');
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
+
+describe('getAttachmentUrl', () => {
+  const attachment = (message: object) => ({
+    attachment_id: 3, message_id: 50, file_name: 'a.pdf', mime_type: 'application/pdf', size_bytes: 1024, item_type: 'pdf',
+    public_id: 'chat_attachments/10/a', resource_type: 'raw', format: null,
+    message: { sender_id: 7, deleted_at: null, moderation_status: 'clean', chat: directChat, ...message },
+  });
+  const request = (userId: number) => ({ user: { id: userId }, params: { attachment_id: '3' } }) as any;
+
+  it('hands a signed URL to a participant', async () => {
+    jest.spyOn(MessageAttachment, 'findByPk').mockResolvedValue(attachment({}) as any);
+    jest.spyOn(storage, 'getSignedFileUrl').mockReturnValue({ url: 'https://signed', expiresAt: new Date() });
+    const res = mockResponse();
+
+    await getAttachmentUrl(request(5), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ attachment_id: 3, url: 'https://signed' }));
+  });
+
+  it.each([
+    ['an outsider', 9, {}],
+    ['an unsent message', 5, { deleted_at: new Date() }],
+    ['a message hidden by moderation', 5, { moderation_status: 'hidden' }],
+  ])('answers 404 for %s', async (_case, userId, message) => {
+    jest.spyOn(MessageAttachment, 'findByPk').mockResolvedValue(attachment(message) as any);
+    const res = mockResponse();
+
+    await getAttachmentUrl(request(userId), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
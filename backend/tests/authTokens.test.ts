@@ -0,0 +1,113 @@
+import jwt from 'jsonwebtoken';
+import Session from '../src/models/Session';
+import {
+  createSession,
+  hashToken,
+  revokeAllSessions,
+  rotateRefreshToken,
+  verifyAccessToken,
+} from '../src/utils/authTokens';
+
+const user = { user_id: 5, username: 'maria', user_type: 'Artist' } as any;
+
+const storedSession = (secret: string, changes: Record<string, unknown> = {}) => {
+  const session: any = {
+    session_id: 12,
+    user,
+    refresh_token_hash: hashToken(secret),
+    revoked_at: null,
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    ...changes,
+  };
+  session.update = jest.fn(async (values: object) => Object.assign(session, values));
+  jest.spyOn(Session, 'findByPk').mockResolvedValue(session);
+  return session;
+};
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('createSession', () => {
+  it('stores only the hash of the refresh token', async () => {
+    const create = jest.spyOn(Session, 'create').mockResolvedValue({ session_id: 12 } as any);
+
+    const { token, refreshToken } = await createSession(user, 'Firefox');
+
+    const [sessionId, secret] = refreshToken.split('.');
+    expect(sessionId).toBe('12');
+    expect(create.mock.calls[0][0]).toMatchObject({ user_id: 5, refresh_token_hash: hashToken(secret), user_agent: 'Firefox' });
+    expect(jwt.decode(token)).toMatchObject({ id: 5, sid: 12 });
+  });
+});
+
+describe('rotateRefreshToken', () => {
+  it('rotates the secret when nobody else did', async () => {
+    storedSession('old');
+    const update = jest.spyOn(Session, 'update').mockResolvedValue([1] as any);
+
+    const tokens = await rotateRefreshToken('12.old');
+
+    expect(tokens.refreshToken).toMatch(/^12\.[0-9a-f]{64}$/);
+    expect(update.mock.calls[0][1].where).toEqual({ session_id: 12, refresh_token_hash: hashToken('old'), revoked_at: null });
+    expect((update.mock.calls[0][0] as any).refresh_token_hash).toBe(hashToken(tokens.refreshToken.split('.')[1]));
+  });
+
+  it('loses a race without revoking the session', async () => {
+    const session = storedSession('old');
+    jest.spyOn(Session, 'update').mockResolvedValue([0] as any);
+
+    expect(await rotateRefreshToken('12.old')).toBeNull();
+    expect(session.update).not.toHaveBeenCalled();
+  });
+
+  it('revokes the session when an already rotated token is replayed', async () => {
+    const session = storedSession('current');
+    const update = jest.spyOn(Session, 'update');
+
+    expect(await rotateRefreshToken('12.stolen')).toBeNull();
+    expect(session.update).toHaveBeenCalledWith({ revoked_at: expect.any(Date) });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a revoked', { revoked_at: new Date() }],
+    ['an expired', { expires_at: new Date(Date.now() - 1000) }],
+  ])('refuses %s session', async (_name, changes) => {
+    storedSession('old', changes);
+    expect(await rotateRefreshToken('12.old')).toBeNull();
+  });
+
+  it('refuses malformed tokens', async () => {
+    const findByPk = jest.spyOn(Session, 'findByPk');
+    expect(await rotateRefreshToken('garbage')).toBeNull();
+    expect(findByPk).not.toHaveBeenCalled();
+  });
+});
+
+describe('revokeAllSessions', () => {
+  it('revokes every open session of the user', async () => {
+    const update = jest.spyOn(Session, 'update').mockResolvedValue([3] as any);
+    await revokeAllSessions(5);
+    expect(update).toHaveBeenCalledWith({ revoked_at: expect.any(Date) }, { where: { user_id: 5, revoked_at: null }, transaction: undefined });
+  });
+});
+
+describe('verifyAccessToken', () => {
+  const sign = (payload: object) => jwt.sign(payload, process.env.JWT_SECRET || 'default_secret');
+
+  it('accepts a token of an active session', async () => {
+    jest.spyOn(Session, 'findOne').mockResolvedValue({ session_id: 12 } as any);
+    expect(await verifyAccessToken(sign({ id: 5, sid: 12 }))).toMatchObject({ id: 5, sid: 12 });
+  });
+
+  it('rejects a token once its session is revoked', async () => {
+    jest.spyOn(Session, 'findOne').mockResolvedValue(null);
+    expect(await verifyAccessToken(sign({ id: 5, sid: 12 }))).toBeNull();
+  });
+
+  it('rejects tokens without a session and bad signatures', async () => {
+    const findOne = jest.spyOn(Session, 'findOne');
+    expect(await verifyAccessToken(sign({ id: 5 }))).toBeNull();
+    expect(await verifyAccessToken(jwt.sign({ id: 5, sid: 12 }, 'another secret'))).toBeNull();
+    expect(findOne).not.toHaveBeenCalled();
+  });
+});
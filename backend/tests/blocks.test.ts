@@ -0,0 +1,109 @@
+import { Op } from 'sequelize';
+import Chat from '../src/models/Chat';
+import User from '../src/models/User';
+import UserBlock from '../src/models/UserBlock';
+import UserReport from '../src/models/UserReport';
+import { excludeHiddenUsers, getHiddenUserIds, isBlockedBetween } from '../src/utils/blocks';
+import { blockUser, unblockUser } from '../src/controllers/userBlockController';
+import { createChat } from '../src/controllers/chatController';
+import { mockResponse } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('block checks', () => {
+  it('works both ways', async () => {
+    const findOne = jest.spyOn(UserBlock, 'findOne').mockResolvedValue({ block_id: 1 } as any);
+
+    expect(await isBlockedBetween(5, 7)).toBe(true);
+    expect(findOne.mock.calls[0][0]!.where).toEqual({
+      [Op.or]: [{ blocker_id: 5, blocked_id: 7 }, { blocker_id: 7, blocked_id: 5 }],
+    });
+  });
+
+  it('hides blocked users and users who blocked you, once each', async () => {
+    jest.spyOn(UserBlock, 'findAll').mockResolvedValue([
+      { blocker_id: 5, blocked_id: 7 },
+      { blocker_id: 8, blocked_id: 5 },
+      { blocker_id: 7, blocked_id: 5 },
+    ] as any);
+
+    expect(await getHiddenUserIds(5)).toEqual([7, 8]);
+    expect(await excludeHiddenUsers(5, 'artist_user_id')).toEqual({ artist_user_id: { [Op.notIn]: [7, 8] } });
+  });
+
+  it('filters nothing for guests and users without blocks', async () => {
+    jest.spyOn(UserBlock, 'findAll').mockResolvedValue([]);
+    expect(await excludeHiddenUsers(undefined)).toEqual({});
+    expect(await excludeHiddenUsers(5)).toEqual({});
+  });
+});
+
+describe('blockUser', () => {
+  const request = (userId: string, body: object = {}) => ({ user: { id: 5 }, params: { userId }, body }) as any;
+
+  beforeEach(() => jest.spyOn(User, 'findByPk').mockResolvedValue({ user_id: 7 } as any));
+
+  it('refuses blocking yourself and unknown reasons', async () => {
+    for (const req of [request('5'), request('7', { reason: 'rude' })]) {
+      const res = mockResponse();
+      await blockUser(req, res);
+      expect(res.status).toHaveBeenCalledWith(400);
+    }
+  });
+
+  it('blocks once and files the report', async () => {
+    jest.spyOn(UserBlock, 'findOrCreate').mockResolvedValue([{ block_id: 1 }, true] as any);
+    const create = jest.spyOn(UserReport, 'create').mockResolvedValue({ report_id: 4 } as any);
+    const res = mockResponse();
+
+    await blockUser(request('7', { reason: 'spam', details: '  links everywhere ' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ report_id: 4 }));
+    expect(create).toHaveBeenCalledWith({ reporter_id: 5, reported_id: 7, reason: 'spam', details: 'links everywhere', chat_id: null });
+  });
+
+  it('answers 200 when the user was already blocked', async () => {
+    jest.spyOn(UserBlock, 'findOrCreate').mockResolvedValue([{ block_id: 1 }, false] as any);
+    const res = mockResponse();
+
+    await blockUser(request('7'), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it("only attaches the reporter's own chats to a report", async () => {
+    jest.spyOn(Chat, 'findByPk').mockResolvedValue({ chat_id: 10, chat_type: 'direct', user1_id: 7, user2_id: 8 } as any);
+    const block = jest.spyOn(UserBlock, 'findOrCreate');
+    const res = mockResponse();
+
+    await blockUser(request('7', { reason: 'scam', chat_id: 10 }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(block).not.toHaveBeenCalled();
+  });
+});
+
+describe('unblockUser', () => {
+  it('answers 404 when there was no block', async () => {
+    jest.spyOn(UserBlock, 'destroy').mockResolvedValue(0);
+    const res = mockResponse();
+
+    await unblockUser({ user: { id: 5 }, params: { userId: '7' } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('createChat', () => {
+  it('refuses to start a chat across a block', async () => {
+    jest.spyOn(UserBlock, 'findOne').mockResolvedValue({ block_id: 1 } as any);
+    const findOrCreate = jest.spyOn(Chat, 'findOrCreate');
+    const res = mockResponse();
+
+    await createChat({ user: { id: 5 }, body: { receiverId: 7 } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(findOrCreate).not.toHaveBeenCalled();
+  });
+});
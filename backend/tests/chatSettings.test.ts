@@ -0,0 +1,96 @@
+import Chat from '../src/models/Chat';
+import ChatSetting from '../src/models/ChatSetting';
+import User from '../src/models/User';
+import { notifyNewMessage } from '../src/utils/messageDelivery';
+import { updateChatSettings } from '../src/controllers/chatController';
+import { mockIo, mockResponse } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+// Setting row of user 5 for chat 10; update() applies the changes like a model would
+const storedSetting = (fields: object = {}) => {
+  const setting: any = { archived: false, muted: false, pinned: false, pinned_at: null, ...fields };
+  setting.update = jest.fn(async (changes: object) => Object.assign(setting, changes));
+  return setting;
+};
+
+const request = (body: object) => ({ user: { id: 5 }, params: { chat_id: '10' }, body }) as any;
+
+describe('updateChatSettings', () => {
+  beforeEach(() => jest.spyOn(Chat, 'findByPk').mockResolvedValue({ chat_id: 10, chat_type: 'direct', user1_id: 5, user2_id: 7 } as any));
+
+  it.each([
+    ['no flag', {}],
+    ['a flag that is not a boolean', { muted: 'yes' }],
+  ])('answers 400 for %s', async (_case, body) => {
+    const res = mockResponse();
+    await updateChatSettings(request(body), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('changes only the flags sent and stamps pinned_at', async () => {
+    const setting = storedSetting({ muted: true });
+    jest.spyOn(ChatSetting, 'findOrCreate').mockResolvedValue([setting, false]);
+    jest.spyOn(ChatSetting, 'count').mockResolvedValue(0 as any);
+    const res = mockResponse();
+
+    await updateChatSettings(request({ pinned: true }), res);
+
+    expect(setting.update).toHaveBeenCalledWith({ pinned: true, pinned_at: expect.any(Date) });
+    expect(res.json).toHaveBeenCalledWith({ chat_id: 10, settings: { archived: false, muted: true, pinned: true } });
+  });
+
+  it('refuses a pin over the limit', async () => {
+    const setting = storedSetting();
+    jest.spyOn(ChatSetting, 'findOrCreate').mockResolvedValue([setting, false]);
+    const count = jest.spyOn(ChatSetting, 'count').mockResolvedValue(5 as any);
+    const res = mockResponse();
+
+    await updateChatSettings(request({ pinned: true }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(count.mock.calls[0][0]!.where).toEqual({ user_id: 5, pinned: true, archived: false });
+    expect(setting.update).not.toHaveBeenCalled();
+  });
+
+  it('counts unarchiving a pinned chat against the limit', async () => {
+    jest.spyOn(ChatSetting, 'findOrCreate').mockResolvedValue([storedSetting({ pinned: true, archived: true }), false]);
+    jest.spyOn(ChatSetting, 'count').mockResolvedValue(5 as any);
+    const res = mockResponse();
+
+    await updateChatSettings(request({ archived: false }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+
+  it('lets a pinned chat be archived at the limit', async () => {
+    const setting = storedSetting({ pinned: true });
+    jest.spyOn(ChatSetting, 'findOrCreate').mockResolvedValue([setting, false]);
+    const count = jest.spyOn(ChatSetting, 'count');
+    const res = mockResponse();
+
+    await updateChatSettings(request({ archived: true }), res);
+
+    expect(count).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+});
+
+describe('notifyNewMessage', () => {
+  it('sends a transient notification to the recipients who did not mute the chat', async () => {
+    jest.spyOn(ChatSetting, 'findAll').mockResolvedValue([{ user_id: 8 }] as any);
+    jest.spyOn(User, 'findByPk').mockResolvedValue({ fullname: 'Maria' } as any);
+    const io = mockIo();
+
+    await notifyNewMessage(io, new Map(), 30, 5, [7, 8]);
+
+    expect(io.to).toHaveBeenCalledTimes(1);
+    expect(io.to).toHaveBeenCalledWith(['user-7']);
+    expect(io.emit).toHaveBeenCalledWith('new_notification', expect.objectContaining({
+      chat_id: 30,
+      message_key: 'notifications.newMessage',
+      message_params: { name: 'Maria' },
+      transient: true,
+    }));
+  });
+});
@@ -0,0 +1,41 @@
+import { renderTranscriptPdf, renderTranscriptText, Transcript } from '../src/utils/chatTranscript';
+
+const transcript: Transcript = {
+  chat_id: 7,
+  chat_type: 'direct',
+  title: null,
+  participants: [
+    { user_id: 1, fullname: 'Μαρία Παπαδοπούλου', user_type: 'Artist' },
+    { user_id: 2, fullname: 'Nikos', user_type: 'Employer' },
+  ],
+  exported_at: new Date('2026-10-19T12:00:00Z'),
+  exported_by: 2,
+  messages: [
+    {
+      message_id: 1, sender_id: 1, sender_name: 'Μαρία Παπαδοπούλου', sent_at: new Date('2026-10-19T10:00:00Z'),
+      edited_at: null, deleted: false, text: 'Καλημέρα!',
+      attachments: [{ attachment_id: 3, file_name: 'cv.pdf', mime_type: 'application/pdf', size_bytes: 2048 }],
+    },
+    {
+      message_id: 2, sender_id: 2, sender_name: 'Nikos', sent_at: new Date('2026-10-19T10:05:00Z'),
+      edited_at: null, deleted: true, text: null, attachments: [],
+    },
+  ],
+};
+
+describe('renderTranscriptText', () => {
+  it('lists every message with its timestamp', () => {
+    const text = renderTranscriptText(transcript);
+    expect(text).toContain('[2026-10-19 10:00:00 UTC] Μαρία Παπαδοπούλου: Καλημέρα!');
+    expect(text).toContain('    [Attachment #3: cv.pdf, application/pdf, 2 KB]');
+    expect(text).toContain('[2026-10-19 10:05:00 UTC] Nikos: [message deleted]');
+  });
+});
+
+describe('renderTranscriptPdf', () => {
+  it('embeds the bundled Unicode font', async () => {
+    const pdf = await renderTranscriptPdf(transcript);
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pdf.includes('DejaVuSans')).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import nodemailer from 'nodemailer';
+import User from '../src/models/User';
+import EmailVerificationToken from '../src/models/EmailVerificationToken';
+import { resendVerificationEmail, verifyEmail } from '../src/controllers/userController';
+import { requireVerifiedEmail } from '../src/middleware/verifiedEmailMiddleware';
+import { hashToken } from '../src/utils/authTokens';
+import { clearCapturedMails, getCapturedMails, setMailTransport } from '../src/utils/mailer';
+import { mockResponse, runTransactionsInline } from './helpers';
+
+beforeAll(() => {
+  process.env.MAIL_TRANSPORT = 'capture';
+  setMailTransport(nodemailer.createTransport({ jsonTransport: true }));
+});
+afterAll(() => {
+  delete process.env.MAIL_TRANSPORT;
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+  clearCapturedMails();
+});
+
+const storedUser = (values: Record<string, unknown>) => {
+  const user: any = { user_id: 5, email: 'maria@example.com', pending_email: null, verified_at: null, ...values };
+  user.save = jest.fn(async () => user);
+  jest.spyOn(User, 'findByPk').mockResolvedValue(user);
+  return user;
+};
+
+const storedToken = (email: string) => {
+  const verification: any = { user_id: 5, email, update: jest.fn() };
+  jest.spyOn(EmailVerificationToken, 'findOne').mockResolvedValue(verification);
+  return verification;
+};
+
+describe('verifyEmail', () => {
+  beforeEach(() => runTransactionsInline());
+
+  it('verifies the address the link was sent to', async () => {
+    const user = storedUser({});
+    const verification = storedToken('maria@example.com');
+    const res = mockResponse();
+
+    await verifyEmail({ query: { token: 'abc' } } as any, res);
+
+    expect(EmailVerificationToken.findOne).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ token_hash: hashToken('abc'), used_at: null }),
+    }));
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(user.verified_at).toBeInstanceOf(Date);
+    expect(verification.update).toHaveBeenCalledWith({ used_at: expect.any(Date) }, expect.anything());
+  });
+
+  it('swaps in the pending address on an email change', async () => {
+    const user = storedUser({ verified_at: new Date(), pending_email: 'new@example.com' });
+    storedToken('new@example.com');
+    jest.spyOn(User, 'findOne').mockResolvedValue(null);
+    const res = mockResponse();
+
+    await verifyEmail({ query: { token: 'abc' } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(user.email).toBe('new@example.com');
+    expect(user.pending_email).toBeNull();
+  });
+
+  it('refuses a pending address another account took meanwhile', async () => {
+    const user = storedUser({ pending_email: 'new@example.com' });
+    storedToken('new@example.com');
+    jest.spyOn(User, 'findOne').mockResolvedValue({ user_id: 9 } as any);
+    const res = mockResponse();
+
+    await verifyEmail({ query: { token: 'abc' } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(user.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses a link sent to an address the account no longer uses', async () => {
+    const user = storedUser({ email: 'current@example.com' });
+    storedToken('old@example.com');
+    const res = mockResponse();
+
+    await verifyEmail({ query: { token: 'abc' } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(user.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses unknown or expired links', async () => {
+    jest.spyOn(EmailVerificationToken, 'findOne').mockResolvedValue(null);
+    const res = mockResponse();
+    await verifyEmail({ query: { token: 'abc' } } as any, res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
+
+describe('resendVerificationEmail', () => {
+  beforeEach(() => {
+    jest.spyOn(EmailVerificationToken, 'update').mockResolvedValue([1] as any);
+    jest.spyOn(EmailVerificationToken, 'create').mockResolvedValue({} as any);
+  });
+
+  it('sends the link to the pending address during an email change', async () => {
+    storedUser({ verified_at: new Date(), pending_email: 'new@example.com' });
+    const res = mockResponse();
+
+    await resendVerificationEmail({ user: { id: 5 } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(getCapturedMails().map((m) => m.to)).toEqual(['new@example.com']);
+    expect(EmailVerificationToken.update).toHaveBeenCalledWith({ used_at: expect.any(Date) }, { where: { user_id: 5, used_at: null } });
+  });
+
+  it('has nothing to send once verified', async () => {
+    storedUser({ verified_at: new Date() });
+    const res = mockResponse();
+
+    await resendVerificationEmail({ user: { id: 5 } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(getCapturedMails()).toHaveLength(0);
+  });
+});
+
+describe('requireVerifiedEmail', () => {
+  it('blocks unverified accounts', async () => {
+    storedUser({});
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requireVerifiedEmail({ user: { id: 5 } } as any, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'EMAIL_NOT_VERIFIED' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('lets verified accounts through', async () => {
+    storedUser({ verified_at: new Date() });
+    const next = jest.fn();
+    await requireVerifiedEmail({ user: { id: 5 } } as any, mockResponse(), next);
+    expect(next).toHaveBeenCalled();
+  });
+});
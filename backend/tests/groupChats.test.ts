@@ -0,0 +1,140 @@
+import Chat from '../src/models/Chat';
+import ChatParticipant from '../src/models/ChatParticipant';
+import Employer from '../src/models/Employer';
+import JobApplication from '../src/models/JobApplication';
+import JobPosting from '../src/models/JobPosting';
+import { canAccessChat, getOtherParticipantIds } from '../src/utils/chatAccess';
+import { resolveMessageAudience } from '../src/utils/messageDelivery';
+import { createJobGroupChat, joinGroupChat, leaveGroupChat } from '../src/controllers/groupChatController';
+import { mockIo, mockResponse, runTransactionsInline } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+const groupChat = { chat_id: 30, chat_type: 'group', title: 'Wedding band', owner_id: 5, job_id: 3, user1_id: null, user2_id: null };
+
+const request = (userId: number, params: object, body: object = {}) =>
+  ({ user: { id: userId }, params, body, io: mockIo(), onlineUsers: new Map() }) as any;
+
+describe('group chat access', () => {
+  it('goes by chat_participants', async () => {
+    const findOne = jest.spyOn(ChatParticipant, 'findOne').mockResolvedValueOnce({ participant_id: 1 } as any).mockResolvedValueOnce(null);
+
+    expect(await canAccessChat(groupChat as any, 7)).toBe(true);
+    expect(await canAccessChat(groupChat as any, 9)).toBe(false);
+    expect(findOne.mock.calls[0][0]!.where).toEqual({ chat_id: 30, user_id: 7 });
+  });
+
+  it('sends group messages to every other member, without a receiver', async () => {
+    jest.spyOn(ChatParticipant, 'findAll').mockResolvedValue([{ user_id: 7 }, { user_id: 8 }] as any);
+
+    expect(await getOtherParticipantIds(groupChat as any, 5)).toEqual([7, 8]);
+    expect(await resolveMessageAudience(groupChat as any, 5)).toEqual({ receiverId: null, recipientIds: [7, 8], blocked: false });
+  });
+});
+
+describe('createJobGroupChat', () => {
+  beforeEach(() => {
+    jest.spyOn(JobPosting, 'findByPk').mockResolvedValue({ job_id: 3, employer_id: 2, title: 'Wedding band' } as any);
+    jest.spyOn(Employer, 'findOne').mockResolvedValue({ employer_id: 2 } as any);
+  });
+
+  it('refuses other employers', async () => {
+    jest.spyOn(Employer, 'findOne').mockResolvedValue({ employer_id: 4 } as any);
+    const res = mockResponse();
+
+    await createJobGroupChat(request(6, { jobId: '3' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('allows one group chat per job posting', async () => {
+    jest.spyOn(Chat, 'findOne').mockResolvedValue({ chat_id: 30 } as any);
+    const res = mockResponse();
+
+    await createJobGroupChat(request(5, { jobId: '3' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ chat_id: 30 }));
+  });
+
+  it('adds the owner and the hired artists, and tells the artists', async () => {
+    runTransactionsInline();
+    jest.spyOn(Chat, 'findOne').mockResolvedValue(null);
+    jest.spyOn(JobApplication, 'findAll').mockResolvedValue([{ artist_user_id: 7 }, { artist_user_id: 8 }] as any);
+    jest.spyOn(Chat, 'create').mockResolvedValue({ chat_id: 30 } as any);
+    const bulkCreate = jest.spyOn(ChatParticipant, 'bulkCreate').mockResolvedValue([]);
+    const req = request(5, { jobId: '3' });
+    const res = mockResponse();
+
+    await createJobGroupChat(req, res);
+
+    expect(bulkCreate.mock.calls[0][0]).toEqual([
+      { chat_id: 30, user_id: 5, role: 'owner' },
+      { chat_id: 30, user_id: 7, role: 'member' },
+      { chat_id: 30, user_id: 8, role: 'member' },
+    ]);
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(req.io.emit).toHaveBeenCalledWith('group_chat_added', { chat_id: 30, title: 'Wedding band' });
+    expect(req.io.emit).toHaveBeenCalledTimes(2);
+  });
+
+  it('needs at least one hired artist', async () => {
+    jest.spyOn(Chat, 'findOne').mockResolvedValue(null);
+    jest.spyOn(JobApplication, 'findAll').mockResolvedValue([]);
+    const res = mockResponse();
+
+    await createJobGroupChat(request(5, { jobId: '3' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
+
+describe('joinGroupChat', () => {
+  beforeEach(() => jest.spyOn(Chat, 'findByPk').mockResolvedValue(groupChat as any));
+
+  it('is open to hired artists only', async () => {
+    jest.spyOn(JobApplication, 'findAll').mockResolvedValue([{ artist_user_id: 7 }] as any);
+    const res = mockResponse();
+
+    await joinGroupChat(request(9, { chat_id: '30' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('tells the members when a hired artist rejoins', async () => {
+    jest.spyOn(JobApplication, 'findAll').mockResolvedValue([{ artist_user_id: 7 }] as any);
+    jest.spyOn(ChatParticipant, 'findOrCreate').mockResolvedValue([{} as any, true]);
+    jest.spyOn(ChatParticipant, 'findAll').mockResolvedValue([{ user_id: 5 }] as any);
+    const req = request(7, { chat_id: '30' });
+    const res = mockResponse();
+
+    await joinGroupChat(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(req.io.emit).toHaveBeenCalledWith('chat_participant_joined', { chat_id: 30, user_id: 7 });
+  });
+});
+
+describe('leaveGroupChat', () => {
+  beforeEach(() => jest.spyOn(Chat, 'findByPk').mockResolvedValue(groupChat as any));
+
+  it('keeps the owner in their group', async () => {
+    const res = mockResponse();
+    await leaveGroupChat(request(5, { chat_id: '30' }), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('removes the member from the room and tells the others', async () => {
+    jest.spyOn(ChatParticipant, 'destroy').mockResolvedValue(1);
+    jest.spyOn(ChatParticipant, 'findAll').mockResolvedValue([{ user_id: 5 }] as any);
+    const req = request(7, { chat_id: '30' });
+    const res = mockResponse();
+
+    await leaveGroupChat(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(req.io.in).toHaveBeenCalledWith('user-7');
+    expect(req.io.socketsLeave).toHaveBeenCalledWith('30');
+    expect(req.io.emit).toHaveBeenCalledWith('chat_participant_left', { chat_id: 30, user_id: 7 });
+  });
+});
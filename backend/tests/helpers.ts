@@ -0,0 +1,30 @@
+import sequelize from '../src/config/db';
+
+/** Express response whose status() / json() calls can be inspected. */
+export const mockResponse = () => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+/** Socket.IO server that records what is emitted to which room. */
+export const mockIo = () => {
+  const emit = jest.fn();
+  const disconnectSockets = jest.fn();
+  const socketsLeave = jest.fn();
+  return {
+    to: jest.fn(() => ({ emit })),
+    in: jest.fn(() => ({ disconnectSockets, socketsLeave })),
+    emit,
+    disconnectSockets,
+    socketsLeave,
+  } as any;
+};
+
+/** Runs managed transactions right away with a dummy transaction object. */
+export const runTransactionsInline = () =>
+  jest.spyOn(sequelize, 'transaction').mockImplementation((async (callback: any) => callback({})) as any);
+
+/** Lets fire-and-forget work started by a handler finish. */
+export const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
@@ -0,0 +1,81 @@
+import { Op } from 'sequelize';
+import { buildJobSearchWhere, parseJobSearchQuery } from '../src/utils/jobSearch';
+
+describe('parseJobSearchQuery', () => {
+  it('defaults to the newest postings, first page', () => {
+    expect(parseJobSearchQuery({})).toEqual({ value: { filters: { pay_basis: 'total' }, sort: 'newest', page: 1, limit: 20 } });
+  });
+
+  it('normalizes the filters', () => {
+    const parsed = parseJobSearchQuery({
+      category: 'Music, Dance,Music',
+      presence: 'Online',
+      pay_basis: 'monthly',
+      min_pay: '500',
+      insurance: 'true',
+      start_from: '2026-11-01',
+      sort: 'pay_desc',
+      page: '2',
+      limit: '500',
+    });
+    expect(parsed).toEqual({
+      value: {
+        filters: {
+          category: ['Music', 'Dance'],
+          presence: ['Online'],
+          pay_basis: 'monthly',
+          min_pay: 500,
+          insurance: true,
+          start_from: '2026-11-01',
+        },
+        sort: 'pay_desc',
+        page: 2,
+        limit: 100,
+      },
+    });
+  });
+
+  it.each([
+    [{ page: '0' }, /positive integers/],
+    [{ sort: 'random' }, /sort must be one of/],
+    [{ presence: 'Remote' }, /presence must be one of/],
+    [{ pay_basis: 'hourly' }, /pay_basis/],
+    [{ min_pay: '-10' }, /non-negative/],
+    [{ min_pay: '200', max_pay: '100' }, /min_pay cannot be greater/],
+    [{ insurance: 'maybe' }, /insurance/],
+    [{ deadline_from: '19/10/2026' }, /must be dates/],
+    [{ start_from: '2026-12-01', start_to: '2026-11-01' }, /cannot be after/],
+  ])('rejects %j', (query, message) => {
+    const parsed = parseJobSearchQuery(query);
+    expect('error' in parsed && parsed.error).toMatch(message);
+  });
+});
+
+describe('buildJobSearchWhere', () => {
+  it('is empty without filters', () => {
+    expect(buildJobSearchWhere({ pay_basis: 'total' })).toEqual({});
+  });
+
+  it('lets Physical and Online match Both', () => {
+    const where: any = buildJobSearchWhere({ pay_basis: 'total', presence: ['Online'] });
+    expect(where[Op.and]).toEqual([{ presence: ['Online', 'Both'] }]);
+  });
+
+  it('filters the monthly amount of monthly postings', () => {
+    const where: any = buildJobSearchWhere({ pay_basis: 'monthly', min_pay: 100 });
+    expect(where[Op.and]).toEqual([
+      { payment_is_monthly: true },
+      { payment_monthly_amount: { [Op.gte]: 100 } },
+    ]);
+  });
+
+  it('makes the end of a date window inclusive', () => {
+    const where: any = buildJobSearchWhere({ pay_basis: 'total', start_to: '2026-11-01' });
+    expect(where[Op.and]).toEqual([{ start_date: { [Op.lt]: new Date('2026-11-02') } }]);
+  });
+
+  it('matches keywords literally', () => {
+    const where: any = buildJobSearchWhere({ pay_basis: 'total', q: ['100%'] });
+    expect(where[Op.and][0][Op.or][0]).toEqual({ title: { [Op.like]: '%100\\%%' } });
+  });
+});
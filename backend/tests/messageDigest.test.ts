@@ -0,0 +1,88 @@
+import nodemailer from 'nodemailer';
+import { Op } from 'sequelize';
+import ChatParticipant from '../src/models/ChatParticipant';
+import ChatSetting from '../src/models/ChatSetting';
+import Message from '../src/models/Message';
+import User from '../src/models/User';
+import { runMessageDigest } from '../src/utils/messageDigest';
+import { clearCapturedMails, getCapturedMails, setMailTransport } from '../src/utils/mailer';
+
+beforeAll(() => {
+  process.env.MAIL_TRANSPORT = 'capture';
+  setMailTransport(nodemailer.createTransport({ jsonTransport: true }));
+});
+afterAll(() => {
+  delete process.env.MAIL_TRANSPORT;
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+  clearCapturedMails();
+});
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const DELAY_MS = 30 * 60 * 1000;
+
+// Offline user 5: unread direct messages from Maria, a group message from Nikos
+const mockDigestData = ({ directReceivers = [5], groupMembers = [] as number[] } = {}) => {
+  const user: any = { user_id: 5, email: 'eleni@example.com', fullname: 'Eleni', last_digest_sent_at: null };
+  user.update = jest.fn(async () => user);
+
+  jest.spyOn(ChatParticipant, 'findAll').mockImplementation((async (options: any) =>
+    options.raw
+      ? groupMembers.map((user_id) => ({ user_id }))
+      : [{ chat_id: 30, last_read_message_id: 60 }]) as any);
+  jest.spyOn(ChatSetting, 'findAll').mockResolvedValue([{ chat_id: 11 }] as any);
+  const users = jest.spyOn(User, 'findAll').mockResolvedValue([user]);
+  const messages = jest.spyOn(Message, 'findAll').mockImplementation((async (options: any) =>
+    options.raw
+      ? directReceivers.map((receiver_id) => ({ receiver_id }))
+      : [
+        { sender_id: 8, message: 'Soundcheck at 6', messageSender: { fullname: 'Nikos' } },
+        { sender_id: 7, message: '', messageSender: { fullname: 'Maria' } },
+        { sender_id: 7, message: 'Are you free?', messageSender: { fullname: 'Maria' } },
+      ]) as any);
+
+  return { user, users, messages };
+};
+
+describe('runMessageDigest', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  it('mails one line per sender and resumes from the cutoff of this run', async () => {
+    const { user, messages } = mockDigestData();
+
+    expect(await runMessageDigest(new Map())).toBe(1);
+
+    const [mail] = getCapturedMails();
+    expect(mail.to).toBe('eleni@example.com');
+    expect(mail.subject).toBe('You have 3 unread messages on Artepovera');
+    expect(mail.text).toContain('- Nikos: 1 new message – "Soundcheck at 6"');
+    expect(mail.text).toContain('- Maria: 2 new messages – "📎 Attachment"');
+    expect(user.update).toHaveBeenCalledWith({ last_digest_sent_at: new Date(NOW.getTime() - DELAY_MS) });
+
+    const where = messages.mock.calls[1][0]!.where as any;
+    expect(where.chat_id).toEqual({ [Op.notIn]: [11] });
+    expect(where[Op.or]).toEqual([
+      { receiver_id: 5, read_status: false },
+      { chat_id: 30, receiver_id: null, sender_id: { [Op.ne]: 5 }, message_id: { [Op.gt]: 60 } },
+    ]);
+  });
+
+  it('finds group members with unread messages', async () => {
+    const { users } = mockDigestData({ directReceivers: [], groupMembers: [5, 9] });
+
+    expect(await runMessageDigest(new Map())).toBe(1);
+    expect((users.mock.calls[0][0]!.where as any).user_id).toEqual([5, 9]);
+  });
+
+  it('skips users who are online', async () => {
+    const { users } = mockDigestData({ groupMembers: [5] });
+
+    expect(await runMessageDigest(new Map([[5, new Set(['socket'])]]))).toBe(0);
+    expect(users).not.toHaveBeenCalled();
+    expect(getCapturedMails()).toHaveLength(0);
+  });
+});
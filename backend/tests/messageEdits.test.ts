@@ -0,0 +1,104 @@
+import Message from '../src/models/Message';
+import MessageAttachment from '../src/models/MessageAttachment';
+import MessageReaction from '../src/models/MessageReaction';
+import * as storage from '../src/utils/storage';
+import { deleteMessage, editMessage } from '../src/controllers/chatController';
+import { mockIo, mockResponse, runTransactionsInline } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+// Stored message of user 5 to user 7; update() applies the changes like a model would
+const ownMessage = (fields: object = {}) => {
+  const message: any = {
+    message_id: 50, chat_id: 10, sender_id: 5, receiver_id: 7, message: 'see you at 8',
+    moderation_status: 'clean', deleted_at: null, edited_at: null, createdAt: new Date(), attachments: [],
+    ...fields,
+  };
+  message.update = jest.fn(async (changes: object) => Object.assign(message, changes));
+  message.toJSON = () => {
+    const { update, toJSON, attachments, ...json } = message;
+    return json;
+  };
+  return message;
+};
+
+const request = (userId: number, body: object = {}) =>
+  ({ user: { id: userId }, params: { message_id: '50' }, body, io: mockIo(), onlineUsers: new Map() }) as any;
+
+describe('editMessage', () => {
+  beforeEach(() => jest.spyOn(Message, 'count').mockResolvedValue(0 as any));
+
+  it('changes the text and tells the recipient', async () => {
+    const message = ownMessage();
+    jest.spyOn(Message, 'findByPk').mockResolvedValue(message);
+    const req = request(5, { message: 'see you at 9' });
+    const res = mockResponse();
+
+    await editMessage(req, res);
+
+    expect(message.update).toHaveBeenCalledWith({ message: 'see you at 9', edited_at: expect.any(Date) });
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(req.io.to).toHaveBeenCalledWith(expect.arrayContaining(['10', 'user-7']));
+    expect(req.io.emit).toHaveBeenCalledWith('message_updated', expect.objectContaining({ message: 'see you at 9' }));
+  });
+
+  it.each([
+    ["someone else's message", 7, {}, 403],
+    ['an unsent message', 5, { deleted_at: new Date() }, 410],
+    ['an old message', 5, { createdAt: new Date(Date.now() - 60 * 60 * 1000) }, 403],
+  ])('refuses to edit %s', async (_case, userId, fields, status) => {
+    const message = ownMessage(fields);
+    jest.spyOn(Message, 'findByPk').mockResolvedValue(message);
+    const res = mockResponse();
+
+    await editMessage(request(userId, { message: 'changed' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(status);
+    expect(message.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses edits the filters would hide', async () => {
+    const message = ownMessage();
+    jest.spyOn(Message, 'findByPk').mockResolvedValue(message);
+    const res = mockResponse();
+
+    await editMessage(request(5, { message: 'pay me with a gift card' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(message.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleteMessage', () => {
+  it('leaves a tombstone and removes the files', async () => {
+    runTransactionsInline();
+    const message = ownMessage({ attachments: [{ attachment_id: 3, public_id: 'chat_attachments/10/a', resource_type: 'raw' }] });
+    jest.spyOn(Message, 'findByPk').mockResolvedValue(message);
+    const dropAttachments = jest.spyOn(MessageAttachment, 'destroy').mockResolvedValue(1);
+    jest.spyOn(MessageReaction, 'destroy').mockResolvedValue(0);
+    const removeFile = jest.spyOn(storage, 'deleteStoredFile').mockResolvedValue();
+    const req = request(5);
+    const res = mockResponse();
+
+    await deleteMessage(req, res);
+
+    expect(message.update).toHaveBeenCalledWith({ message: '', deleted_at: expect.any(Date) }, expect.anything());
+    expect(dropAttachments).toHaveBeenCalledWith(expect.objectContaining({ where: { message_id: 50 } }));
+    expect(removeFile).toHaveBeenCalledWith('chat_attachments/10/a', 'raw', 'authenticated');
+    const { data } = res.json.mock.calls[0][0];
+    expect(data).toMatchObject({ message_id: 50, message: null, attachments: [] });
+    expect(req.io.emit).toHaveBeenCalledWith('message_deleted', data);
+  });
+
+  it('keeps hidden messages away from the recipient', async () => {
+    runTransactionsInline();
+    jest.spyOn(Message, 'findByPk').mockResolvedValue(ownMessage({ moderation_status: 'hidden' }));
+    jest.spyOn(MessageAttachment, 'destroy').mockResolvedValue(0);
+    jest.spyOn(MessageReaction, 'destroy').mockResolvedValue(0);
+    const req = request(5);
+
+    await deleteMessage(req, mockResponse());
+
+    expect(req.io.emit).not.toHaveBeenCalled();
+  });
+});
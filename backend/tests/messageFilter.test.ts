@@ -0,0 +1,93 @@
+import Message from '../src/models/Message';
+import { describeHits, moderationStatusFor, rejectionResponse, runMessageFilters } from '../src/utils/messageFilter';
+
+// Message.count answers both the rate limit (messages in the last minute) and
+// the contact details rule (earlier messages in the chat)
+const mockCounts = (lastMinute: number, earlierInChat: number) =>
+  jest.spyOn(Message, 'count').mockImplementation((async (options: any) =>
+    options.where.chat_id === undefined ? lastMinute : earlierInChat) as any);
+
+const run = (text: string, skipRateLimit = false) => runMessageFilters({ senderId: 1, chatId: 10, text, skipRateLimit });
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('runMessageFilters', () => {
+  beforeEach(() => mockCounts(0, 0));
+
+  it('allows ordinary messages', async () => {
+    expect(await run('Hi, are you free on Saturday evening?')).toEqual({ action: 'allow', hits: [] });
+  });
+
+  it('hides blocked wording', async () => {
+    const result = await run('I will pay you with a Gift Card');
+    expect(result.action).toBe('hide');
+    expect(result.hits).toEqual([{ rule: 'blocked_words', action: 'hide', detail: 'gift card' }]);
+  });
+
+  it('flags shortened and IP links', async () => {
+    const result = await run('see https://bit.ly/abc and http://10.0.0.1/x and https://example.com/ok');
+    expect(result.action).toBe('flag');
+    expect(result.hits[0]).toMatchObject({ rule: 'suspicious_links', detail: 'bit.ly, 10.0.0.1' });
+  });
+
+  it('flags contact details early in a conversation', async () => {
+    expect((await run('mail me at maria@example.com')).hits).toEqual([
+      { rule: 'contact_details', action: 'flag', detail: 'email' },
+    ]);
+    expect((await run('call me on +30 691 234 5678')).hits[0]).toMatchObject({ rule: 'contact_details', detail: 'phone' });
+  });
+
+  it.each(['6912345678', '210 123 4567', '(210) 123-4567', '0030 6912345678'])('recognizes the phone number %s', async (phone) => {
+    expect((await run(`my number is ${phone}`)).hits[0]).toMatchObject({ rule: 'contact_details', detail: 'phone' });
+  });
+
+  it.each([
+    'shoot on 2026-10-19',
+    'shoot on 2026-10-19 or 2026-10-20',
+    'budget 1500 - 2000 EUR',
+    'order 12345678',
+  ])('does not take "%s" for a phone number', async (text) => {
+    expect((await run(text)).action).toBe('allow');
+  });
+
+  it('ignores contact details later in a conversation', async () => {
+    jest.restoreAllMocks();
+    mockCounts(0, 5);
+    expect((await run('mail me at maria@example.com')).action).toBe('allow');
+  });
+
+  it('keeps the strictest action', async () => {
+    expect((await run('western union only, details at https://t.me/someone')).action).toBe('hide');
+  });
+});
+
+describe('rate limit', () => {
+  it('rejects a sender going too fast', async () => {
+    mockCounts(20, 10);
+    const result = await run('hello');
+    expect(result.action).toBe('reject');
+    expect(rejectionResponse(result).status).toBe(429);
+  });
+
+  it('is skipped when asked to (edits, scheduled messages)', async () => {
+    mockCounts(20, 10);
+    expect((await run('hello', true)).action).toBe('allow');
+  });
+});
+
+describe('result helpers', () => {
+  it('maps actions to moderation statuses', () => {
+    expect(moderationStatusFor({ action: 'hide', hits: [] })).toBe('hidden');
+    expect(moderationStatusFor({ action: 'flag', hits: [] })).toBe('flagged');
+    expect(moderationStatusFor({ action: 'allow', hits: [] })).toBe('clean');
+  });
+
+  it('describes hits for the admins', () => {
+    expect(describeHits([])).toBeNull();
+    expect(describeHits([{ rule: 'blocked_words', action: 'hide', detail: 'bitcoin' }])).toEqual(['blocked_words: bitcoin']);
+  });
+
+  it('answers 422 for rejected content', () => {
+    expect(rejectionResponse({ action: 'reject', hits: [{ rule: 'blocked_words', action: 'reject', detail: 'x' }] }).status).toBe(422);
+  });
+});
@@ -0,0 +1,28 @@
+import { findUnknownPlaceholders, renderTemplate } from '../src/utils/messageTemplates';
+
+describe('renderTemplate', () => {
+  it('fills in the placeholders, whitespace inside the braces allowed', () => {
+    const { text, missing } = renderTemplate('Hi {{ recipient_name }}, about {{job_title}}.', {
+      recipient_name: 'Maria',
+      job_title: 'Wedding photographer',
+    });
+    expect(text).toBe('Hi Maria, about Wedding photographer.');
+    expect(missing).toEqual([]);
+  });
+
+  it('lists placeholders without a value once and leaves them in place', () => {
+    const { text, missing } = renderTemplate('{{job_title}} / {{job_title}} – {{artist_name}}', { artist_name: 'Nikos' });
+    expect(text).toBe('{{job_title}} / {{job_title}} – Nikos');
+    expect(missing).toEqual(['job_title']);
+  });
+
+  it('trims the result', () => {
+    expect(renderTemplate('  {{sender_name}}  ', { sender_name: 'Eleni' }).text).toBe('Eleni');
+  });
+});
+
+describe('findUnknownPlaceholders', () => {
+  it('returns only unsupported names', () => {
+    expect(findUnknownPlaceholders('{{artist_name}} {{price}} {{ price }}')).toEqual(['price']);
+  });
+});
@@ -0,0 +1,43 @@
+import { decodeCursor, encodeCursor, parseLimit, parsePositiveInt, DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../src/utils/pagination';
+
+describe('parseLimit', () => {
+  it('falls back to the default when missing', () => {
+    expect(parseLimit(undefined)).toBe(DEFAULT_PAGE_LIMIT);
+    expect(parseLimit('')).toBe(DEFAULT_PAGE_LIMIT);
+    expect(parseLimit(undefined, 20)).toBe(20);
+  });
+
+  it('caps at the maximum', () => {
+    expect(parseLimit('1000')).toBe(MAX_PAGE_LIMIT);
+    expect(parseLimit('30', 20, 25)).toBe(25);
+  });
+
+  it('rejects non positive or fractional values', () => {
+    expect(parseLimit('0')).toBeNull();
+    expect(parseLimit('-5')).toBeNull();
+    expect(parseLimit('2.5')).toBeNull();
+    expect(parseLimit('abc')).toBeNull();
+  });
+});
+
+describe('parsePositiveInt', () => {
+  it('tells missing and invalid apart', () => {
+    expect(parsePositiveInt(undefined)).toBeUndefined();
+    expect(parsePositiveInt('')).toBeUndefined();
+    expect(parsePositiveInt('7')).toBe(7);
+    expect(parsePositiveInt('0')).toBeNull();
+    expect(parsePositiveInt('x')).toBeNull();
+  });
+});
+
+describe('cursors', () => {
+  it('round-trips', () => {
+    const cursor = encodeCursor({ id: 42, createdAt: '2026-10-19T10:00:00.000Z' });
+    expect(decodeCursor(cursor)).toEqual({ id: 42, createdAt: '2026-10-19T10:00:00.000Z' });
+  });
+
+  it('returns null for garbage', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor('')).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import bcrypt from 'bcrypt';
+import nodemailer from 'nodemailer';
+import User from '../src/models/User';
+import PasswordResetToken from '../src/models/PasswordResetToken';
+import Session from '../src/models/Session';
+import { forgotPassword, resetPassword } from '../src/controllers/userController';
+import { hashToken } from '../src/utils/authTokens';
+import { clearCapturedMails, getCapturedMails, setMailTransport } from '../src/utils/mailer';
+import { mockIo, mockResponse, runTransactionsInline, settle } from './helpers';
+
+beforeAll(() => {
+  process.env.MAIL_TRANSPORT = 'capture';
+  setMailTransport(nodemailer.createTransport({ jsonTransport: true }));
+});
+afterAll(() => {
+  delete process.env.MAIL_TRANSPORT;
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+  clearCapturedMails();
+});
+
+describe('forgotPassword', () => {
+  it('answers the same for unknown addresses and sends nothing', async () => {
+    jest.spyOn(User, 'findOne').mockResolvedValue(null);
+    const res = mockResponse();
+
+    await forgotPassword({ body: { email: 'nobody@example.com' } } as any, res);
+    await settle();
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(getCapturedMails()).toHaveLength(0);
+  });
+
+  it('stores only the hash of the emailed token and invalidates older links', async () => {
+    jest.spyOn(User, 'findOne').mockResolvedValue({ user_id: 5, email: 'maria@example.com' } as any);
+    const invalidate = jest.spyOn(PasswordResetToken, 'update').mockResolvedValue([1] as any);
+    const create = jest.spyOn(PasswordResetToken, 'create').mockResolvedValue({} as any);
+    const res = mockResponse();
+
+    await forgotPassword({ body: { email: ' maria@example.com ' } } as any, res);
+    await settle();
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(invalidate.mock.calls[0][1].where).toEqual({ user_id: 5, used_at: null });
+
+    const [mail] = getCapturedMails();
+    expect(mail.to).toBe('maria@example.com');
+    const token = mail.text.match(/reset-password\?token=([0-9a-f]+)/)[1];
+    expect(create.mock.calls[0][0]).toMatchObject({ user_id: 5, token_hash: hashToken(token) });
+  });
+});
+
+describe('resetPassword', () => {
+  const request = (body: object) => ({ body, io: mockIo() }) as any;
+
+  it('rejects unknown, used or expired links', async () => {
+    jest.spyOn(PasswordResetToken, 'findOne').mockResolvedValue(null);
+    const res = mockResponse();
+
+    await resetPassword(request({ token: 'abc', newPassword: 'secret123' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('rejects a non-string password', async () => {
+    const res = mockResponse();
+    await resetPassword(request({ token: 'abc', newPassword: ['secret123'] }), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('sets the password, consumes the link and logs out every session', async () => {
+    jest.spyOn(PasswordResetToken, 'findOne').mockResolvedValue({ token_id: 3, user_id: 5 } as any);
+    const consume = jest.spyOn(PasswordResetToken, 'update').mockResolvedValue([1] as any);
+    const setPassword = jest.spyOn(User, 'update').mockResolvedValue([1] as any);
+    const revoke = jest.spyOn(Session, 'update').mockResolvedValue([2] as any);
+    runTransactionsInline();
+    const req = request({ token: 'abc', newPassword: 'secret123' });
+    const res = mockResponse();
+
+    await resetPassword(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(consume.mock.calls[0][1].where).toEqual({ token_id: 3, used_at: null });
+    expect(await bcrypt.compare('secret123', (setPassword.mock.calls[0][0] as any).password)).toBe(true);
+    expect(revoke.mock.calls[0][1].where).toEqual({ user_id: 5, revoked_at: null });
+    expect(req.io.in).toHaveBeenCalledWith('user-5');
+    expect(req.io.disconnectSockets).toHaveBeenCalledWith(true);
+  });
+
+  it('lets only one of two concurrent requests with the same link through', async () => {
+    jest.spyOn(PasswordResetToken, 'findOne').mockResolvedValue({ token_id: 3, user_id: 5 } as any);
+    jest.spyOn(PasswordResetToken, 'update').mockResolvedValue([0] as any);
+    const setPassword = jest.spyOn(User, 'update');
+    runTransactionsInline();
+    const res = mockResponse();
+
+    await resetPassword(request({ token: 'abc', newPassword: 'secret123' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(setPassword).not.toHaveBeenCalled();
+  });
+});
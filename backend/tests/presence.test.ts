@@ -0,0 +1,90 @@
+import Chat from '../src/models/Chat';
+import ChatParticipant from '../src/models/ChatParticipant';
+import User from '../src/models/User';
+import UserBlock from '../src/models/UserBlock';
+import {
+  addUserSocket,
+  broadcastPresenceChange,
+  getChatPartnerIds,
+  getPresence,
+  removeUserSocket,
+} from '../src/utils/presence';
+import type { OnlineUsersMap } from '../src/utils/socketHelpers';
+import { mockIo } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('socket bookkeeping', () => {
+  it('is online from the first socket until the last one closes', () => {
+    const online: OnlineUsersMap = new Map();
+    expect(addUserSocket(online, 5, 'phone')).toBe(true);
+    expect(addUserSocket(online, 5, 'laptop')).toBe(false);
+    expect(removeUserSocket(online, 5, 'phone')).toBe(false);
+    expect(removeUserSocket(online, 5, 'laptop')).toBe(true);
+    expect(online.has(5)).toBe(false);
+    expect(removeUserSocket(online, 5, 'laptop')).toBe(false);
+  });
+});
+
+describe('getPresence', () => {
+  it('reports last_seen_at only while offline', async () => {
+    const lastSeen = new Date('2026-10-19T10:00:00Z');
+    jest.spyOn(User, 'findByPk').mockResolvedValue({ user_id: 5, last_seen_at: lastSeen } as any);
+
+    expect(await getPresence(new Map([[5, new Set(['a'])]]), 5)).toEqual({ user_id: 5, online: true, last_seen_at: null });
+    expect(await getPresence(new Map(), 5)).toEqual({ user_id: 5, online: false, last_seen_at: lastSeen });
+  });
+});
+
+describe('getChatPartnerIds', () => {
+  it('includes direct chat partners and group co-members once each', async () => {
+    jest.spyOn(Chat, 'findAll').mockResolvedValue([
+      { user1_id: 5, user2_id: 7 },
+      { user1_id: 8, user2_id: 5 },
+    ] as any);
+    const participants = jest.spyOn(ChatParticipant, 'findAll')
+      .mockResolvedValueOnce([{ chat_id: 30 }, { chat_id: 31 }] as any)
+      .mockResolvedValueOnce([{ user_id: 7 }, { user_id: 9 }, { user_id: 10 }] as any);
+
+    expect((await getChatPartnerIds(5)).sort((a, b) => a - b)).toEqual([7, 8, 9, 10]);
+    expect(participants.mock.calls[1][0].where).toMatchObject({ chat_id: [30, 31] });
+  });
+
+  it('skips the co-member lookup without group chats', async () => {
+    jest.spyOn(Chat, 'findAll').mockResolvedValue([{ user1_id: 5, user2_id: 7 }] as any);
+    const participants = jest.spyOn(ChatParticipant, 'findAll').mockResolvedValue([]);
+
+    expect(await getChatPartnerIds(5)).toEqual([7]);
+    expect(participants).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('broadcastPresenceChange', () => {
+  beforeEach(() => {
+    jest.spyOn(Chat, 'findAll').mockResolvedValue([{ user1_id: 5, user2_id: 7 }, { user1_id: 5, user2_id: 8 }] as any);
+    jest.spyOn(ChatParticipant, 'findAll').mockResolvedValue([]);
+  });
+
+  it('stores last_seen_at and tells partners, except blocked ones', async () => {
+    const update = jest.spyOn(User, 'update').mockResolvedValue([1] as any);
+    jest.spyOn(UserBlock, 'findAll').mockResolvedValue([{ blocker_id: 8, blocked_id: 5 }] as any);
+    const io = mockIo();
+
+    await broadcastPresenceChange(io, 5, false);
+
+    expect(update).toHaveBeenCalledWith({ last_seen_at: expect.any(Date) }, { where: { user_id: 5 } });
+    expect(io.to).toHaveBeenCalledWith(['user-7']);
+    expect(io.emit).toHaveBeenCalledWith('presence_changed', expect.objectContaining({ user_id: 5, online: false }));
+  });
+
+  it('does not touch last_seen_at when coming online', async () => {
+    const update = jest.spyOn(User, 'update');
+    jest.spyOn(UserBlock, 'findAll').mockResolvedValue([]);
+    const io = mockIo();
+
+    await broadcastPresenceChange(io, 5, true);
+
+    expect(update).not.toHaveBeenCalled();
+    expect(io.emit).toHaveBeenCalledWith('presence_changed', { user_id: 5, online: true, last_seen_at: null });
+  });
+});
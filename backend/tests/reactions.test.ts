@@ -0,0 +1,19 @@
+import { normalizeEmoji } from '../src/utils/reactions';
+
+describe('normalizeEmoji', () => {
+  it('accepts single emoji, trimmed', () => {
+    expect(normalizeEmoji('👍')).toBe('👍');
+    expect(normalizeEmoji('  ❤️ ')).toBe('❤️');
+    expect(normalizeEmoji('👍🏽')).toBe('👍🏽');
+    expect(normalizeEmoji('🇬🇷')).toBe('🇬🇷');
+  });
+
+  it('rejects text and other input', () => {
+    expect(normalizeEmoji('ok')).toBeNull();
+    expect(normalizeEmoji('👍 ok')).toBeNull();
+    expect(normalizeEmoji('👍1')).toBeNull();
+    expect(normalizeEmoji('')).toBeNull();
+    expect(normalizeEmoji(42)).toBeNull();
+    expect(normalizeEmoji(undefined)).toBeNull();
+  });
+});
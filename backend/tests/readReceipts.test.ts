@@ -0,0 +1,84 @@
+import Chat from '../src/models/Chat';
+import ChatParticipant from '../src/models/ChatParticipant';
+import Message from '../src/models/Message';
+import { getUnreadCount, markChatAsRead } from '../src/controllers/chatController';
+import { mockIo, mockResponse, settle } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+const readRequest = (messageId: unknown, userId = 5) =>
+  ({ user: { id: userId }, params: { chat_id: '10' }, body: { message_id: messageId }, io: mockIo(), onlineUsers: new Map() }) as any;
+
+const directChat = { chat_id: 10, chat_type: 'direct', user1_id: 5, user2_id: 7 };
+
+describe('markChatAsRead', () => {
+  it('requires a valid message_id', async () => {
+    const res = mockResponse();
+    await markChatAsRead(readRequest('abc'), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('refuses chats the user is not in', async () => {
+    jest.spyOn(Chat, 'findByPk').mockResolvedValue(directChat as any);
+    const res = mockResponse();
+
+    await markChatAsRead(readRequest(40, 9), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('marks received direct messages and tells the sender', async () => {
+    jest.spyOn(Chat, 'findByPk').mockResolvedValue(directChat as any);
+    const update = jest.spyOn(Message, 'update').mockResolvedValue([3] as any);
+    const req = readRequest(40);
+    const res = mockResponse();
+
+    await markChatAsRead(req, res);
+    await settle();
+
+    expect(update.mock.calls[0][0]).toEqual({ read_status: true });
+    expect(update.mock.calls[0][1].where).toMatchObject({ chat_id: 10, receiver_id: 5, read_status: false });
+    expect(res.json).toHaveBeenCalledWith({ chat_id: 10, up_to_message_id: 40, updated: 3 });
+    expect(req.io.to).toHaveBeenCalledWith(['user-7']);
+    expect(req.io.emit).toHaveBeenCalledWith('messages_read', expect.objectContaining({ reader_id: 5, up_to_message_id: 40 }));
+  });
+
+  it('stays quiet when nothing was unread', async () => {
+    jest.spyOn(Chat, 'findByPk').mockResolvedValue(directChat as any);
+    jest.spyOn(Message, 'update').mockResolvedValue([0] as any);
+    const req = readRequest(40);
+
+    await markChatAsRead(req, mockResponse());
+    await settle();
+
+    expect(req.io.emit).not.toHaveBeenCalled();
+  });
+
+  it('moves the group high-water mark and tells the other members', async () => {
+    jest.spyOn(Chat, 'findByPk').mockResolvedValue({ ...directChat, chat_type: 'group', user1_id: null, user2_id: null } as any);
+    jest.spyOn(ChatParticipant, 'findOne').mockResolvedValue({ participant_id: 1 } as any);
+    const update = jest.spyOn(ChatParticipant, 'update').mockResolvedValue([1] as any);
+    jest.spyOn(ChatParticipant, 'findAll').mockResolvedValue([{ user_id: 7 }, { user_id: 8 }] as any);
+    const req = readRequest(40);
+
+    await markChatAsRead(req, mockResponse());
+    await settle();
+
+    expect(update.mock.calls[0][0]).toEqual({ last_read_message_id: 40 });
+    expect(update.mock.calls[0][1].where).toMatchObject({ chat_id: 10, user_id: 5 });
+    expect(req.io.to).toHaveBeenCalledWith(['user-7']);
+    expect(req.io.to).toHaveBeenCalledWith(['user-8']);
+  });
+});
+
+describe('getUnreadCount', () => {
+  it('counts the unread messages of the caller', async () => {
+    const count = jest.spyOn(Message, 'count').mockResolvedValue(4 as any);
+    const res = mockResponse();
+
+    await getUnreadCount({ user: { id: 5 } } as any, res);
+
+    expect(res.json).toHaveBeenCalledWith({ unreadCount: 4 });
+    expect(count.mock.calls[0][0].where).toMatchObject({ deleted_at: null });
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  evaluateScreeningAnswers,
+  parseScreeningQuestions,
+  publicScreeningQuestions,
+  ScreeningQuestion,
+} from '../src/utils/screeningQuestions';
+
+const questions: ScreeningQuestion[] = [
+  { id: 'license', type: 'yes_no', label: 'Do you have a driving license?', required: true, knockout_answers: [false] },
+  { id: 'style', type: 'multiple_choice', label: 'Style', required: false, options: ['Jazz', 'Rock', 'Pop'], knockout_answers: ['Pop'] },
+  { id: 'bio', type: 'short_text', label: 'Short bio', required: false, max_length: 10 },
+  { id: 'years', type: 'number', label: 'Years of experience', required: true, min: 0, max: 60 },
+];
+
+describe('parseScreeningQuestions', () => {
+  it('treats missing or empty input as no questions', () => {
+    expect(parseScreeningQuestions(undefined)).toEqual({ value: null });
+    expect(parseScreeningQuestions('[]')).toEqual({ value: null });
+  });
+
+  it('parses JSON from multipart forms and fills in defaults', () => {
+    const parsed = parseScreeningQuestions(JSON.stringify([
+      { type: 'yes_no', label: ' Available on weekends? ', required: 'yes', knockout_answers: ['no'] },
+      { type: 'short_text', label: 'Anything else?' },
+    ]));
+    expect(parsed).toEqual({
+      value: [
+        { id: 'q1', type: 'yes_no', label: 'Available on weekends?', required: true, knockout_answers: [false] },
+        { id: 'q2', type: 'short_text', label: 'Anything else?', required: false, max_length: 2000 },
+      ],
+    });
+  });
+
+  it.each([
+    ['not a list', { type: 'yes_no', label: 'x' }, /must be a list/],
+    ['unknown type', [{ type: 'essay', label: 'x' }], /type must be one of/],
+    ['missing label', [{ type: 'yes_no' }], /label/],
+    ['one option', [{ type: 'multiple_choice', label: 'x', options: ['a'] }], /options/],
+    ['knock-out not an option', [{ type: 'multiple_choice', label: 'x', options: ['a', 'b'], knockout_answers: ['c'] }], /some of the options/],
+    ['knock-out on text', [{ type: 'short_text', label: 'x', knockout_answers: ['a'] }], /knock-out/],
+    ['min above max', [{ type: 'number', label: 'x', min: 5, max: 1 }], /min cannot be greater/],
+    ['duplicate ids', [{ id: 'a', type: 'yes_no', label: 'x' }, { id: 'a', type: 'yes_no', label: 'y' }], /unique/],
+  ])('rejects %s', (_name, raw, message) => {
+    const parsed = parseScreeningQuestions(raw);
+    expect('error' in parsed && parsed.error).toMatch(message);
+  });
+});
+
+describe('publicScreeningQuestions', () => {
+  it('hides the knock-out answers', () => {
+    const visible = publicScreeningQuestions(questions);
+    expect(visible.every((q) => !('knockout_answers' in q))).toBe(true);
+    expect(visible[1].options).toEqual(['Jazz', 'Rock', 'Pop']);
+  });
+});
+
+describe('evaluateScreeningAnswers', () => {
+  it('has nothing to check without questions', () => {
+    expect(evaluateScreeningAnswers(null, { anything: 1 })).toEqual({ value: { answers: null, knockedOut: false } });
+  });
+
+  it('stores the answers with their labels', () => {
+    const result = evaluateScreeningAnswers(questions, '{"license":"yes","style":"Jazz","years":"4"}');
+    expect(result).toEqual({
+      value: {
+        knockedOut: false,
+        answers: [
+          { question_id: 'license', label: 'Do you have a driving license?', type: 'yes_no', answer: true, knocked_out: false },
+          { question_id: 'style', label: 'Style', type: 'multiple_choice', answer: 'Jazz', knocked_out: false },
+          { question_id: 'bio', label: 'Short bio', type: 'short_text', answer: null, knocked_out: false },
+          { question_id: 'years', label: 'Years of experience', type: 'number', answer: 4, knocked_out: false },
+        ],
+      },
+    });
+  });
+
+  it('knocks out on a knock-out answer', () => {
+    const result = evaluateScreeningAnswers(questions, { license: false, style: 'Pop', years: 2 });
+    expect(result).toMatchObject({ value: { knockedOut: true } });
+    if ('value' in result) {
+      expect(result.value.answers.filter((a) => a.knocked_out).map((a) => a.question_id)).toEqual(['license', 'style']);
+    }
+  });
+
+  it.each([
+    [{ years: 3 }, /Please answer/],
+    [{ license: 'maybe', years: 3 }, /yes or no/],
+    [{ license: true, style: 'Metal', years: 3 }, /must be one of/],
+    [{ license: true, bio: 'far too long for this', years: 3 }, /longer than 10/],
+    [{ license: true, years: 61 }, /at most 60/],
+    [['license'], /keyed by question id/],
+  ])('rejects %j', (answers, message) => {
+    const result = evaluateScreeningAnswers(questions, answers);
+    expect('error' in result && result.error).toMatch(message);
+  });
+});
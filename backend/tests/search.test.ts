@@ -0,0 +1,65 @@
+import Message from '../src/models/Message';
+import { buildSnippet, extractSearchTerms, toBooleanModeQuery } from '../src/utils/search';
+import { searchMessages } from '../src/controllers/chatController';
+import { mockResponse } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('search terms', () => {
+  it('strips the boolean operators and duplicates', () => {
+    expect(extractSearchTerms('  +Quote -"quote" (price)* ')).toEqual(['quote', 'price']);
+  });
+
+  it('makes every term a required prefix', () => {
+    expect(toBooleanModeQuery(['quot', 'price'])).toBe('+quot* +price*');
+  });
+});
+
+describe('buildSnippet', () => {
+  it('reports where the terms are, merging overlaps', () => {
+    expect(buildSnippet('Sending the quote today', ['quot', 'quote'])).toEqual({
+      text: 'Sending the quote today',
+      highlights: [{ start: 12, end: 17 }],
+    });
+  });
+
+  it('cuts long messages around the first match', () => {
+    const snippet = buildSnippet(`${'a'.repeat(100)} price ${'b'.repeat(100)}`, ['price'], 10);
+    expect(snippet.text).toBe(`…${'a'.repeat(9)} price ${'b'.repeat(14)}…`);
+    const { start, end } = snippet.highlights[0];
+    expect(snippet.text.slice(start, end)).toBe('price');
+  });
+});
+
+describe('searchMessages', () => {
+  const request = (query: object) => ({ user: { id: 5 }, query }) as any;
+
+  it.each([
+    ['without a query', { q: ' "" ' }],
+    ['with a bad page', { q: 'quote', page: '0' }],
+  ])('answers 400 %s', async (_case, query) => {
+    const res = mockResponse();
+    await searchMessages(request(query), res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('pages the results and names the other participant', async () => {
+    const findAll = jest.spyOn(Message, 'findAll').mockResolvedValue([1, 2, 3].map((id) => ({
+      message_id: id, chat_id: 10, sender_id: 7, message: 'the quote', createdAt: new Date(),
+      chat: {
+        chat_type: 'direct', title: null, user1_id: 5, user2_id: 7,
+        user1: { user_id: 5, fullname: 'Me', user_type: 'artist' },
+        user2: { user_id: 7, fullname: 'Maria', user_type: 'employer' },
+      },
+    })) as any);
+    const res = mockResponse();
+
+    await searchMessages(request({ q: 'quote', limit: '2', page: '2' }), res);
+
+    expect(findAll.mock.calls[0][0]).toMatchObject({ limit: 3, offset: 2 });
+    const body = res.json.mock.calls[0][0];
+    expect(body).toMatchObject({ page: 2, limit: 2, hasMore: true });
+    expect(body.results).toHaveLength(2);
+    expect(body.results[0].otherUser).toEqual({ user_id: 7, fullname: 'Maria', user_type: 'employer' });
+  });
+});
@@ -0,0 +1,54 @@
+import Session from '../src/models/Session';
+import { logoutAllDevices, logoutUser, refreshAccessToken } from '../src/controllers/userController';
+import { mockIo, mockResponse } from './helpers';
+
+afterEach(() => jest.restoreAllMocks());
+
+const loggedIn = (extra: object = {}) => ({ user: { id: 5, sid: 12 }, io: mockIo(), body: {}, ...extra }) as any;
+
+describe('refreshAccessToken', () => {
+  it('requires a refresh token', async () => {
+    const res = mockResponse();
+    await refreshAccessToken({ body: {} } as any, res);
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it('answers 401 when the token can no longer be used', async () => {
+    jest.spyOn(Session, 'findByPk').mockResolvedValue(null);
+    const res = mockResponse();
+
+    await refreshAccessToken({ body: { refreshToken: '12.abc' } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+describe('logoutUser', () => {
+  it('revokes only the session of the access token used', async () => {
+    const revoke = jest.spyOn(Session, 'update').mockResolvedValue([1] as any);
+    const res = mockResponse();
+
+    await logoutUser(loggedIn(), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(revoke).toHaveBeenCalledWith({ revoked_at: expect.any(Date) }, { where: { session_id: 12, user_id: 5, revoked_at: null } });
+  });
+});
+
+describe('logoutAllDevices', () => {
+  it('revokes every session of the user', async () => {
+    const revoke = jest.spyOn(Session, 'update').mockResolvedValue([3] as any);
+    const res = mockResponse();
+
+    await logoutAllDevices(loggedIn(), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(revoke.mock.calls[0][1].where).toEqual({ user_id: 5, revoked_at: null });
+  });
+
+  it('requires a logged-in user', async () => {
+    const res = mockResponse();
+    await logoutAllDevices({ user: undefined } as any, res);
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
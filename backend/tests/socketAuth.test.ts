@@ -0,0 +1,103 @@
+import jwt from 'jsonwebtoken';
+import Session from '../src/models/Session';
+import { authenticateSocket, watchSocketSession } from '../src/middleware/socketAuth';
+import { logoutAllDevices, logoutUser } from '../src/controllers/userController';
+import { mockIo, mockResponse } from './helpers';
+
+const sign = (payload: object) => jwt.sign(payload, process.env.JWT_SECRET || 'default_secret');
+
+const handshake = (auth: object = {}, headers: object = {}) => ({ handshake: { auth, headers }, data: {} }) as any;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+describe('authenticateSocket', () => {
+  it('refuses sockets without a token', async () => {
+    const next = jest.fn();
+    await authenticateSocket(handshake(), next);
+    expect(next.mock.calls[0][0]).toBeInstanceOf(Error);
+  });
+
+  it('refuses tokens of revoked sessions', async () => {
+    jest.spyOn(Session, 'findOne').mockResolvedValue(null);
+    const next = jest.fn();
+
+    await authenticateSocket(handshake({ token: sign({ id: 5, sid: 12 }) }), next);
+
+    expect(next.mock.calls[0][0]).toBeInstanceOf(Error);
+  });
+
+  it('stores the user of a valid token, from auth or the Authorization header', async () => {
+    jest.spyOn(Session, 'findOne').mockResolvedValue({ session_id: 12 } as any);
+    const token = sign({ id: 5, sid: 12 });
+
+    for (const socket of [handshake({ token }), handshake({}, { authorization: `Bearer ${token}` })]) {
+      const next = jest.fn();
+      await authenticateSocket(socket, next);
+      expect(next).toHaveBeenCalledWith();
+      expect(socket.data.user).toMatchObject({ id: 5, sid: 12 });
+    }
+  });
+});
+
+describe('watchSocketSession', () => {
+  const connectedSocket = (exp: number) => {
+    const handlers: Record<string, () => void> = {};
+    return {
+      data: { user: { id: 5, sid: 12, exp } },
+      connected: true,
+      emit: jest.fn(),
+      disconnect: jest.fn(),
+      on: jest.fn((event: string, handler: () => void) => { handlers[event] = handler; }),
+      handlers,
+    } as any;
+  };
+
+  it('drops the socket once its token expired and the session is gone', async () => {
+    jest.useFakeTimers();
+    const findOne = jest.spyOn(Session, 'findOne').mockResolvedValue(null);
+    const socket = connectedSocket(Math.floor(Date.now() / 1000) + 60);
+
+    watchSocketSession(socket);
+    await jest.advanceTimersByTimeAsync(59 * 1000);
+    expect(findOne).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2 * 1000);
+    expect(socket.emit).toHaveBeenCalledWith('session_revoked');
+    expect(socket.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('stops checking after the socket disconnected', async () => {
+    jest.useFakeTimers();
+    const findOne = jest.spyOn(Session, 'findOne');
+    const socket = connectedSocket(Math.floor(Date.now() / 1000) + 60);
+
+    watchSocketSession(socket);
+    socket.handlers.disconnect();
+    await jest.advanceTimersByTimeAsync(120 * 1000);
+
+    expect(findOne).not.toHaveBeenCalled();
+  });
+});
+
+describe('logging out disconnects sockets', () => {
+  beforeEach(() => jest.spyOn(Session, 'update').mockResolvedValue([1] as any));
+
+  it('of the current session', async () => {
+    const req = { user: { id: 5, sid: 12 }, io: mockIo() } as any;
+    await logoutUser(req, mockResponse());
+    expect(req.io.to).toHaveBeenCalledWith('session-12');
+    expect(req.io.emit).toHaveBeenCalledWith('session_revoked');
+    expect(req.io.in).toHaveBeenCalledWith('session-12');
+    expect(req.io.disconnectSockets).toHaveBeenCalledWith(true);
+  });
+
+  it('of every device', async () => {
+    const req = { user: { id: 5, sid: 12 }, io: mockIo() } as any;
+    await logoutAllDevices(req, mockResponse());
+    expect(req.io.in).toHaveBeenCalledWith('user-5');
+    expect(req.io.disconnectSockets).toHaveBeenCalledWith(true);
+  });
+});
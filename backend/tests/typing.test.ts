@@ -0,0 +1,101 @@
+import Chat from '../src/models/Chat';
+import ChatParticipant from '../src/models/ChatParticipant';
+import UserBlock from '../src/models/UserBlock';
+import { registerTypingHandlers, TYPING_THROTTLE_MS, TYPING_TIMEOUT_MS } from '../src/utils/typing';
+
+// Socket of user 5 whose broadcasts (socket.to(room).except(...).emit) are recorded
+const typingSocket = () => {
+  const handlers: Record<string, (...args: unknown[]) => unknown> = {};
+  const emit = jest.fn();
+  const socket = {
+    rooms: new Set(['10', '30']),
+    on: jest.fn((event: string, handler: (...args: unknown[]) => unknown) => { handlers[event] = handler; }),
+    to: jest.fn(() => ({ except: () => ({ emit }) })),
+  } as any;
+  registerTypingHandlers(socket, 5);
+  return { socket, handlers, emit };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(Chat, 'findByPk').mockImplementation((async (id: number) => ({
+    10: { chat_id: 10, chat_type: 'direct', user1_id: 5, user2_id: 7 },
+    30: { chat_id: 30, chat_type: 'group', user1_id: null, user2_id: null },
+  } as Record<number, object>)[id] ?? null) as any);
+  jest.spyOn(UserBlock, 'findOne').mockResolvedValue(null);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+describe('registerTypingHandlers', () => {
+  it('relays typing to the chat room and stops after a timeout', async () => {
+    const { socket, handlers, emit } = typingSocket();
+
+    await handlers.typing_start(10);
+    expect(socket.to).toHaveBeenCalledWith('10');
+    expect(emit).toHaveBeenCalledWith('typing_start', { chat_id: 10, user_id: 5 });
+
+    jest.advanceTimersByTime(TYPING_TIMEOUT_MS);
+    expect(emit).toHaveBeenLastCalledWith('typing_stop', { chat_id: 10, user_id: 5 });
+  });
+
+  it('rebroadcasts typing_start at most once per throttle window', async () => {
+    const { handlers, emit } = typingSocket();
+
+    await handlers.typing_start(10);
+    jest.advanceTimersByTime(TYPING_THROTTLE_MS / 2);
+    await handlers.typing_start(10);
+    expect(emit).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(TYPING_THROTTLE_MS);
+    await handlers.typing_start(10);
+    expect(emit).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops on typing_stop and on disconnect', async () => {
+    const { handlers, emit } = typingSocket();
+
+    await handlers.typing_start(10);
+    handlers.typing_stop(10);
+    expect(emit).toHaveBeenLastCalledWith('typing_stop', { chat_id: 10, user_id: 5 });
+
+    await handlers.typing_start(10);
+    handlers.disconnect();
+    expect(emit).toHaveBeenLastCalledWith('typing_stop', { chat_id: 10, user_id: 5 });
+    expect(emit).toHaveBeenCalledTimes(4);
+  });
+
+  it('ignores chats the user is not in', async () => {
+    const { handlers, emit } = typingSocket();
+
+    await handlers.typing_start(99);
+    handlers.typing_stop(99);
+
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('relays nothing between blocked users', async () => {
+    jest.spyOn(UserBlock, 'findOne').mockResolvedValue({ block_id: 1 } as any);
+    const { handlers, emit } = typingSocket();
+
+    await handlers.typing_start(10);
+
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('stops relaying for a group the user has left', async () => {
+    jest.spyOn(ChatParticipant, 'findOne').mockResolvedValue({ participant_id: 1 } as any);
+    const { socket, handlers, emit } = typingSocket();
+
+    await handlers.typing_start(30);
+    handlers.typing_stop(30);
+    expect(emit).toHaveBeenCalledTimes(2);
+
+    socket.rooms.delete('30');
+    await handlers.typing_start(30);
+    expect(emit).toHaveBeenCalledTimes(2);
+  });
+});